@@ -11,6 +11,13 @@ import { ErrorFallback } from './components/ErrorFallback';
 import { Button } from './components/Common';
 import { AlertTriangle } from 'lucide-react';
 import Loader from './components/Loader';
+import OfflineConflictsDialog from './components/OfflineConflictsDialog';
+import GuestMigrationDialog from './components/GuestMigrationDialog';
+import { replayOfflineMutations } from './services/store';
+import { subscribeToQueue } from './services/offlineQueue';
+import { hasGuestData, isGuestMode, setGuestMode, subscribeToGuestMode } from './services/localStore';
+import { startLibrarySync } from './services/realtime';
+import { OfflineConflict } from './types';
 
 // Lazy load pages
 const Library = lazy(() => import('./pages/Library'));
@@ -25,6 +32,36 @@ export default function App() {
   const [sessionWarning, setSessionWarning] = React.useState(false);
   const sessionTimeoutRef = React.useRef<SessionTimeout | null>(null);
   const isOnline = useOnlineStatus();
+  const [pendingChanges, setPendingChanges] = React.useState(0);
+  const [offlineConflicts, setOfflineConflicts] = React.useState<OfflineConflict[]>([]);
+  const [guest, setGuest] = React.useState(isGuestMode());
+  // Sign-in modal opened by a guest; null while closed
+  const [authMode, setAuthMode] = React.useState<'login' | 'register' | null>(null);
+  const [showGuestMigration, setShowGuestMigration] = React.useState(false);
+
+  React.useEffect(() => subscribeToQueue(setPendingChanges), []);
+  React.useEffect(() => subscribeToGuestMode(setGuest), []);
+
+  // Offer to copy guest data into the account once signed in
+  React.useEffect(() => {
+    if (!user) return;
+    setAuthMode(null);
+    hasGuestData().then(setShowGuestMigration);
+  }, [user?.id]);
+
+  // Keep the library in sync with changes made on other devices
+  React.useEffect(() => {
+    if (!user) return;
+    return startLibrarySync(user.id);
+  }, [user?.id]);
+
+  // Replay writes queued while offline once we are (back) online
+  React.useEffect(() => {
+    if (!isOnline || !user) return;
+    replayOfflineMutations().then(({ conflicts }) => {
+      if (conflicts.length > 0) setOfflineConflicts(conflicts);
+    });
+  }, [isOnline, user?.id]);
 
   React.useEffect(() => {
     // Check active session
@@ -97,24 +134,47 @@ export default function App() {
           <ErrorFallback error={error} errorInfo={errorInfo} reset={reset} />
         )}
       >
-          <AppLayout user={user} onSignOut={handleSignOut}>
-             <OfflineBanner isOffline={!isOnline} />
+          <AppLayout user={user} onSignOut={handleSignOut} onSignIn={guest ? () => setAuthMode('login') : undefined}>
+             <OfflineBanner isOffline={!isOnline} pendingChanges={pendingChanges} />
              <ReconnectionToast />
              
-             {!user && <AuthModal onAuthSuccess={() => {}} />}
+             {!user && !guest && <AuthModal onAuthSuccess={() => {}} onContinueAsGuest={() => setGuestMode(true)} />}
+             {!user && guest && authMode && (
+               <AuthModal
+                 initialMode={authMode}
+                 onAuthSuccess={() => setAuthMode(null)}
+                 onClose={() => setAuthMode(null)}
+               />
+             )}
 
              <Suspense fallback={<Loader />}>
                <Routes>
                  <Route path="/" element={<Navigate to="/library" replace />} />
-                 <Route path="/library" element={user ? <Library /> : <div className="h-[60vh] flex items-center justify-center text-muted-foreground">Please sign in to view your library</div>} />
+                 <Route path="/library" element={user || guest ? <Library /> : <div className="h-[60vh] flex items-center justify-center text-muted-foreground">Please sign in to view your library</div>} />
                  <Route path="/search" element={<Search />} />
                  <Route path="/manhwa/:id" element={<Details />} />
-                 <Route path="/goals" element={user ? <Goals /> : <Navigate to="/" replace />} />
-                 <Route path="/account" element={user ? <Account /> : <Navigate to="/" replace />} />
+                 <Route path="/goals" element={user || guest ? <Goals /> : <Navigate to="/" replace />} />
+                 <Route path="/account" element={user ? <Account /> : guest ? (
+                   <div className="h-[60vh] flex flex-col items-center justify-center gap-4 text-center text-muted-foreground">
+                     <p>You're using doofTrack as a guest. Your library is only saved on this device.</p>
+                     <div className="flex gap-3">
+                       <Button variant="outline" onClick={() => setAuthMode('login')} className="cursor-pointer">Sign In</Button>
+                       <Button onClick={() => setAuthMode('register')} className="cursor-pointer">Create Account</Button>
+                     </div>
+                   </div>
+                 ) : <Navigate to="/" replace />} />
                  <Route path="*" element={<Navigate to="/library" replace />} />
                </Routes>
              </Suspense>
 
+             {showGuestMigration && user && (
+               <GuestMigrationDialog onClose={() => setShowGuestMigration(false)} />
+             )}
+
+             {offlineConflicts.length > 0 && (
+               <OfflineConflictsDialog conflicts={offlineConflicts} onClose={() => setOfflineConflicts([])} />
+             )}
+
              {/* Session Timeout Warning */}
              {sessionWarning && user && (
                 <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm px-4">
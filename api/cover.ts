@@ -1,27 +1,32 @@
+import sharp from 'sharp';
+import { COVER_WIDTHS, snapCoverWidth } from '../utils/imageOptimization';
+
 const ALLOWED_METHODS = ['GET', 'OPTIONS'];
+const DEFAULT_QUALITY = 80;
 
 // Image optimization proxy for MangaDex cover images
 // Proxies images from https://uploads.mangadex.org/covers with optimizations:
 // - Proper caching headers for CDN and browser
-// - Size hints via query params (w=width, q=quality)
-// - Format negotiation (WebP support via Accept header)
-// - Compression hints for better bandwidth usage
+// - Resizing via query params (w=width, q=quality)
+// - Format negotiation (AVIF/WebP via Accept header, with Vary: Accept)
+// - A per-variant ETag derived from the upstream one for resized/re-encoded output
 //
 // Frontend usage:
 //   /api/cover/<mangaId>/<fileName>           - Original size
-//   /api/cover/<mangaId>/<fileName>?w=512     - Hint for 512px width
-//   /api/cover/<mangaId>/<fileName>?w=256&q=80 - Hint for 256px, quality 80
+//   /api/cover/<mangaId>/<fileName>?w=512     - Resized to 512px wide
+//   /api/cover/<mangaId>/<fileName>?w=256&q=80 - 256px, quality 80
 //
-// Note: MangaDex serves original images. Size/quality params are hints for 
-// client-side optimization and future server-side processing.
+// Widths are snapped to COVER_WIDTHS so the CDN only ever caches a handful of
+// variants per cover. Images are never upscaled. Requests without w or q that
+// accept neither AVIF nor WebP get the original bytes.
 export default {
   async fetch(req: Request): Promise<Response> {
     const url = new URL(req.url);
 
     const searchParams = new URLSearchParams(url.search);
     const rawPath = searchParams.get('path') || '';
-    const width = searchParams.get('w') || searchParams.get('width');
-    const quality = searchParams.get('q') || searchParams.get('quality');
+    const rawWidth = searchParams.get('w') || searchParams.get('width');
+    const rawQuality = searchParams.get('q') || searchParams.get('quality');
     
     searchParams.delete('path');
     searchParams.delete('w');
@@ -41,18 +46,20 @@ export default {
       return new Response('Method Not Allowed', { status: 405, headers: corsHeaders() });
     }
 
-    try {
-      // Check if client supports WebP
-      const acceptHeader = req.headers.get('Accept') || '';
-      const supportsWebP = acceptHeader.includes('image/webp');
+    const width = parseWidth(rawWidth);
+    if (width === null) {
+      return new Response(
+        `Invalid width, expected a positive number (sizes: ${COVER_WIDTHS.join(', ')})`,
+        { status: 400, headers: corsHeaders() }
+      );
+    }
+    const quality = parseQuality(rawQuality);
+    const format = pickFormat(req.headers.get('Accept') || '');
 
+    try {
       const upstream = await fetch(target, {
         method: 'GET',
-        headers: { 
-          Referer: 'https://mangadex.org/',
-          // Request WebP if client supports it
-          ...(supportsWebP && { 'Accept': 'image/webp,image/*,*/*;q=0.8' }),
-        },
+        headers: { Referer: 'https://mangadex.org/' },
       });
 
       if (!upstream.ok) {
@@ -72,14 +79,6 @@ export default {
       // Aggressive caching for images (covers don't change)
       headers.set('Cache-Control', 'public, max-age=31536000, s-maxage=31536000, immutable');
       
-      // Add optimization hints for CDN/browser
-      if (width) {
-        headers.set('X-Image-Width-Hint', width);
-      }
-      if (quality) {
-        headers.set('X-Image-Quality-Hint', quality);
-      }
-      
       // Inform client about image optimization support
       headers.set('Accept-CH', 'DPR, Viewport-Width, Width');
       headers.set('Vary', 'Accept');
@@ -90,8 +89,30 @@ export default {
       headers.delete('content-length');
       headers.delete('Content-Length');
 
-      const body = await upstream.arrayBuffer();
-      return new Response(body, { status: upstream.status, headers });
+      const original = Buffer.from(await upstream.arrayBuffer());
+      if (!width && !rawQuality && format === 'original') {
+        return new Response(original, { status: upstream.status, headers });
+      }
+
+      try {
+        const { body, contentType } = await transformCover(original, width, quality, format);
+        const transformed = new Headers(headers);
+        transformed.set('Content-Type', contentType);
+        if (width) transformed.set('X-Image-Width', String(width));
+        // Upstream validators describe the original bytes, not this variant
+        transformed.delete('Last-Modified');
+        const etag = variantETag(upstream.headers.get('ETag'), width, quality, contentType);
+        if (etag) {
+          transformed.set('ETag', etag);
+        } else {
+          transformed.delete('ETag');
+        }
+        return new Response(body, { status: upstream.status, headers: transformed });
+      } catch (e) {
+        // Serve the untouched cover rather than failing the image
+        console.error('Cover transform error:', e);
+        return new Response(original, { status: upstream.status, headers });
+      }
     } catch (e: any) {
       console.error('Cover proxy error:', e);
       return new Response('Service Unavailable', { 
@@ -102,6 +123,65 @@ export default {
   },
 };
 
+type OutputFormat = 'avif' | 'webp' | 'original';
+
+// undefined when no width was requested, null when the value is unusable
+function parseWidth(raw: string | null): number | undefined | null {
+  if (!raw) return undefined;
+  const width = Number(raw);
+  if (!Number.isFinite(width) || width <= 0) return null;
+  return snapCoverWidth(width);
+}
+
+function parseQuality(raw: string | null): number {
+  const quality = Number(raw);
+  if (!raw || !Number.isFinite(quality)) return DEFAULT_QUALITY;
+  return Math.round(Math.max(1, Math.min(100, quality)));
+}
+
+function pickFormat(accept: string): OutputFormat {
+  if (accept.includes('image/avif')) return 'avif';
+  if (accept.includes('image/webp')) return 'webp';
+  return 'original';
+}
+
+async function transformCover(
+  input: Buffer,
+  width: number | undefined,
+  quality: number,
+  format: OutputFormat
+): Promise<{ body: Buffer; contentType: string }> {
+  let image = sharp(input).rotate();
+  if (width) {
+    image = image.resize({ width, withoutEnlargement: true });
+  }
+
+  if (format === 'avif') {
+    // Low effort keeps encoding time reasonable for a serverless function
+    return { body: await image.avif({ quality, effort: 2 }).toBuffer(), contentType: 'image/avif' };
+  }
+  if (format === 'webp') {
+    return { body: await image.webp({ quality }).toBuffer(), contentType: 'image/webp' };
+  }
+
+  // Keep the source format for clients without AVIF/WebP support
+  const { format: sourceFormat } = await image.metadata();
+  if (sourceFormat === 'png') {
+    return { body: await image.png({ quality }).toBuffer(), contentType: 'image/png' };
+  }
+  return { body: await image.jpeg({ quality, mozjpeg: true }).toBuffer(), contentType: 'image/jpeg' };
+}
+
+// Weak ETag for a resized or re-encoded cover, derived from the upstream one
+// so it still changes when the cover does. Weak because re-encoding is not
+// guaranteed to give the same bytes.
+function variantETag(upstreamETag: string | null, width: number | undefined, quality: number, contentType: string): string | null {
+  const tag = upstreamETag?.replace(/^W\//, '').replace(/"/g, '');
+  if (!tag) return null;
+  const format = contentType.replace('image/', '');
+  return `W/"${tag}-${width ?? 'full'}-${format}-q${quality}"`;
+}
+
 function corsHeaders(): Record<string, string> {
   return {
     'Access-Control-Allow-Origin': '*',
@@ -1,16 +1,72 @@
+import { createHash } from 'node:crypto';
+
 const ALLOWED_METHODS = ['GET', 'OPTIONS'];
 
 // Vercel Node.js runtime using the Fetch Web Standard export
 // This function proxies requests to https://api.mangadex.org
 // Frontend calls /api/mangadex/<path>?<query>
 // vercel.json rewrites that to /api/mangadex?path=<path>&<query>
+//
+// Only the endpoints the app uses are forwarded (ALLOWED_PATHS). Each client IP
+// gets a token bucket, successful responses are kept in a small in-memory LRU
+// with ETags, and identical upstream calls that are in flight at the same time
+// share one request. All of this state is per function instance.
+
+const UUID = '[0-9a-fA-F]{8}-(?:[0-9a-fA-F]{4}-){3}[0-9a-fA-F]{12}';
+
+const ALLOWED_PATHS = [
+  /^\/manga$/,
+  /^\/manga\/tag$/,
+  /^\/manga\/random$/,
+  new RegExp(`^/manga/${UUID}$`),
+  new RegExp(`^/manga/${UUID}/feed$`),
+  new RegExp(`^/manga/${UUID}/aggregate$`),
+  /^\/cover$/,
+  new RegExp(`^/cover/${UUID}$`),
+];
+
+// Responses that must never be served from cache
+const UNCACHEABLE_PATHS = [/^\/manga\/random$/];
+
+// Per-IP token bucket: bursts of BUCKET_CAPACITY, refilled at BUCKET_REFILL_PER_SECOND
+const BUCKET_CAPACITY = 40;
+const BUCKET_REFILL_PER_SECOND = 5;
+const MAX_TRACKED_CLIENTS = 5000;
+
+const CACHE_TTL_MS = 5 * 60 * 1000;
+const CACHE_MAX_ENTRIES = 300;
+const CACHE_MAX_BYTES = 25 * 1024 * 1024;
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface UpstreamResult {
+  status: number;
+  headers: [string, string][];
+  body: ArrayBuffer;
+  etag: string;
+}
+
+interface CacheEntry extends UpstreamResult {
+  expiresAt: number;
+}
+
+const buckets = new Map<string, Bucket>();
+// Map iteration order doubles as LRU order: oldest first
+const cache = new Map<string, CacheEntry>();
+let cacheBytes = 0;
+const inFlight = new Map<string, Promise<UpstreamResult>>();
+
 export default {
   async fetch(req: Request): Promise<Response> {
     const url = new URL(req.url);
 
-    // Extract the target MangaDex path from the ?path= query param added by the rewrite
+    // Extract the target MangaDex path from the ?path= query param added by the
+    // rewrite, or from the URL when called through api/mangadex/[...path].ts
     const searchParams = new URLSearchParams(url.search);
-    const rawPath = searchParams.get('path') || '';
+    const rawPath = searchParams.get('path') ?? url.pathname.replace(/^\/api\/mangadex\/?/, '');
     searchParams.delete('path');
 
     const normalizedPath = rawPath.startsWith('/') ? rawPath : `/${rawPath}`;
@@ -28,40 +84,171 @@ export default {
       return new Response('Method Not Allowed', { status: 405, headers: corsHeaders() });
     }
 
-    try {
-      const upstream = await fetch(target, {
-        method: 'GET',
-        headers: {
-          'User-Agent': 'doofTrack/1.0 (+https://doof-track.vercel.app)',
-        },
+    if (!ALLOWED_PATHS.some(pattern => pattern.test(normalizedPath))) {
+      return jsonError(404, 'not_allowed', `Path ${normalizedPath} is not proxied`);
+    }
+
+    const retryAfter = takeToken(clientIp(req));
+    if (retryAfter > 0) {
+      return jsonError(429, 'rate_limited', 'Too many requests, slow down', {
+        'Retry-After': String(retryAfter),
       });
+    }
 
-      const headers = new Headers(upstream.headers);
-      // Ensure CORS and caching
-      headers.set('Access-Control-Allow-Origin', '*');
-      headers.set('Access-Control-Allow-Methods', 'GET, OPTIONS');
-      headers.set('Access-Control-Allow-Headers', '*');
-      headers.set('Cache-Control', headers.get('Cache-Control') || 's-maxage=600, stale-while-revalidate=86400');
-      // Avoid double-decompression issues in browsers (ERR_CONTENT_DECODING_FAILED)
-      headers.delete('content-encoding');
-      headers.delete('Content-Encoding');
-      headers.delete('content-length');
-      headers.delete('Content-Length');
-
-      const body = await upstream.arrayBuffer();
-      return new Response(body, { status: upstream.status, headers });
+    const cacheable = !UNCACHEABLE_PATHS.some(pattern => pattern.test(normalizedPath));
+
+    try {
+      const result = (cacheable && readCache(target)) || (await fetchUpstream(target, cacheable));
+      return respond(req, result, cacheable);
     } catch (e: any) {
-      return new Response(
-        JSON.stringify({ error: 'proxy_error', message: e?.message || 'fetch failed' }),
-        {
-          status: 502,
-          headers: { 'content-type': 'application/json', ...corsHeaders() },
-        },
-      );
+      return jsonError(502, 'proxy_error', e?.message || 'fetch failed');
     }
   },
 };
 
+function clientIp(req: Request): string {
+  const forwarded = req.headers.get('x-forwarded-for');
+  if (forwarded) return forwarded.split(',')[0].trim();
+  return req.headers.get('x-real-ip') || 'unknown';
+}
+
+/**
+ * Take one token from the client's bucket.
+ * @returns 0 when allowed, otherwise seconds until a token is available
+ */
+function takeToken(ip: string): number {
+  const now = Date.now();
+  const bucket = buckets.get(ip) || { tokens: BUCKET_CAPACITY, updatedAt: now };
+  const elapsed = (now - bucket.updatedAt) / 1000;
+  bucket.tokens = Math.min(BUCKET_CAPACITY, bucket.tokens + elapsed * BUCKET_REFILL_PER_SECOND);
+  bucket.updatedAt = now;
+
+  // Re-insert so the least recently seen clients are dropped first
+  buckets.delete(ip);
+  buckets.set(ip, bucket);
+  if (buckets.size > MAX_TRACKED_CLIENTS) {
+    buckets.delete(buckets.keys().next().value as string);
+  }
+
+  if (bucket.tokens < 1) {
+    return Math.ceil((1 - bucket.tokens) / BUCKET_REFILL_PER_SECOND);
+  }
+  bucket.tokens -= 1;
+  return 0;
+}
+
+function readCache(key: string): CacheEntry | null {
+  const entry = cache.get(key);
+  if (!entry) return null;
+  cache.delete(key);
+  if (entry.expiresAt <= Date.now()) {
+    cacheBytes -= entry.body.byteLength;
+    return null;
+  }
+  // Move to the most recently used end
+  cache.set(key, entry);
+  return entry;
+}
+
+function writeCache(key: string, result: UpstreamResult) {
+  const existing = cache.get(key);
+  if (existing) {
+    cache.delete(key);
+    cacheBytes -= existing.body.byteLength;
+  }
+  if (result.body.byteLength > CACHE_MAX_BYTES) return;
+
+  cache.set(key, { ...result, expiresAt: Date.now() + CACHE_TTL_MS });
+  cacheBytes += result.body.byteLength;
+
+  while (cache.size > CACHE_MAX_ENTRIES || cacheBytes > CACHE_MAX_BYTES) {
+    const [oldestKey, oldest] = cache.entries().next().value as [string, CacheEntry];
+    cache.delete(oldestKey);
+    cacheBytes -= oldest.body.byteLength;
+  }
+}
+
+// Fetch from MangaDex, sharing the request with identical calls in flight
+function fetchUpstream(target: string, cacheable: boolean): Promise<UpstreamResult> {
+  const pending = inFlight.get(target);
+  if (pending) return pending;
+
+  const request = (async () => {
+    const upstream = await fetch(target, {
+      method: 'GET',
+      headers: {
+        'User-Agent': 'doofTrack/1.0 (+https://doof-track.vercel.app)',
+      },
+    });
+
+    const body = await upstream.arrayBuffer();
+    const result: UpstreamResult = {
+      status: upstream.status,
+      headers: Array.from(upstream.headers.entries()),
+      body,
+      etag: `"${createHash('sha1').update(Buffer.from(body)).digest('base64url')}"`,
+    };
+
+    if (cacheable && upstream.status === 200) {
+      writeCache(target, result);
+    }
+    return result;
+  })();
+
+  inFlight.set(target, request);
+  request.then(
+    () => inFlight.delete(target),
+    () => inFlight.delete(target)
+  );
+  return request;
+}
+
+function respond(req: Request, result: UpstreamResult, cacheable: boolean): Response {
+  const headers = new Headers(result.headers);
+  // Ensure CORS and caching
+  headers.set('Access-Control-Allow-Origin', '*');
+  headers.set('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  headers.set('Access-Control-Allow-Headers', '*');
+  // Errors (429s, 5xx, 404s) must not be cached by the CDN for every client
+  headers.set(
+    'Cache-Control',
+    cacheable && result.status === 200
+      ? headers.get('Cache-Control') || 's-maxage=600, stale-while-revalidate=86400'
+      : 'no-store'
+  );
+  // Avoid double-decompression issues in browsers (ERR_CONTENT_DECODING_FAILED)
+  headers.delete('content-encoding');
+  headers.delete('Content-Encoding');
+  headers.delete('content-length');
+  headers.delete('Content-Length');
+
+  if (result.status === 429) {
+    // MangaDex sends an epoch timestamp; browsers understand Retry-After seconds
+    const retryAt = Number(headers.get('X-RateLimit-Retry-After'));
+    const seconds = Number.isFinite(retryAt) && retryAt > 0 ? Math.ceil(retryAt - Date.now() / 1000) : 1;
+    headers.set('Retry-After', String(Math.max(1, seconds)));
+  }
+
+  if (result.status !== 200) {
+    return new Response(result.body, { status: result.status, headers });
+  }
+
+  headers.set('ETag', result.etag);
+  const ifNoneMatch = req.headers.get('If-None-Match');
+  if (ifNoneMatch && ifNoneMatch.split(',').some(tag => tag.trim() === result.etag)) {
+    return new Response(null, { status: 304, headers });
+  }
+
+  return new Response(result.body, { status: result.status, headers });
+}
+
+function jsonError(status: number, error: string, message: string, extraHeaders: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify({ error, message }), {
+    status,
+    headers: { 'content-type': 'application/json', ...corsHeaders(), ...extraHeaders },
+  });
+}
+
 function corsHeaders(): Record<string, string> {
   return {
     'Access-Control-Allow-Origin': '*',
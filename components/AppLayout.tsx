@@ -1,9 +1,9 @@
 import React from 'react';
 import { Link, useLocation } from 'react-router-dom';
-import { LayoutGrid, Search as SearchIcon, UserCircle, Target } from 'lucide-react';
+import { LayoutGrid, Search as SearchIcon, UserCircle, Target, LogIn } from 'lucide-react';
 import { ThemeToggle } from './ThemeToggle';
 import SignOutDialog from './SignOutDialog';
-import { cn } from './Common';
+import { Button, cn } from './Common';
 
 // Desktop navigation item
 export function NavItem({ to, icon: Icon, label }: { to: string, icon: any, label: string }) {
@@ -47,7 +47,7 @@ export function MobileNavItem({ to, icon: Icon, label }: { to: string, icon: any
   );
 }
 
-export function AppLayout({ children, user, onSignOut }: { children?: React.ReactNode, user?: any, onSignOut?: () => void }) {
+export function AppLayout({ children, user, onSignOut, onSignIn }: { children?: React.ReactNode, user?: any, onSignOut?: () => void, onSignIn?: () => void }) {
   const [isDark, setIsDark] = React.useState(true);
 
   React.useEffect(() => {
@@ -92,6 +92,12 @@ export function AppLayout({ children, user, onSignOut }: { children?: React.Reac
             <div className="h-6 w-px bg-border/50"></div>
             <ThemeToggle />
             {user && onSignOut && <SignOutDialog onConfirm={onSignOut} />}
+            {!user && onSignIn && (
+              <Button variant="outline" size="sm" onClick={onSignIn} className="cursor-pointer">
+                <LogIn className="w-4 h-4 mr-2" />
+                Sign In
+              </Button>
+            )}
           </div>
         </div>
       </header>
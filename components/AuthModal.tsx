@@ -1,14 +1,19 @@
 import React, { useState } from 'react';
 import { supabase } from '../services/supabase';
 import { Button } from './Common';
-import { Lock, Mail, User, AlertCircle } from 'lucide-react';
+import { Lock, Mail, User, AlertCircle, X } from 'lucide-react';
 
 interface AuthModalProps {
   onAuthSuccess: () => void;
+  /** Shows a "continue without an account" option (guest mode) */
+  onContinueAsGuest?: () => void;
+  /** Makes the modal dismissable, e.g. when a guest opens it to sign up */
+  onClose?: () => void;
+  initialMode?: 'login' | 'register';
 }
 
-export default function AuthModal({ onAuthSuccess }: AuthModalProps) {
-  const [isLogin, setIsLogin] = useState(true);
+export default function AuthModal({ onAuthSuccess, onContinueAsGuest, onClose, initialMode = 'login' }: AuthModalProps) {
+  const [isLogin, setIsLogin] = useState(initialMode === 'login');
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [username, setUsername] = useState('');
@@ -88,7 +93,19 @@ export default function AuthModal({ onAuthSuccess }: AuthModalProps) {
 
   return (
     <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm px-4">
-      <div className="w-full max-w-md p-6 md:p-8 bg-card border border-border/50 shadow-2xl animate-in fade-in zoom-in duration-300">
+      <div className="relative w-full max-w-md p-6 md:p-8 bg-card border border-border/50 shadow-2xl animate-in fade-in zoom-in duration-300">
+        {onClose && (
+          <button
+            type="button"
+            onClick={onClose}
+            className="absolute top-4 right-4 text-muted-foreground hover:text-foreground transition-colors cursor-pointer"
+            aria-label="Close"
+            disabled={loading}
+          >
+            <X className="w-5 h-5" />
+          </button>
+        )}
+
         {/* Header */}
         <div className="text-center mb-8">
           <div className="inline-flex items-center justify-center w-16 h-16 bg-primary/10 border border-primary/20 mb-4">
@@ -210,6 +227,23 @@ export default function AuthModal({ onAuthSuccess }: AuthModalProps) {
             )}
           </button>
         </div>
+
+        {/* Guest mode */}
+        {onContinueAsGuest && (
+          <div className="mt-4 pt-4 border-t border-border/50 text-center space-y-1">
+            <button
+              type="button"
+              onClick={onContinueAsGuest}
+              className="text-sm font-semibold text-muted-foreground hover:text-primary transition-colors cursor-pointer"
+              disabled={loading}
+            >
+              Continue without an account
+            </button>
+            <p className="text-xs text-muted-foreground">
+              Your library is saved on this device. Sign up later to keep it.
+            </p>
+          </div>
+        )}
       </div>
     </div>
   );
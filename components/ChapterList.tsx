@@ -0,0 +1,286 @@
+import { useEffect, useMemo, useState } from "react";
+import { BookOpen, CheckCircle, Circle, ChevronDown, ChevronRight, Clock, ExternalLink, MessageSquare, MessageSquarePlus } from "lucide-react";
+import { getMangaAggregate, getMangaFeed } from "../services/mangadex";
+import { Chapter, ChapterVolume } from "../types";
+import { chapterAnchorId, isChapterRead, parseChapterNumber } from "../utils/chapters";
+import { Button, cn } from "./Common";
+
+interface ChapterListProps {
+  mangaId: string; // MangaDex ID
+  lastChapter: number;
+  /** Omit to show the list without read state (titles not in the library) */
+  onMarkUpTo?: (chapter: number) => void;
+  /** Omit to hide the chapter note buttons */
+  onAddNote?: (chapter: number) => void;
+  notedChapters?: Set<number>; // Chapters that already have a note
+  /** Chapter to scroll to; loads more uploads until it is found */
+  focusChapter?: number | null;
+  onFocusHandled?: () => void;
+}
+
+// How long a chapter jumped to stays highlighted
+const FOCUS_HIGHLIGHT_MS = 2000;
+
+const PAGE_SIZE = 100;
+
+const volumeLabel = (volume: string) => (volume === "none" ? "No Volume" : `Volume ${volume}`);
+
+export default function ChapterList({ mangaId, lastChapter, onMarkUpTo, onAddNote, notedChapters, focusChapter = null, onFocusHandled }: ChapterListProps) {
+  const [volumes, setVolumes] = useState<ChapterVolume[]>([]);
+  const [chapters, setChapters] = useState<Chapter[]>([]);
+  const [total, setTotal] = useState(0);
+  const [dropped, setDropped] = useState(0); // Uploads that failed validation
+  // Uploads the server has sent so far, including dropped ones, which is the
+  // offset of the next page. False once a page comes back empty.
+  const [offset, setOffset] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadChapters = async () => {
+      setLoading(true);
+      const [aggregate, feed] = await Promise.all([
+        getMangaAggregate(mangaId),
+        getMangaFeed(mangaId, { limit: PAGE_SIZE }),
+      ]);
+      if (cancelled) return;
+
+      setVolumes(aggregate);
+      const received = feed.chapters.length + feed.errors.length;
+      setChapters(feed.chapters);
+      setTotal(feed.total);
+      setDropped(feed.errors.length);
+      setOffset(received);
+      setHasMore(received > 0 && received < feed.total);
+      setLoading(false);
+    };
+
+    loadChapters();
+    return () => { cancelled = true; };
+  }, [mangaId]);
+
+  const handleLoadMore = async () => {
+    setLoadingMore(true);
+    const feed = await getMangaFeed(mangaId, { limit: PAGE_SIZE, offset });
+    const received = feed.chapters.length + feed.errors.length;
+    // Uploads can shift between pages while paging; skip any seen already
+    setChapters(prev => {
+      const seen = new Set(prev.map(chapter => chapter.id));
+      return [...prev, ...feed.chapters.filter(chapter => !seen.has(chapter.id))];
+    });
+    setTotal(feed.total);
+    setDropped(prev => prev + feed.errors.length);
+    setOffset(offset + received);
+    setHasMore(received > 0 && offset + received < feed.total);
+    setLoadingMore(false);
+  };
+
+  const toggleVolume = (volume: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(volume)) next.delete(volume);
+      else next.add(volume);
+      return next;
+    });
+  };
+
+  // Place loaded chapters under the volume the aggregate lists them in.
+  // Chapters missing from the aggregate fall back to their own volume field.
+  const grouped = useMemo(() => {
+    const volumeByChapter = new Map<string, string>();
+    volumes.forEach(v => v.chapters.forEach(c => volumeByChapter.set(c, v.volume)));
+
+    const byVolume = new Map<string, Chapter[]>();
+    chapters.forEach(chapter => {
+      const volume = (chapter.chapter && volumeByChapter.get(chapter.chapter)) || chapter.volume || "none";
+      byVolume.set(volume, [...(byVolume.get(volume) || []), chapter]);
+    });
+
+    const order = volumes.map(v => v.volume);
+    byVolume.forEach((_, volume) => {
+      if (!order.includes(volume)) order.push(volume);
+    });
+
+    return order
+      .filter(volume => byVolume.has(volume))
+      .map(volume => ({
+        volume,
+        chapters: byVolume.get(volume)!,
+        numbers: volumes.find(v => v.volume === volume)?.chapters || [],
+      }));
+  }, [volumes, chapters]);
+
+  // Anchor IDs go on the first upload of each chapter number
+  const anchorIds = useMemo(() => {
+    const ids = new Map<string, string>();
+    const seen = new Set<number>();
+    chapters.forEach(chapter => {
+      const number = parseChapterNumber(chapter.chapter);
+      if (number === null || seen.has(number)) return;
+      seen.add(number);
+      ids.set(chapter.id, chapterAnchorId(number));
+    });
+    return ids;
+  }, [chapters]);
+
+  useEffect(() => {
+    if (focusChapter === null || loading || loadingMore) return;
+
+    const target = chapters.find(chapter => parseChapterNumber(chapter.chapter) === focusChapter);
+    if (!target) {
+      if (hasMore) {
+        handleLoadMore();
+      } else {
+        onFocusHandled?.();
+      }
+      return;
+    }
+
+    const volume = grouped.find(group => group.chapters.includes(target))?.volume;
+    if (volume && collapsed.has(volume)) {
+      toggleVolume(volume); // Scrolls once the volume has rendered
+      return;
+    }
+
+    document.getElementById(anchorIds.get(target.id) || '')?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedId(target.id);
+    onFocusHandled?.();
+  }, [focusChapter, loading, loadingMore, chapters, hasMore, grouped, collapsed, anchorIds]);
+
+  useEffect(() => {
+    if (!highlightedId) return;
+    const timeout = setTimeout(() => setHighlightedId(null), FOCUS_HIGHLIGHT_MS);
+    return () => clearTimeout(timeout);
+  }, [highlightedId]);
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 p-4 text-sm text-muted-foreground">
+        <Clock className="w-4 h-4 animate-spin" /> Loading chapters...
+      </div>
+    );
+  }
+
+  if (chapters.length === 0) {
+    return (
+      <p className="p-4 text-sm text-muted-foreground">No English chapters available on MangaDex.</p>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {grouped.map(({ volume, chapters: volumeChapters, numbers }) => {
+        const isCollapsed = collapsed.has(volume);
+        const readCount = numbers.filter(n => isChapterRead(n, lastChapter)).length;
+
+        return (
+          <div key={volume} className="border border-border/50">
+            <button
+              type="button"
+              onClick={() => toggleVolume(volume)}
+              className="w-full flex items-center justify-between gap-2 px-4 py-2 bg-secondary/20 hover:bg-secondary/40 transition-colors cursor-pointer"
+              aria-expanded={!isCollapsed}
+            >
+              <span className="flex items-center gap-2 font-heading font-semibold">
+                {isCollapsed ? <ChevronRight className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+                {volumeLabel(volume)}
+              </span>
+              <span className="text-xs text-muted-foreground">
+                {onMarkUpTo && numbers.length > 0 ? `${readCount} / ${numbers.length} read` : `${numbers.length || volumeChapters.length} chapters`}
+              </span>
+            </button>
+
+            {!isCollapsed && (
+              <ul className="divide-y divide-border/50">
+                {volumeChapters.map(chapter => {
+                  const number = parseChapterNumber(chapter.chapter);
+                  const read = !!onMarkUpTo && isChapterRead(chapter.chapter, lastChapter);
+
+                  return (
+                    <li
+                      key={chapter.id}
+                      id={anchorIds.get(chapter.id)}
+                      className={cn(
+                        "flex items-center gap-3 px-4 py-2 scroll-mt-24 transition-colors",
+                        read && "opacity-60",
+                        highlightedId === chapter.id && "bg-primary/10 opacity-100"
+                      )}
+                    >
+                      {onMarkUpTo && (
+                        <button
+                          type="button"
+                          onClick={() => number !== null && onMarkUpTo(number)}
+                          disabled={number === null}
+                          className="shrink-0 text-primary disabled:text-muted-foreground disabled:cursor-not-allowed cursor-pointer"
+                          title={number !== null ? `Mark read up to chapter ${chapter.chapter}` : 'Unnumbered chapter'}
+                          aria-label={number !== null ? `Mark read up to chapter ${chapter.chapter}` : 'Unnumbered chapter'}
+                        >
+                          {read ? <CheckCircle className="w-5 h-5" /> : <Circle className="w-5 h-5" />}
+                        </button>
+                      )}
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-medium line-clamp-1">
+                          {chapter.chapter ? `Ch. ${chapter.chapter}` : 'Oneshot'}
+                          {chapter.title && <span className="text-muted-foreground font-normal"> — {chapter.title}</span>}
+                        </p>
+                        <p className="text-xs text-muted-foreground line-clamp-1">
+                          {chapter.scanlationGroup || 'No group'} · {new Date(chapter.publishedAt).toLocaleDateString()}
+                        </p>
+                      </div>
+                      {onAddNote && number !== null && (
+                        <button
+                          type="button"
+                          onClick={() => onAddNote(number)}
+                          className={cn(
+                            "shrink-0 p-1 hover:text-primary transition-colors cursor-pointer",
+                            notedChapters?.has(number) ? "text-primary" : "text-muted-foreground"
+                          )}
+                          title={notedChapters?.has(number) ? `Chapter ${chapter.chapter} has notes. Add another` : `Add a note on chapter ${chapter.chapter}`}
+                          aria-label={`Add a note on chapter ${chapter.chapter}`}
+                        >
+                          {notedChapters?.has(number) ? <MessageSquare className="w-4 h-4" /> : <MessageSquarePlus className="w-4 h-4" />}
+                        </button>
+                      )}
+                      <a
+                        href={chapter.externalUrl || `https://mangadex.org/chapter/${chapter.id}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="shrink-0 p-1 text-muted-foreground hover:text-primary transition-colors"
+                        aria-label={`Open chapter ${chapter.chapter || ''} on MangaDex`}
+                      >
+                        <ExternalLink className="w-4 h-4" />
+                      </a>
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        );
+      })}
+
+      {dropped > 0 && (
+        <p className="text-xs text-muted-foreground">
+          {dropped} {dropped === 1 ? 'upload' : 'uploads'} from MangaDex couldn't be read and {dropped === 1 ? 'is' : 'are'} not shown.
+        </p>
+      )}
+
+      {hasMore && (
+        <div className="flex items-center justify-between gap-4">
+          <span className="text-xs text-muted-foreground">
+            Showing {chapters.length} of {total} uploads
+          </span>
+          <Button variant="outline" size="sm" onClick={handleLoadMore} disabled={loadingMore} className="gap-2 cursor-pointer">
+            {loadingMore ? <Clock className="w-4 h-4 animate-spin" /> : <BookOpen className="w-4 h-4" />}
+            Load More
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+import React, { useEffect, useRef, useState, type FormEvent } from 'react';
+import { CornerDownRight, MessageSquarePlus, Pencil, Star, Trash2 } from 'lucide-react';
+import { ChapterNote, ChapterNoteInput } from '../types';
+import { Button, cn } from './Common';
+import MarkdownContent from './MarkdownContent';
+import { createChapterNote, deleteChapterNote, updateChapterNote } from '../services/store';
+import { chapterAnchorId } from '../utils/chapters';
+import { CHAPTER_REACTIONS, isChapterNoteEmpty, MAX_CHAPTER_NOTE_RATING, sortChapterNotes } from '../utils/chapterNotes';
+
+const StarRating: React.FC<{ value: number | null; onChange?: (value: number | null) => void }> = ({ value, onChange }) => (
+  <div className="flex items-center gap-0.5" role={onChange ? 'radiogroup' : undefined} aria-label="Chapter rating">
+    {Array.from({ length: MAX_CHAPTER_NOTE_RATING }, (_, i) => i + 1).map(star => {
+      const filled = !!value && star <= value;
+      const icon = <Star className={cn("w-4 h-4", filled ? "fill-yellow-400 text-yellow-400" : "text-muted-foreground")} />;
+      if (!onChange) return <React.Fragment key={star}>{icon}</React.Fragment>;
+      return (
+        <button
+          key={star}
+          type="button"
+          role="radio"
+          aria-checked={value === star}
+          aria-label={`${star} of ${MAX_CHAPTER_NOTE_RATING}`}
+          // Clicking the current rating clears it
+          onClick={() => onChange(value === star ? null : star)}
+          className="p-0.5 cursor-pointer hover:scale-110 transition-transform"
+        >
+          {icon}
+        </button>
+      );
+    })}
+  </div>
+);
+
+interface ChapterNoteFormProps {
+  initial: ChapterNoteInput;
+  submitLabel: string;
+  onSubmit: (note: ChapterNoteInput) => Promise<boolean>;
+  onCancel: () => void;
+}
+
+function ChapterNoteForm({ initial, submitLabel, onSubmit, onCancel }: ChapterNoteFormProps) {
+  const [chapter, setChapter] = useState(String(initial.chapter));
+  const [body, setBody] = useState(initial.body);
+  const [reaction, setReaction] = useState(initial.reaction);
+  const [rating, setRating] = useState(initial.rating);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    const chapterNumber = Number(chapter);
+    if (chapter.trim() === '' || isNaN(chapterNumber) || chapterNumber < 0) {
+      setError('Enter a chapter number');
+      return;
+    }
+    if (isChapterNoteEmpty({ body, reaction, rating })) {
+      setError('Write a note, pick a reaction or give a rating');
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    const saved = await onSubmit({ chapter: chapterNumber, body, reaction, rating });
+    setSaving(false);
+    if (!saved) setError('Failed to save the note');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 p-4 bg-secondary/20 border border-border/50 rounded-lg">
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 text-sm font-medium">
+          Chapter
+          <input
+            type="text"
+            inputMode="decimal"
+            value={chapter}
+            onChange={(e) => setChapter(e.target.value)}
+            className="w-20 h-9 px-2 bg-background border border-input rounded-lg text-sm tabular-nums focus:outline-none focus:ring-2 focus:ring-ring"
+            aria-label="Chapter number"
+          />
+        </label>
+        <StarRating value={rating} onChange={setRating} />
+      </div>
+
+      <div className="flex flex-wrap gap-1" role="radiogroup" aria-label="Reaction">
+        {CHAPTER_REACTIONS.map(emoji => (
+          <button
+            key={emoji}
+            type="button"
+            role="radio"
+            aria-checked={reaction === emoji}
+            onClick={() => setReaction(reaction === emoji ? null : emoji)}
+            className={cn(
+              "w-9 h-9 text-lg rounded-lg border transition-colors cursor-pointer",
+              reaction === emoji ? "border-primary bg-primary/10" : "border-transparent hover:bg-secondary"
+            )}
+          >
+            {emoji}
+          </button>
+        ))}
+      </div>
+
+      <textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder="What happened in this chapter? Markdown and ||spoilers|| supported"
+        aria-label="Chapter note"
+        className="flex min-h-[100px] w-full border border-input bg-background px-3 py-2 text-sm rounded-lg placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring resize-y font-mono"
+      />
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel} className="cursor-pointer">
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" disabled={saving} className="cursor-pointer">
+          {saving ? 'Saving...' : submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+interface ChapterNotesProps {
+  manhwaId: string;
+  notes: ChapterNote[];
+  onChange: (notes: ChapterNote[]) => void;
+  currentChapter: number; // Reading progress, the default for a new note
+  /** Chapter the new-note form is open for, or null when it's closed */
+  composeChapter: number | null;
+  onCompose: (chapter: number | null) => void;
+  /** Omit when there is no chapter list to jump to */
+  onJumpToChapter?: (chapter: number) => void;
+}
+
+/**
+ * Timeline of a title's chapter notes, newest chapter first, with the form
+ * for adding one. The form is opened from the chapter stepper or chapter list.
+ */
+export default function ChapterNotes({ manhwaId, notes, onChange, currentChapter, composeChapter, onCompose, onJumpToChapter }: ChapterNotesProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const composerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (composeChapter !== null) {
+      composerRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  }, [composeChapter]);
+
+  const handleCreate = async (input: ChapterNoteInput): Promise<boolean> => {
+    const note = await createChapterNote(manhwaId, input);
+    if (!note) return false;
+    onChange(sortChapterNotes([...notes, note]));
+    onCompose(null);
+    return true;
+  };
+
+  const handleEdit = async (noteId: string, input: ChapterNoteInput): Promise<boolean> => {
+    const note = await updateChapterNote(noteId, input);
+    if (!note) return false;
+    onChange(sortChapterNotes(notes.map(n => (n.id === noteId ? note : n))));
+    setEditingId(null);
+    return true;
+  };
+
+  const handleDelete = async (note: ChapterNote) => {
+    if (!confirm(`Delete this note on chapter ${note.chapter}?`)) return;
+    setError('');
+    if (await deleteChapterNote(note.id)) {
+      onChange(notes.filter(n => n.id !== note.id));
+    } else {
+      setError('Failed to delete the note');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {composeChapter !== null && (
+        <div ref={composerRef} key={composeChapter}>
+          <ChapterNoteForm
+            initial={{ chapter: composeChapter, body: '', reaction: null, rating: null }}
+            submitLabel="Add Note"
+            onSubmit={handleCreate}
+            onCancel={() => onCompose(null)}
+          />
+        </div>
+      )}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {notes.length === 0 && composeChapter === null && (
+        <p className="text-sm text-muted-foreground">
+          No chapter notes yet. Add one from the chapter progress or the chapter list.
+        </p>
+      )}
+
+      {notes.length > 0 && (
+        <ol className="relative border-l border-border/70 ml-2 space-y-6">
+          {notes.map(note => (
+            <li key={note.id} className="pl-6 relative">
+              <span className="absolute -left-[5px] top-1.5 w-2.5 h-2.5 rounded-full bg-primary" />
+              {editingId === note.id ? (
+                <ChapterNoteForm
+                  initial={note}
+                  submitLabel="Save"
+                  onSubmit={(input) => handleEdit(note.id, input)}
+                  onCancel={() => setEditingId(null)}
+                />
+              ) : (
+                <div className="space-y-2">
+                  <div className="flex flex-wrap items-center gap-3">
+                    <span className="font-heading font-semibold">Ch. {note.chapter}</span>
+                    {note.reaction && <span className="text-lg" aria-label="Reaction">{note.reaction}</span>}
+                    {note.rating && <StarRating value={note.rating} />}
+                    <span className="text-xs text-muted-foreground">
+                      {new Date(note.created_at).toLocaleDateString()}
+                    </span>
+                    <div className="flex items-center gap-1 ml-auto">
+                      {onJumpToChapter && (
+                        <a
+                          href={`#${chapterAnchorId(note.chapter)}`}
+                          onClick={(e) => {
+                            e.preventDefault();
+                            onJumpToChapter(note.chapter);
+                          }}
+                          className="flex items-center gap-1 px-2 py-1 text-xs text-primary hover:underline"
+                        >
+                          <CornerDownRight className="w-3 h-3" /> Jump to chapter
+                        </a>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => setEditingId(note.id)}
+                        className="p-1.5 text-muted-foreground hover:text-foreground transition-colors cursor-pointer"
+                        aria-label={`Edit note on chapter ${note.chapter}`}
+                      >
+                        <Pencil className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(note)}
+                        className="p-1.5 text-muted-foreground hover:text-destructive transition-colors cursor-pointer"
+                        aria-label={`Delete note on chapter ${note.chapter}`}
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  </div>
+                  {note.body && <MarkdownContent text={note.body} className="text-sm" />}
+                </div>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {composeChapter === null && (
+        <Button variant="outline" size="sm" onClick={() => onCompose(currentChapter)} className="gap-2 cursor-pointer">
+          <MessageSquarePlus className="w-4 h-4" /> Add Chapter Note
+        </Button>
+      )}
+    </div>
+  );
+}
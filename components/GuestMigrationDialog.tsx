@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { CloudUpload } from 'lucide-react';
+import { Button } from './Common';
+import { migrateGuestData } from '../services/store';
+import { clearGuestData } from '../services/localStore';
+
+interface GuestMigrationDialogProps {
+  onClose: () => void;
+}
+
+/**
+ * Shown after a guest signs in or registers, while guest data is still on
+ * this device. Offers to copy it into the account or throw it away.
+ */
+export default function GuestMigrationDialog({ onClose }: GuestMigrationDialogProps) {
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState('');
+  const [confirmDiscard, setConfirmDiscard] = useState(false);
+
+  const handleMigrate = async () => {
+    setWorking(true);
+    setError('');
+    const { success, error: migrationError } = await migrateGuestData();
+    setWorking(false);
+    if (success) {
+      onClose();
+    } else {
+      setError(migrationError || 'Failed to copy your guest data');
+    }
+  };
+
+  const handleDiscard = async () => {
+    setWorking(true);
+    await clearGuestData();
+    setWorking(false);
+    onClose();
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm" />
+      <div className="fixed left-1/2 top-1/3 -translate-x-1/2 -translate-y-1/2 z-[101] w-[calc(100%-2rem)] sm:w-full max-w-md p-6 bg-card border border-border rounded-lg shadow-2xl animate-in fade-in zoom-in duration-200">
+        <div className="flex items-start gap-4 mb-6">
+          <div className="flex-shrink-0 w-12 h-12 bg-primary/10 border border-primary/20 rounded-lg flex items-center justify-center">
+            <CloudUpload className="w-6 h-6 text-primary" />
+          </div>
+          <div>
+            <h2 className="text-xl font-heading font-bold text-foreground mb-2">
+              Keep Your Guest Library?
+            </h2>
+            <p className="text-sm text-muted-foreground">
+              {confirmDiscard
+                ? 'Your guest library, goals and achievements will be deleted from this device. This cannot be undone.'
+                : 'You used doofTrack as a guest on this device. Copy your library, reading history, goals and achievements into your account?'}
+            </p>
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-destructive mb-4">{error}</p>}
+
+        <div className="flex flex-col-reverse sm:flex-row gap-3 sm:justify-end">
+          {confirmDiscard ? (
+            <>
+              <Button variant="outline" onClick={() => setConfirmDiscard(false)} disabled={working} className="cursor-pointer">
+                Back
+              </Button>
+              <Button variant="destructive" onClick={handleDiscard} disabled={working} className="cursor-pointer">
+                Delete Guest Data
+              </Button>
+            </>
+          ) : (
+            <>
+              <Button variant="ghost" onClick={onClose} disabled={working} className="cursor-pointer">
+                Not Now
+              </Button>
+              <Button variant="outline" onClick={() => setConfirmDiscard(true)} disabled={working} className="cursor-pointer">
+                Discard
+              </Button>
+              <Button onClick={handleMigrate} disabled={working} className="cursor-pointer">
+                {working ? 'Copying...' : 'Copy to Account'}
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+    </>
+  );
+}
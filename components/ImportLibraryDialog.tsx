@@ -0,0 +1,155 @@
+import React, { useState } from 'react';
+import { Upload, AlertTriangle, Plus, RefreshCw, Check } from 'lucide-react';
+import { Button, Badge, cn } from './Common';
+import { LibraryImportEntry, LibraryImportAction } from '../types';
+import { getSourceKey } from '../services/sources';
+import { useRatingScale } from '../hooks/useRatingScale';
+import { formatRating, RatingScale } from '../utils/ratings';
+
+interface ImportLibraryDialogProps {
+  entries: LibraryImportEntry[];
+  applying: boolean;
+  onCancel: () => void;
+  onApply: (overwriteConflicts: Set<string>) => void;
+}
+
+const ACTION_LABELS: Record<LibraryImportAction, string> = {
+  create: 'New',
+  update: 'Update',
+  conflict: 'Conflict',
+  unchanged: 'Unchanged',
+};
+
+const describeProgress = (entry: LibraryImportEntry['incoming'], scale: RatingScale): string => {
+  if (!entry.progress) return 'No progress';
+  const rating = formatRating(entry.progress.rating, scale);
+  return `${entry.progress.status} · Ch. ${entry.progress.last_chapter}${rating ? ` · ${rating}` : ''}`;
+};
+
+export default function ImportLibraryDialog({ entries, applying, onCancel, onApply }: ImportLibraryDialogProps) {
+  const [overwrite, setOverwrite] = useState<Set<string>>(new Set());
+  const ratingScale = useRatingScale();
+
+  const counts = entries.reduce((acc, entry) => {
+    acc[entry.action]++;
+    return acc;
+  }, { create: 0, update: 0, conflict: 0, unchanged: 0 } as Record<LibraryImportAction, number>);
+
+  const visibleEntries = entries.filter(entry => entry.action !== 'unchanged');
+
+  const toggleOverwrite = (sourceId: string) => {
+    const next = new Set(overwrite);
+    if (next.has(sourceId)) {
+      next.delete(sourceId);
+    } else {
+      next.add(sourceId);
+    }
+    setOverwrite(next);
+  };
+
+  const pendingChanges = counts.create + counts.update + overwrite.size;
+
+  return (
+    <>
+      <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm" onClick={applying ? undefined : onCancel} />
+      <div className="fixed left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 z-[101] w-[calc(100%-2rem)] sm:w-full max-w-2xl p-6 bg-card border border-border rounded-lg shadow-2xl max-h-[85vh] flex flex-col animate-in fade-in zoom-in duration-200">
+        <div className="flex items-center gap-3 mb-4">
+          <div className="p-2 bg-primary/10 rounded-full">
+            <Upload className="w-5 h-5 text-primary" />
+          </div>
+          <h2 className="text-xl font-heading font-bold">Review Import</h2>
+        </div>
+
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-2 mb-4 text-center">
+          <div className="p-2 bg-secondary/30 rounded-lg">
+            <div className="text-2xl font-heading font-bold text-green-600 dark:text-green-400">{counts.create}</div>
+            <div className="text-xs text-muted-foreground uppercase tracking-wider">New</div>
+          </div>
+          <div className="p-2 bg-secondary/30 rounded-lg">
+            <div className="text-2xl font-heading font-bold text-blue-600 dark:text-blue-400">{counts.update}</div>
+            <div className="text-xs text-muted-foreground uppercase tracking-wider">Updates</div>
+          </div>
+          <div className="p-2 bg-secondary/30 rounded-lg">
+            <div className="text-2xl font-heading font-bold text-yellow-600 dark:text-yellow-400">{counts.conflict}</div>
+            <div className="text-xs text-muted-foreground uppercase tracking-wider">Conflicts</div>
+          </div>
+          <div className="p-2 bg-secondary/30 rounded-lg">
+            <div className="text-2xl font-heading font-bold text-muted-foreground">{counts.unchanged}</div>
+            <div className="text-xs text-muted-foreground uppercase tracking-wider">Unchanged</div>
+          </div>
+        </div>
+
+        {counts.conflict > 0 && (
+          <div className="flex items-start gap-2 p-3 mb-4 text-sm bg-yellow-500/10 border border-yellow-500/30 rounded-lg">
+            <AlertTriangle className="w-4 h-4 text-yellow-500 shrink-0 mt-0.5" />
+            <span>
+              Conflicting titles were changed here after the export was made. They are kept as-is unless you tick them to overwrite.
+            </span>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto divide-y divide-border/50 border border-border/50 rounded-lg">
+          {visibleEntries.length === 0 && (
+            <p className="p-6 text-center text-muted-foreground">Your library already matches this file.</p>
+          )}
+          {visibleEntries.map(entry => {
+            const sourceKey = getSourceKey(entry.incoming);
+            const isConflict = entry.action === 'conflict';
+            return (
+              <div key={sourceKey} className="flex items-center gap-3 p-3">
+                {isConflict ? (
+                  <input
+                    type="checkbox"
+                    checked={overwrite.has(sourceKey)}
+                    onChange={() => toggleOverwrite(sourceKey)}
+                    className="w-4 h-4 accent-primary cursor-pointer"
+                    aria-label={`Overwrite ${entry.incoming.title}`}
+                  />
+                ) : entry.action === 'create' ? (
+                  <Plus className="w-4 h-4 text-green-500" />
+                ) : (
+                  <RefreshCw className="w-4 h-4 text-blue-500" />
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="font-medium text-sm line-clamp-1">{entry.incoming.title}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {entry.existing?.progress && (
+                      <span className="line-through mr-2">{describeProgress(entry.existing, ratingScale)}</span>
+                    )}
+                    {describeProgress(entry.incoming, ratingScale)}
+                  </p>
+                </div>
+                <Badge
+                  variant="secondary"
+                  className={cn(
+                    "text-xs shrink-0",
+                    isConflict && "bg-yellow-500/20 text-yellow-700 dark:text-yellow-300"
+                  )}
+                >
+                  {ACTION_LABELS[entry.action]}
+                </Badge>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex gap-3 justify-end mt-4">
+          <Button variant="outline" onClick={onCancel} disabled={applying} className="cursor-pointer">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => onApply(overwrite)}
+            disabled={applying || pendingChanges === 0}
+            className="gap-2 cursor-pointer"
+          >
+            {applying ? (
+              <><RefreshCw className="w-4 h-4 animate-spin" /> Importing...</>
+            ) : (
+              <><Check className="w-4 h-4" /> Import {pendingChanges} {pendingChanges === 1 ? 'title' : 'titles'}</>
+            )}
+          </Button>
+        </div>
+      </div>
+    </>
+  );
+}
@@ -1,6 +1,6 @@
 import React from 'react';
 import { Button } from '../Common';
-import { X, CheckSquare, Edit3, Trash2 } from 'lucide-react';
+import { X, CheckSquare, Edit3, Tags, Trash2 } from 'lucide-react';
 
 interface BatchOperationsBarProps {
   selectionMode: boolean;
@@ -10,6 +10,7 @@ interface BatchOperationsBarProps {
   onSelectAll: () => void;
   onDeselectAll: () => void;
   onChangeStatus: () => void;
+  onEditTags: () => void;
   onDelete: () => void;
 }
 
@@ -21,6 +22,7 @@ export const BatchOperationsBar: React.FC<BatchOperationsBarProps> = ({
   onSelectAll,
   onDeselectAll,
   onChangeStatus,
+  onEditTags,
   onDelete
 }) => {
   return (
@@ -67,6 +69,16 @@ export const BatchOperationsBar: React.FC<BatchOperationsBarProps> = ({
             <Edit3 className="w-4 h-4" />
             Change Status
           </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onEditTags}
+            disabled={selectedCount === 0}
+            className="gap-2 cursor-pointer"
+          >
+            <Tags className="w-4 h-4" />
+            Tags
+          </Button>
           <Button
             variant="destructive"
             size="sm"
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { LibraryItem, Tag } from '../../types';
+import { Button } from '../Common';
+import { TagChip, TagForm } from '../Tags';
+import { addTagToTitles, createTag, removeTagFromTitles } from '../../services/store';
+
+interface BulkTagsDialogProps {
+  items: LibraryItem[]; // The selected titles
+  tags: Tag[];
+  onTagsChanged: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Add or remove tags on several titles at once. A tag every selected title
+ * has is removed from all of them; otherwise it is added to the rest.
+ */
+export const BulkTagsDialog: React.FC<BulkTagsDialogProps> = ({ items, tags, onTagsChanged, onClose }) => {
+  const [busyTagId, setBusyTagId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const ids = items.map(item => item.id);
+
+  const countTagged = (tagId: string) => items.filter(item => item.tagIds?.includes(tagId)).length;
+
+  const toggleTag = async (tag: Tag) => {
+    setBusyTagId(tag.id);
+    setError('');
+    const removing = countTagged(tag.id) === items.length;
+    const saved = removing ? await removeTagFromTitles(tag.id, ids) : await addTagToTitles(tag.id, ids);
+    setBusyTagId(null);
+    if (!saved) {
+      setError(`Failed to update "${tag.name}" on some titles`);
+    }
+  };
+
+  const handleCreate = async (name: string, color: string): Promise<boolean> => {
+    const tag = await createTag(name, color);
+    if (!tag) return false;
+    onTagsChanged();
+    if (!(await addTagToTitles(tag.id, ids))) {
+      setError(`Failed to add "${tag.name}" to some titles`);
+    }
+    return true;
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm" onClick={onClose} />
+      <div className="fixed left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 z-[101] w-full max-w-md p-6 bg-card border border-border rounded-lg shadow-2xl mx-4">
+        <h2 className="text-xl font-heading font-bold mb-4">Edit Tags</h2>
+        <p className="text-sm text-muted-foreground mb-4">
+          Click a tag to add it to or remove it from {items.length} selected item(s)
+        </p>
+
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-6">
+            {tags.map(tag => {
+              const tagged = countTagged(tag.id);
+              return (
+                <TagChip
+                  key={tag.id}
+                  tag={tag}
+                  selected={tagged === items.length}
+                  partial={tagged > 0}
+                  onClick={busyTagId ? undefined : () => toggleTag(tag)}
+                  className={busyTagId === tag.id ? 'opacity-50' : undefined}
+                />
+              );
+            })}
+          </div>
+        )}
+
+        <div className="mb-6">
+          <TagForm tags={tags} submitLabel="Create" onSubmit={handleCreate} />
+        </div>
+
+        {error && <p className="text-sm text-destructive mb-4">{error}</p>}
+
+        <Button variant="outline" onClick={onClose} className="w-full cursor-pointer">
+          Done
+        </Button>
+      </div>
+    </>
+  );
+};
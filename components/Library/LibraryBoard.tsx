@@ -0,0 +1,234 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { LibraryItem, ReadingStatus } from '../../types';
+import { Badge, cn } from '../Common';
+import { buildOptimizedCoverUrl, IMAGE_PRESETS } from '../../utils/imageOptimization';
+import { getUnreadCount } from '../../utils/chapters';
+import { groupBoardColumns, sortIndexBetween } from '../../utils/board';
+
+// Cards rendered per column before the footer loads more
+const COLUMN_PAGE_SIZE = 20;
+
+const STATUS_ACCENTS: Record<ReadingStatus, string> = {
+  [ReadingStatus.READING]: 'bg-indigo-600',
+  [ReadingStatus.COMPLETED]: 'bg-green-600',
+  [ReadingStatus.ON_HOLD]: 'bg-yellow-500',
+  [ReadingStatus.DROPPED]: 'bg-red-600',
+  [ReadingStatus.PLAN_TO_READ]: 'bg-muted-foreground',
+};
+
+interface DropTarget {
+  status: ReadingStatus;
+  index: number; // Position in the column, counting the dragged card out
+}
+
+interface LibraryBoardProps {
+  items: LibraryItem[];
+  onMove: (id: string, status: ReadingStatus, sortIndex: number) => Promise<boolean>;
+}
+
+// Loads the next page of a column when scrolled into view, with a button
+// for when IntersectionObserver isn't available
+const ColumnFooter: React.FC<{ remaining: number; onLoadMore: () => void }> = ({ remaining, onLoadMore }) => {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver(entries => {
+      if (entries.some(entry => entry.isIntersecting)) onLoadMore();
+    });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [onLoadMore]);
+
+  return (
+    <div ref={sentinelRef} className="pt-1">
+      <button
+        onClick={onLoadMore}
+        className="w-full py-2 text-xs font-medium text-muted-foreground hover:text-foreground border border-dashed border-border/60 rounded-lg transition-colors cursor-pointer"
+      >
+        Show {Math.min(remaining, COLUMN_PAGE_SIZE)} more ({remaining} left)
+      </button>
+    </div>
+  );
+};
+
+const BoardCard: React.FC<{
+  item: LibraryItem;
+  dragging: boolean;
+  onDragStart: (e: React.DragEvent) => void;
+  onDragEnd: () => void;
+  onDragOver: (e: React.DragEvent) => void;
+}> = ({ item, dragging, onDragStart, onDragEnd, onDragOver }) => {
+  const unread = getUnreadCount(item);
+
+  return (
+    <div
+      draggable
+      onDragStart={onDragStart}
+      onDragEnd={onDragEnd}
+      onDragOver={onDragOver}
+      className={cn("cursor-grab active:cursor-grabbing", dragging && "opacity-40")}
+    >
+      <Link
+        to={`/manhwa/${item.id}`}
+        draggable={false}
+        className="flex gap-3 p-2 bg-card/60 border border-border/50 rounded-lg hover:bg-card hover:shadow-md transition-all"
+      >
+        <img
+          src={buildOptimizedCoverUrl(item.cover_url, IMAGE_PRESETS.thumbnail)}
+          alt={item.title}
+          draggable={false}
+          className="w-12 h-16 object-cover shrink-0 border border-border/50"
+          loading="lazy"
+          decoding="async"
+          width="48"
+          height="64"
+        />
+        <div className="min-w-0 flex-1">
+          <h4 className="text-sm font-semibold font-heading line-clamp-2">{item.title}</h4>
+          <div className="flex flex-wrap items-center gap-1.5 mt-1.5">
+            <Badge variant="secondary" className="text-[10px] px-1.5">
+              Ch. {item.progress?.last_chapter || 0}{item.lastChapter ? `/${item.lastChapter}` : ''}
+            </Badge>
+            {unread > 0 && (
+              <Badge className="text-[10px] px-1.5 bg-orange-600">{unread} new</Badge>
+            )}
+          </div>
+        </div>
+      </Link>
+    </div>
+  );
+};
+
+/**
+ * Library as one column per reading status. Dragging a card to another
+ * column changes its status; dragging within a column reorders it.
+ */
+export const LibraryBoard: React.FC<LibraryBoardProps> = ({ items, onMove }) => {
+  const columns = useMemo(() => groupBoardColumns(items), [items]);
+  const [visibleCounts, setVisibleCounts] = useState<Partial<Record<ReadingStatus, number>>>({});
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  const [error, setError] = useState('');
+
+  const loadMore = useMemo(() => {
+    const handlers = {} as Record<ReadingStatus, () => void>;
+    Object.values(ReadingStatus).forEach(status => {
+      handlers[status] = () => setVisibleCounts(counts => ({
+        ...counts,
+        [status]: (counts[status] || COLUMN_PAGE_SIZE) + COLUMN_PAGE_SIZE,
+      }));
+    });
+    return handlers;
+  }, []);
+
+  const setTarget = (status: ReadingStatus, index: number) => {
+    if (dropTarget?.status !== status || dropTarget.index !== index) {
+      setDropTarget({ status, index });
+    }
+  };
+
+  // Over a card: drop before it in the top half, after it in the bottom half
+  const handleCardDragOver = (e: React.DragEvent, status: ReadingStatus, index: number) => {
+    if (!draggingId) return;
+    e.preventDefault();
+    e.stopPropagation();
+    const rect = e.currentTarget.getBoundingClientRect();
+    setTarget(status, e.clientY > rect.top + rect.height / 2 ? index + 1 : index);
+  };
+
+  // Over empty space in a column: drop after the last visible card
+  const handleColumnDragOver = (e: React.DragEvent, status: ReadingStatus, visibleCount: number) => {
+    if (!draggingId) return;
+    e.preventDefault();
+    setTarget(status, visibleCount);
+  };
+
+  const resetDrag = () => {
+    setDraggingId(null);
+    setDropTarget(null);
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    const id = draggingId;
+    const target = dropTarget;
+    resetDrag();
+    if (!id || !target) return;
+
+    const column = columns[target.status];
+    const currentIndex = column.findIndex(item => item.id === id);
+    // Indexes shown while dragging count the dragged card; take it out
+    const others = column.filter(item => item.id !== id);
+    const index = currentIndex !== -1 && currentIndex < target.index ? target.index - 1 : target.index;
+    if (currentIndex === index) return;
+
+    setError('');
+    const moved = await onMove(id, target.status, sortIndexBetween(others[index - 1], others[index]));
+    if (!moved) setError('Failed to move the title. Check your connection and try again.');
+  };
+
+  return (
+    <div className="space-y-3">
+      {error && <p className="text-sm text-destructive">{error}</p>}
+      <div className="flex gap-4 overflow-x-auto pb-4">
+        {Object.values(ReadingStatus).map(status => {
+          const column = columns[status];
+          const visibleCount = Math.min(column.length, visibleCounts[status] || COLUMN_PAGE_SIZE);
+          const isTarget = dropTarget?.status === status;
+
+          return (
+            <section
+              key={status}
+              onDragOver={(e) => handleColumnDragOver(e, status, visibleCount)}
+              onDrop={handleDrop}
+              className={cn(
+                "w-72 shrink-0 flex flex-col bg-secondary/20 border border-border/50 rounded-lg transition-colors",
+                isTarget && "border-primary/60 bg-primary/5"
+              )}
+              aria-label={status}
+            >
+              <header className="flex items-center justify-between px-3 py-2 border-b border-border/50">
+                <div className="flex items-center gap-2">
+                  <span className={cn("w-2 h-2 rounded-full", STATUS_ACCENTS[status])} />
+                  <h3 className="text-sm font-semibold">{status}</h3>
+                </div>
+                <span className="text-xs text-muted-foreground tabular-nums">{column.length}</span>
+              </header>
+
+              <div className="flex-1 p-2 space-y-2 max-h-[70vh] min-h-[8rem] overflow-y-auto">
+                {column.slice(0, visibleCount).map((item, index) => (
+                  <React.Fragment key={item.id}>
+                    {isTarget && dropTarget.index === index && <div className="h-1 bg-primary rounded-full" />}
+                    <BoardCard
+                      item={item}
+                      dragging={draggingId === item.id}
+                      onDragStart={(e) => {
+                        e.dataTransfer.effectAllowed = 'move';
+                        e.dataTransfer.setData('text/plain', item.id);
+                        setDraggingId(item.id);
+                      }}
+                      onDragEnd={resetDrag}
+                      onDragOver={(e) => handleCardDragOver(e, status, index)}
+                    />
+                  </React.Fragment>
+                ))}
+                {isTarget && dropTarget.index >= visibleCount && <div className="h-1 bg-primary rounded-full" />}
+
+                {column.length === 0 && (
+                  <p className="py-6 text-center text-xs text-muted-foreground">Drop titles here</p>
+                )}
+                {visibleCount < column.length && (
+                  <ColumnFooter remaining={column.length - visibleCount} onLoadMore={loadMore[status]} />
+                )}
+              </div>
+            </section>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
@@ -1,19 +1,23 @@
 import React from 'react';
 import { Button, cn } from '../Common';
-import { Grid3x3, List, SlidersHorizontal } from 'lucide-react';
-import { ReadingStatus } from '../../types';
-import { LibraryFilters } from '../../hooks/useLibrary';
+import { Grid3x3, Kanban, List, SlidersHorizontal } from 'lucide-react';
+import { ReadingStatus, Tag } from '../../types';
+import { LibraryFilters, LibraryViewMode } from '../../hooks/useLibrary';
+import { TagChip } from '../Tags';
+import { useRatingScale } from '../../hooks/useRatingScale';
+import { fromRatingScale, RATING_SCALES, toRatingScale } from '../../utils/ratings';
 
 interface LibraryFilterBarProps {
   filter: string;
   setFilter: (status: string) => void;
-  viewMode: 'grid' | 'list';
-  setViewMode: (mode: 'grid' | 'list') => void;
+  viewMode: LibraryViewMode;
+  setViewMode: (mode: LibraryViewMode) => void;
   showFilters: boolean;
   setShowFilters: (show: boolean) => void;
   filters: LibraryFilters;
   updateFilters: (filters: Partial<LibraryFilters>) => void;
   resetFilters: () => void;
+  tags: Tag[];
 }
 
 export const LibraryFilterBar: React.FC<LibraryFilterBarProps> = ({
@@ -25,13 +29,25 @@ export const LibraryFilterBar: React.FC<LibraryFilterBarProps> = ({
   setShowFilters,
   filters,
   updateFilters,
-  resetFilters
+  resetFilters,
+  tags
 }) => {
+  const ratingScale = useRatingScale();
+  const scaleInfo = RATING_SCALES[ratingScale];
+
+  const toggleTag = (id: string) => {
+    updateFilters({
+      tagIds: filters.tagIds.includes(id) ? filters.tagIds.filter(tagId => tagId !== id) : [...filters.tagIds, id]
+    });
+  };
+
+
   return (
     <div className="space-y-3 md:space-y-4">
       <div className="flex flex-col md:flex-row items-start md:items-center justify-between gap-3 md:gap-4">
         <div className="flex items-center gap-2 md:gap-4 overflow-x-auto pb-2 no-scrollbar flex-1 w-full md:w-auto">
-          {['ALL', ...Object.values(ReadingStatus)].map((status) => (
+          {/* The board already has a column per status */}
+          {viewMode !== 'board' && ['ALL', ...Object.values(ReadingStatus)].map((status) => (
             <button
               key={status}
               onClick={() => setFilter(status)}
@@ -72,6 +88,18 @@ export const LibraryFilterBar: React.FC<LibraryFilterBarProps> = ({
             >
               <List className="w-4 h-4 md:w-5 md:h-5" />
             </button>
+            <button
+              onClick={() => setViewMode('board')}
+              className={cn(
+                "p-2 rounded transition-colors cursor-pointer hover:bg-secondary/50",
+                viewMode === 'board'
+                  ? "bg-primary text-primary-foreground"
+                  : "text-muted-foreground"
+              )}
+              title="Board View"
+            >
+              <Kanban className="w-4 h-4 md:w-5 md:h-5" />
+            </button>
           </div>
           <Button
             variant="outline"
@@ -88,7 +116,7 @@ export const LibraryFilterBar: React.FC<LibraryFilterBarProps> = ({
       {/* Advanced Filters */}
       {showFilters && (
         <div className="p-4 bg-secondary/20 border border-border/50 rounded-lg space-y-4 animate-in slide-in-from-top-2 duration-200">
-          <div className="grid md:grid-cols-3 gap-4">
+          <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-4">
             {/* Sort Options */}
             <div className="space-y-2">
               <label className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Sort By</label>
@@ -116,30 +144,34 @@ export const LibraryFilterBar: React.FC<LibraryFilterBarProps> = ({
             {/* Rating Range */}
             <div className="space-y-2">
               <label className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">
-                Rating {filters.ratingMin}-{filters.ratingMax}
+                Rating {toRatingScale(filters.ratingMin, ratingScale)}-{toRatingScale(filters.ratingMax, ratingScale)}
               </label>
               <div className="flex gap-2 items-center">
                 <input
                   type="range"
                   min="0"
-                  max="10"
-                  value={filters.ratingMin}
+                  max={scaleInfo.max}
+                  step={scaleInfo.step}
+                  value={toRatingScale(filters.ratingMin, ratingScale)}
                   onChange={(e) => {
-                    const val = parseInt(e.target.value);
+                    const val = fromRatingScale(Number(e.target.value), ratingScale);
                     updateFilters({ ratingMin: Math.min(val, filters.ratingMax) });
                   }}
                   className="flex-1 h-2 bg-secondary appearance-none cursor-pointer accent-primary rounded-full"
+                  aria-label="Minimum rating"
                 />
                 <input
                   type="range"
                   min="0"
-                  max="10"
-                  value={filters.ratingMax}
+                  max={scaleInfo.max}
+                  step={scaleInfo.step}
+                  value={toRatingScale(filters.ratingMax, ratingScale)}
                   onChange={(e) => {
-                    const val = parseInt(e.target.value);
+                    const val = fromRatingScale(Number(e.target.value), ratingScale);
                     updateFilters({ ratingMax: Math.max(val, filters.ratingMin) });
                   }}
                   className="flex-1 h-2 bg-secondary appearance-none cursor-pointer accent-primary rounded-full"
+                  aria-label="Maximum rating"
                 />
               </div>
             </div>
@@ -158,8 +190,56 @@ export const LibraryFilterBar: React.FC<LibraryFilterBarProps> = ({
                 <option value="year">This Year</option>
               </select>
             </div>
+
+            {/* Unread Filter */}
+            <div className="space-y-2">
+              <label className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Chapters</label>
+              <label className="flex items-center gap-2 px-3 py-2 bg-background border border-input rounded-lg text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={filters.unreadOnly}
+                  onChange={(e) => updateFilters({ unreadOnly: e.target.checked })}
+                  className="accent-primary cursor-pointer"
+                />
+                Has unread chapters
+              </label>
+            </div>
           </div>
           
+          {/* Tag Filter */}
+          {tags.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-3">
+                <label className="text-xs font-semibold text-muted-foreground uppercase tracking-wider">Tags</label>
+                <div className="flex items-center gap-1 bg-background border border-input rounded-lg p-0.5 text-xs">
+                  {(['any', 'all'] as const).map(mode => (
+                    <button
+                      key={mode}
+                      onClick={() => updateFilters({ tagMode: mode })}
+                      className={cn(
+                        "px-2 py-1 rounded transition-colors cursor-pointer",
+                        filters.tagMode === mode ? "bg-primary text-primary-foreground" : "text-muted-foreground hover:text-foreground"
+                      )}
+                      title={mode === 'any' ? 'Titles with any of the selected tags' : 'Titles with all of the selected tags'}
+                    >
+                      {mode === 'any' ? 'Any' : 'All'}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {tags.map(tag => (
+                  <TagChip
+                    key={tag.id}
+                    tag={tag}
+                    selected={filters.tagIds.includes(tag.id)}
+                    onClick={() => toggleTag(tag.id)}
+                  />
+                ))}
+              </div>
+            </div>
+          )}
+          
           {/* Reset Filters */}
           <div className="flex justify-end">
             <Button
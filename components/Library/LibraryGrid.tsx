@@ -1,9 +1,18 @@
-import React from 'react';
+import React, { useRef } from 'react';
 import { Link } from 'react-router-dom';
-import { LibraryItem, ReadingStatus } from '../../types';
+import { LibraryItem, ReadingStatus, Tag } from '../../types';
 import { Card, Badge, cn } from '../Common';
 import { BookOpen, Star, CheckSquare, Square } from 'lucide-react';
 import { buildOptimizedCoverUrl, IMAGE_PRESETS, buildSrcSet, RESPONSIVE_SIZES } from '../../utils/imageOptimization';
+import { getUnreadCount } from '../../utils/chapters';
+import { TagChip } from '../Tags';
+import { useGridColumns, useWindowedRows } from '../../hooks/useWindowedRows';
+import { useRatingScale } from '../../hooks/useRatingScale';
+import { formatRating } from '../../utils/ratings';
+
+// Row heights used until the first row has been measured
+const LIST_ROW_ESTIMATE = 160;
+const GRID_ROW_ESTIMATE = 360;
 
 interface LibraryGridProps {
   items: LibraryItem[];
@@ -11,6 +20,7 @@ interface LibraryGridProps {
   selectionMode: boolean;
   selectedIds: Set<string>;
   onToggleSelect: (id: string) => void;
+  tags?: Tag[];
 }
 
 export const LibraryGrid: React.FC<LibraryGridProps> = ({
@@ -18,201 +28,235 @@ export const LibraryGrid: React.FC<LibraryGridProps> = ({
   viewMode,
   selectionMode,
   selectedIds,
-  onToggleSelect
+  onToggleSelect,
+  tags = []
 }) => {
-  if (viewMode === 'list') {
-    return (
-      <div className="space-y-2">
-        {items.map((item) => {
-          const isSelected = selectedIds.has(item.id);
-          const listContent = (
-            <Card className={cn(
-              "overflow-hidden border-border/50 bg-card/40 transition-all flex flex-col sm:flex-row items-start sm:items-center gap-3 sm:gap-4 p-3 sm:p-4",
-              !selectionMode && "hover:bg-card/80 hover:shadow-lg",
-              selectionMode && "cursor-pointer",
-              isSelected && "ring-2 ring-primary"
-            )}>
-              {/* Thumbnail */}
-              <div className="shrink-0 w-16 h-24 sm:w-24 sm:h-32 relative overflow-hidden border border-border/50">
-                <img
-                  src={buildOptimizedCoverUrl(item.cover_url, IMAGE_PRESETS.thumbnail)}
-                  srcSet={buildSrcSet(item.cover_url, [128, 256], 80)}
-                  sizes="96px"
-                  alt={item.title}
-                  className="object-cover w-full h-full"
-                  loading="lazy"
-                  decoding="async"
-                  width="96"
-                  height="128"
-                  onError={(e) => {
-                    const target = e.target as HTMLImageElement;
-                    target.onerror = null;
-                    target.src = 'data:image/svg+xml,%3Csvg xmlns="http://www.w3.org/2000/svg" width="400" height="600" viewBox="0 0 400 600"%3E%3Crect width="400" height="600" fill="%23374151"/%3E%3Ctext x="50%25" y="50%25" text-anchor="middle" dy=".3em" fill="%239CA3AF" font-family="system-ui" font-size="20"%3ENo Image%3C/text%3E%3C/svg%3E';
-                  }}
-                />
-              </div>
+  const containerRef = useRef<HTMLDivElement>(null);
+  const gridColumns = useGridColumns();
+  const ratingScale = useRatingScale();
+  const columns = viewMode === 'list' ? 1 : gridColumns;
+  const rowCount = Math.ceil(items.length / columns);
+  const { start, end, rowHeight, measureRow } = useWindowedRows(containerRef, {
+    rowCount,
+    estimatedRowHeight: viewMode === 'list' ? LIST_ROW_ESTIMATE : GRID_ROW_ESTIMATE,
+  });
 
-              {/* Content */}
-              <div className="flex-1 min-w-0">
-                <h3 className={cn(
-                  "font-semibold text-sm sm:text-base line-clamp-1 sm:line-clamp-2 font-heading transition-colors",
-                  !selectionMode && "group-hover:text-primary"
-                )}>
-                  {item.title}
-                </h3>
-                <p className="text-xs sm:text-sm text-muted-foreground line-clamp-1 mt-1">
-                  {item.author || 'Unknown Author'}
-                </p>
-                <div className="flex flex-wrap items-center gap-2 sm:gap-3 mt-2 sm:mt-3">
-                  <div className="flex items-center gap-1">
-                    <Star className="w-3 h-3 sm:w-4 sm:h-4 text-yellow-500 fill-yellow-500" />
-                    <span className="text-xs font-medium">{item.rating || 'N/A'}</span>
-                  </div>
-                  <Badge variant="secondary" className="text-xs">
-                    Ch. {item.progress?.last_chapter || 0}{item.lastChapter ? `/${item.lastChapter}` : ''}
-                  </Badge>
-                  {item.progress?.status && (
-                    <Badge className={cn(
-                      "text-xs",
-                      item.progress.status === ReadingStatus.READING && "bg-indigo-600",
-                      item.progress.status === ReadingStatus.COMPLETED && "bg-green-600"
-                    )}>
-                      {item.progress.status}
-                    </Badge>
-                  )}
-                </div>
-              </div>
+  if (items.length === 0) {
+    return <EmptyState />;
+  }
 
-              {/* Checkbox in selection mode */}
-              {selectionMode && (
-                <div className="shrink-0">
-                  <div className={cn(
-                    "w-6 h-6 rounded flex items-center justify-center border-2 transition-colors",
-                    isSelected 
-                      ? "bg-primary border-primary" 
-                      : "bg-background border-input"
-                  )}>
-                    {isSelected && <CheckSquare className="w-4 h-4 text-primary-foreground" />}
-                    {!isSelected && <Square className="w-4 h-4" />}
-                  </div>
-                </div>
-              )}
-            </Card>
-          );
+  const renderListItem = (item: LibraryItem) => {
+    const isSelected = selectedIds.has(item.id);
+    const unread = getUnreadCount(item);
+    const listContent = (
+      <Card className={cn(
+        "overflow-hidden border-border/50 bg-card/40 transition-all flex flex-col sm:flex-row items-start sm:items-center gap-3 sm:gap-4 p-3 sm:p-4",
+        !selectionMode && "hover:bg-card/80 hover:shadow-lg",
+        selectionMode && "cursor-pointer",
+        isSelected && "ring-2 ring-primary"
+      )}>
+        {/* Thumbnail */}
+        <div className="shrink-0 w-16 h-24 sm:w-24 sm:h-32 relative overflow-hidden border border-border/50">
+          <img
+            src={buildOptimizedCoverUrl(item.cover_url, IMAGE_PRESETS.thumbnail)}
+            srcSet={buildSrcSet(item.cover_url, [128, 256], 80)}
+            sizes="96px"
+            alt={item.title}
+            className="object-cover w-full h-full"
+            loading="lazy"
+            decoding="async"
+            width="96"
+            height="128"
+            onError={(e) => {
+              const target = e.target as HTMLImageElement;
+              target.onerror = null;
+              target.src = 'data:image/svg+xml,%3Csvg xmlns="http://www.w3.org/2000/svg" width="400" height="600" viewBox="0 0 400 600"%3E%3Crect width="400" height="600" fill="%23374151"/%3E%3Ctext x="50%25" y="50%25" text-anchor="middle" dy=".3em" fill="%239CA3AF" font-family="system-ui" font-size="20"%3ENo Image%3C/text%3E%3C/svg%3E';
+            }}
+          />
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 min-w-0">
+          <h3 className={cn(
+            "font-semibold text-sm sm:text-base line-clamp-1 sm:line-clamp-2 font-heading transition-colors",
+            !selectionMode && "group-hover:text-primary"
+          )}>
+            {item.title}
+          </h3>
+          <div className="flex flex-wrap items-center gap-2 sm:gap-3 mt-2 sm:mt-3">
+            <div className="flex items-center gap-1">
+              <Star className="w-3 h-3 sm:w-4 sm:h-4 text-yellow-500 fill-yellow-500" />
+              <span className="text-xs font-medium">{formatRating(item.progress?.rating || 0, ratingScale) || 'N/A'}</span>
+            </div>
+            <Badge variant="secondary" className="text-xs">
+              Ch. {item.progress?.last_chapter || 0}{item.lastChapter ? `/${item.lastChapter}` : ''}
+            </Badge>
+            {unread > 0 && (
+              <Badge className="text-xs bg-orange-600">{unread} new</Badge>
+            )}
+            {item.progress?.status && (
+              <Badge className={cn(
+                "text-xs",
+                item.progress.status === ReadingStatus.READING && "bg-indigo-600",
+                item.progress.status === ReadingStatus.COMPLETED && "bg-green-600"
+              )}>
+                {item.progress.status}
+              </Badge>
+            )}
+            {tags.filter(tag => item.tagIds?.includes(tag.id)).map(tag => (
+              <TagChip key={tag.id} tag={tag} className="py-0.5" />
+            ))}
+          </div>
+        </div>
 
-          return selectionMode ? (
-            <div
-              key={item.id}
-              onClick={() => onToggleSelect(item.id)}
-              className="cursor-pointer"
-            >
-              {listContent}
+        {/* Checkbox in selection mode */}
+        {selectionMode && (
+          <div className="shrink-0">
+            <div className={cn(
+              "w-6 h-6 rounded flex items-center justify-center border-2 transition-colors",
+              isSelected 
+                ? "bg-primary border-primary" 
+                : "bg-background border-input"
+            )}>
+              {isSelected && <CheckSquare className="w-4 h-4 text-primary-foreground" />}
+              {!isSelected && <Square className="w-4 h-4" />}
             </div>
-          ) : (
-            <Link to={`/manhwa/${item.id}`} key={item.id} className="group cursor-pointer">
-              {listContent}
-            </Link>
-          );
-        })}
-        {items.length === 0 && (
-          <EmptyState />
+          </div>
         )}
+      </Card>
+    );
+
+    return selectionMode ? (
+      <div
+        key={item.id}
+        onClick={() => onToggleSelect(item.id)}
+        className="cursor-pointer"
+      >
+        {listContent}
       </div>
+    ) : (
+      <Link to={`/manhwa/${item.id}`} key={item.id} className="group cursor-pointer">
+        {listContent}
+      </Link>
     );
-  }
+  };
 
-  // Grid View
-  return (
-    <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-3 sm:gap-4 md:gap-6">
-      {items.map((item) => {
-        const isSelected = selectedIds.has(item.id);
-        const cardContent = (
-          <Card className={cn(
-            "h-full overflow-hidden border-border/50 bg-card/40 transition-all",
-            !selectionMode && "hover:bg-card/80 hover:-translate-y-1 hover:shadow-lg",
-            selectionMode && "cursor-pointer",
-            isSelected && "ring-2 ring-primary"
-          )}>
-            <div className="relative aspect-[2/3]">
-              <img
-                src={buildOptimizedCoverUrl(item.cover_url, IMAGE_PRESETS.card)}
-                srcSet={buildSrcSet(item.cover_url, [256, 384, 512], 85)}
-                sizes={RESPONSIVE_SIZES.cardGrid}
-                alt={item.title}
-                className="object-cover w-full h-full"
-                loading="lazy"
-                decoding="async"
-                width="256"
-                height="384"
-                onError={(e) => {
-                  const target = e.target as HTMLImageElement;
-                  target.onerror = null;
-                  target.src = 'data:image/svg+xml,%3Csvg xmlns="http://www.w3.org/2000/svg" width="400" height="600" viewBox="0 0 400 600"%3E%3Crect width="400" height="600" fill="%23374151"/%3E%3Ctext x="50%25" y="50%25" text-anchor="middle" dy=".3em" fill="%239CA3AF" font-family="system-ui" font-size="20"%3ENo Image%3C/text%3E%3C/svg%3E';
-                }}
-              />
-              
-              {/* Checkbox in selection mode */}
-              {selectionMode && (
-                <div className="absolute top-2 left-2 z-10">
-                  <div className={cn(
-                    "w-6 h-6 rounded flex items-center justify-center border-2 transition-colors",
-                    isSelected 
-                      ? "bg-primary border-primary" 
-                      : "bg-black/60 border-white/50 backdrop-blur-sm"
-                  )}>
-                    {isSelected && <CheckSquare className="w-4 h-4 text-primary-foreground" />}
-                    {!isSelected && <Square className="w-4 h-4 text-white" />}
-                  </div>
-                </div>
-              )}
-              
-              <div className="absolute top-2 right-2">
-                 <Badge variant="secondary" className="bg-black/60 backdrop-blur-md text-white border-none shadow-sm font-medium">
-                    Ch. {item.progress?.last_chapter || 0}{item.lastChapter ? `/${item.lastChapter}` : ''}
-                 </Badge>
-              </div>
-              {item.progress?.status && (
-                <div className="absolute bottom-0 left-0 right-0 p-2 bg-gradient-to-t from-black/90 to-transparent pt-8">
-                   <p className={cn(
-                     "text-[10px] font-bold uppercase tracking-wider text-center py-1",
-                     item.progress.status === ReadingStatus.READING ? "text-indigo-300" :
-                     item.progress.status === ReadingStatus.COMPLETED ? "text-green-300" : "text-muted-foreground"
-                   )}>
-                     {item.progress.status}
-                   </p>
-                </div>
-              )}
-            </div>
-            <div className="p-3">
-              <h3 className={cn(
-                "font-semibold text-sm line-clamp-2 leading-snug font-heading transition-colors",
-                !selectionMode && "group-hover:text-primary"
+  const renderGridItem = (item: LibraryItem) => {
+    const isSelected = selectedIds.has(item.id);
+    const unread = getUnreadCount(item);
+    const cardContent = (
+      <Card className={cn(
+        "h-full overflow-hidden border-border/50 bg-card/40 transition-all",
+        !selectionMode && "hover:bg-card/80 hover:-translate-y-1 hover:shadow-lg",
+        selectionMode && "cursor-pointer",
+        isSelected && "ring-2 ring-primary"
+      )}>
+        <div className="relative aspect-[2/3]">
+          <img
+            src={buildOptimizedCoverUrl(item.cover_url, IMAGE_PRESETS.card)}
+            srcSet={buildSrcSet(item.cover_url, [256, 384, 512], 85)}
+            sizes={RESPONSIVE_SIZES.cardGrid}
+            alt={item.title}
+            className="object-cover w-full h-full"
+            loading="lazy"
+            decoding="async"
+            width="256"
+            height="384"
+            onError={(e) => {
+              const target = e.target as HTMLImageElement;
+              target.onerror = null;
+              target.src = 'data:image/svg+xml,%3Csvg xmlns="http://www.w3.org/2000/svg" width="400" height="600" viewBox="0 0 400 600"%3E%3Crect width="400" height="600" fill="%23374151"/%3E%3Ctext x="50%25" y="50%25" text-anchor="middle" dy=".3em" fill="%239CA3AF" font-family="system-ui" font-size="20"%3ENo Image%3C/text%3E%3C/svg%3E';
+            }}
+          />
+          
+          {/* Checkbox in selection mode */}
+          {selectionMode && (
+            <div className="absolute top-2 left-2 z-10">
+              <div className={cn(
+                "w-6 h-6 rounded flex items-center justify-center border-2 transition-colors",
+                isSelected 
+                  ? "bg-primary border-primary" 
+                  : "bg-black/60 border-white/50 backdrop-blur-sm"
               )}>
-                {item.title}
-              </h3>
+                {isSelected && <CheckSquare className="w-4 h-4 text-primary-foreground" />}
+                {!isSelected && <Square className="w-4 h-4 text-white" />}
+              </div>
             </div>
-          </Card>
-        );
-        
-        return selectionMode ? (
-          <div
-            key={item.id}
-            onClick={() => onToggleSelect(item.id)}
-            className="cursor-pointer"
-          >
-            {cardContent}
+          )}
+          
+          <div className="absolute top-2 right-2 flex flex-col items-end gap-1">
+             <Badge variant="secondary" className="bg-black/60 backdrop-blur-md text-white border-none shadow-sm font-medium">
+                Ch. {item.progress?.last_chapter || 0}{item.lastChapter ? `/${item.lastChapter}` : ''}
+             </Badge>
+             {unread > 0 && (
+               <Badge className="bg-orange-600 text-white border-none shadow-sm font-medium">
+                  {unread} new
+               </Badge>
+             )}
           </div>
-        ) : (
-          <Link to={`/manhwa/${item.id}`} key={item.id} className="group cursor-pointer">
-            {cardContent}
-          </Link>
-        );
-      })}
-      {items.length === 0 && (
-        <div className="col-span-full">
-            <EmptyState />
+          {item.progress?.status && (
+            <div className="absolute bottom-0 left-0 right-0 p-2 bg-gradient-to-t from-black/90 to-transparent pt-8">
+               <p className={cn(
+                 "text-[10px] font-bold uppercase tracking-wider text-center py-1",
+                 item.progress.status === ReadingStatus.READING ? "text-indigo-300" :
+                 item.progress.status === ReadingStatus.COMPLETED ? "text-green-300" : "text-muted-foreground"
+               )}>
+                 {item.progress.status}
+               </p>
+            </div>
+          )}
+        </div>
+        <div className="p-3">
+          <h3 className={cn(
+            "font-semibold text-sm line-clamp-2 leading-snug font-heading transition-colors",
+            !selectionMode && "group-hover:text-primary"
+          )}>
+            {item.title}
+          </h3>
         </div>
-      )}
+      </Card>
+    );
+    
+    return selectionMode ? (
+      <div
+        key={item.id}
+        onClick={() => onToggleSelect(item.id)}
+        className="cursor-pointer"
+      >
+        {cardContent}
+      </div>
+    ) : (
+      <Link to={`/manhwa/${item.id}`} key={item.id} className="group cursor-pointer">
+        {cardContent}
+      </Link>
+    );
+  };
+
+  // Only rows near the viewport are rendered; padding stands in for the rest
+  const rows = [];
+  for (let row = start; row < Math.min(end, rowCount); row++) {
+    const rowItems = items.slice(row * columns, (row + 1) * columns);
+    rows.push(
+      <div
+        key={row}
+        ref={row === start ? measureRow : undefined}
+        className={viewMode === 'list' ? "pb-2" : "grid gap-x-3 sm:gap-x-4 md:gap-x-6 pb-3 sm:pb-4 md:pb-6"}
+        style={viewMode === 'list' ? undefined : { gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))` }}
+      >
+        {rowItems.map(viewMode === 'list' ? renderListItem : renderGridItem)}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      style={{
+        paddingTop: start * rowHeight,
+        paddingBottom: Math.max(0, rowCount - end) * rowHeight,
+      }}
+    >
+      {rows}
     </div>
   );
 };
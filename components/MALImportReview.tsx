@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { Search, AlertTriangle, Check, Clock } from 'lucide-react';
+import { Button, Badge, cn } from './Common';
+import { MALImportMatch, isLowConfidenceMatch } from '../services/malImport';
+
+interface MALImportReviewProps {
+  /** Null while entries are still being matched */
+  matches: MALImportMatch[] | null;
+  progress: { done: number; total: number };
+  onCancel: () => void;
+  onConfirm: (matches: MALImportMatch[]) => void;
+}
+
+const SKIP = '__skip__';
+
+export default function MALImportReview({ matches, progress, onCancel, onConfirm }: MALImportReviewProps) {
+  // Chosen MangaDex id per MAL entry index, only for entries the user touched
+  const [choices, setChoices] = useState<Record<number, string>>({});
+
+  const handleConfirm = () => {
+    if (!matches) return;
+    onConfirm(matches.map((m, index) => {
+      const choice = choices[index];
+      if (choice === undefined) return m;
+      if (choice === SKIP) return { ...m, match: null, confidence: 0 };
+      return { ...m, match: m.candidates.find(c => c.id === choice) || m.match, confidence: 1 };
+    }));
+  };
+
+  const lowConfidence = matches
+    ? matches.map((m, index) => ({ m, index })).filter(({ m }) => isLowConfidenceMatch(m))
+    : [];
+  const autoMatched = matches ? matches.length - lowConfidence.length : 0;
+
+  return (
+    <>
+      <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm" />
+      <div className="fixed left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 z-[101] w-[calc(100%-2rem)] sm:w-full max-w-2xl p-6 bg-card border border-border rounded-lg shadow-2xl max-h-[85vh] flex flex-col animate-in fade-in zoom-in duration-200">
+        <div className="flex items-center gap-3 mb-4">
+          <div className="p-2 bg-primary/10 rounded-full">
+            <Search className="w-5 h-5 text-primary" />
+          </div>
+          <h2 className="text-xl font-heading font-bold">Match MyAnimeList Titles</h2>
+        </div>
+
+        {!matches ? (
+          <div className="py-10 text-center space-y-4">
+            <Clock className="w-8 h-8 mx-auto text-primary animate-spin" />
+            <p className="text-muted-foreground">
+              Searching MangaDex... {progress.done} / {progress.total}
+            </p>
+            <div className="h-2 bg-secondary rounded-full overflow-hidden">
+              <div
+                className="h-full bg-primary transition-all duration-300"
+                style={{ width: `${progress.total ? (progress.done / progress.total) * 100 : 0}%` }}
+              />
+            </div>
+          </div>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground mb-4">
+              <span className="font-medium text-foreground">{autoMatched}</span> of {matches.length} titles matched confidently.
+              {lowConfidence.length > 0 && ' Check the ones below before continuing.'}
+            </p>
+
+            <div className="flex-1 overflow-y-auto divide-y divide-border/50 border border-border/50 rounded-lg">
+              {lowConfidence.length === 0 && (
+                <p className="p-6 text-center text-muted-foreground">Every title was matched. Nothing to review.</p>
+              )}
+              {lowConfidence.map(({ m, index }) => {
+                const selected = choices[index] ?? (m.match?.id || SKIP);
+                return (
+                  <div key={`${m.entry.malId}-${index}`} className="p-3 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <AlertTriangle className="w-4 h-4 text-yellow-500 shrink-0" />
+                      <p className="font-medium text-sm line-clamp-1 flex-1">{m.entry.title}</p>
+                      <Badge variant="secondary" className="text-xs shrink-0">
+                        {m.match ? `${Math.round(m.confidence * 100)}% match` : 'No match'}
+                      </Badge>
+                    </div>
+                    <select
+                      value={selected}
+                      onChange={(e) => setChoices({ ...choices, [index]: e.target.value })}
+                      className={cn(
+                        "w-full px-3 py-2 bg-background border border-input rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ring",
+                        selected === SKIP && "text-muted-foreground"
+                      )}
+                      aria-label={`MangaDex match for ${m.entry.title}`}
+                    >
+                      {m.candidates.map(candidate => (
+                        <option key={candidate.id} value={candidate.id}>{candidate.title}</option>
+                      ))}
+                      <option value={SKIP}>Skip this title</option>
+                    </select>
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+
+        <div className="flex gap-3 justify-end mt-4">
+          <Button variant="outline" onClick={onCancel} className="cursor-pointer">
+            Cancel
+          </Button>
+          <Button onClick={handleConfirm} disabled={!matches} className="gap-2 cursor-pointer">
+            <Check className="w-4 h-4" /> Continue
+          </Button>
+        </div>
+      </div>
+    </>
+  );
+}
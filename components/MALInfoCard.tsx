@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { ExternalLink, Star, Trophy, Users, Search, Clock, RefreshCw } from 'lucide-react';
+import { Button, Card, Input } from './Common';
+import { MALManga, searchMALManga } from '../services/myanimelist';
+
+interface MALInfoCardProps {
+  /** Linked MAL entry, or null when nothing matched */
+  manga: MALManga | null;
+  /** Title used to pre-fill the correction search */
+  title: string;
+  loading: boolean;
+  /** Called with the MAL id the user picked */
+  onSelect: (malId: number) => void;
+}
+
+const formatAuthor = (author: NonNullable<MALManga['authors']>[number]) =>
+  [author.node.first_name, author.node.last_name].filter(Boolean).join(' ');
+
+export default function MALInfoCard({ manga, title, loading, onSelect }: MALInfoCardProps) {
+  const [isCorrecting, setIsCorrecting] = useState(false);
+  const [query, setQuery] = useState(title);
+  const [results, setResults] = useState<MALManga[]>([]);
+  const [searching, setSearching] = useState(false);
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim()) return;
+    setSearching(true);
+    setResults(await searchMALManga(query.trim(), 8));
+    setSearching(false);
+  };
+
+  const handleSelect = (malId: number) => {
+    setIsCorrecting(false);
+    setResults([]);
+    onSelect(malId);
+  };
+
+  return (
+    <Card className="p-4 space-y-4 bg-secondary/20 border-border/50">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-semibold text-muted-foreground uppercase tracking-wider">MyAnimeList</span>
+        {manga && (
+          <a
+            href={`https://myanimelist.net/manga/${manga.id}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="flex items-center gap-1 text-xs font-medium text-primary hover:underline"
+          >
+            View on MAL <ExternalLink className="w-3 h-3" />
+          </a>
+        )}
+      </div>
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Clock className="w-4 h-4 animate-spin" /> Looking up MyAnimeList...
+        </div>
+      ) : manga ? (
+        <div className="space-y-3">
+          <p className="font-heading font-semibold leading-snug">{manga.title}</p>
+
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div className="p-2 bg-background/50 border border-border/50">
+              <Star className="w-4 h-4 mx-auto text-yellow-500" />
+              <div className="font-heading font-bold">{manga.mean?.toFixed(2) ?? 'N/A'}</div>
+              <div className="text-[10px] text-muted-foreground uppercase tracking-wider">Score</div>
+            </div>
+            <div className="p-2 bg-background/50 border border-border/50">
+              <Trophy className="w-4 h-4 mx-auto text-orange-500" />
+              <div className="font-heading font-bold">{manga.rank ? `#${manga.rank}` : 'N/A'}</div>
+              <div className="text-[10px] text-muted-foreground uppercase tracking-wider">Rank</div>
+            </div>
+            <div className="p-2 bg-background/50 border border-border/50">
+              <Users className="w-4 h-4 mx-auto text-blue-500" />
+              <div className="font-heading font-bold">{manga.popularity ? `#${manga.popularity}` : 'N/A'}</div>
+              <div className="text-[10px] text-muted-foreground uppercase tracking-wider">Popularity</div>
+            </div>
+          </div>
+
+          <div className="text-sm space-y-1">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Chapters</span>
+              <span className="font-mono">{manga.num_chapters || '?'}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Volumes</span>
+              <span className="font-mono">{manga.num_volumes || '?'}</span>
+            </div>
+            {manga.authors && manga.authors.length > 0 && (
+              <div className="flex justify-between gap-4">
+                <span className="text-muted-foreground shrink-0">Authors</span>
+                <span className="text-right">
+                  {manga.authors.map(a => `${formatAuthor(a)} (${a.role})`).join(', ')}
+                </span>
+              </div>
+            )}
+          </div>
+
+          {manga.genres && manga.genres.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {manga.genres.map(genre => (
+                <span key={genre.id} className="px-2 py-0.5 text-[10px] font-semibold bg-secondary text-secondary-foreground">
+                  {genre.name}
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">No matching MyAnimeList entry found.</p>
+      )}
+
+      {!loading && !isCorrecting && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setIsCorrecting(true)}
+          className="w-full gap-2 text-xs"
+        >
+          <RefreshCw className="w-3 h-3" /> {manga ? 'Wrong match?' : 'Find on MyAnimeList'}
+        </Button>
+      )}
+
+      {isCorrecting && (
+        <div className="space-y-2 pt-2 border-t border-border/50">
+          <form onSubmit={handleSearch} className="flex gap-2">
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search MyAnimeList"
+              aria-label="Search MyAnimeList"
+              className="h-9"
+            />
+            <Button type="submit" size="sm" disabled={searching} aria-label="Search">
+              {searching ? <Clock className="w-4 h-4 animate-spin" /> : <Search className="w-4 h-4" />}
+            </Button>
+          </form>
+          <div className="max-h-60 overflow-y-auto divide-y divide-border/50">
+            {results.map(result => (
+              <button
+                key={result.id}
+                type="button"
+                onClick={() => handleSelect(result.id)}
+                className="w-full flex items-center justify-between gap-2 p-2 text-left text-sm hover:bg-secondary transition-colors cursor-pointer"
+              >
+                <span className="line-clamp-1">{result.title}</span>
+                <span className="text-xs text-muted-foreground shrink-0">
+                  {result.media_type}{result.num_chapters ? ` · ${result.num_chapters} ch` : ''}
+                </span>
+              </button>
+            ))}
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setIsCorrecting(false)} className="w-full text-xs">
+            Cancel
+          </Button>
+        </div>
+      )}
+    </Card>
+  );
+}
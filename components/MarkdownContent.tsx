@@ -0,0 +1,57 @@
+import React, { useMemo } from 'react';
+import { cn } from './Common';
+import { renderMarkdown } from '../utils/markdown';
+
+interface MarkdownContentProps {
+  text: string;
+  /** Shown when there is nothing to render */
+  emptyMessage?: string;
+  className?: string;
+}
+
+// Inline spoilers are rendered hidden and toggled by click, Enter or Space
+const findSpoiler = (target: EventTarget): Element | null =>
+  target instanceof Element ? target.closest('[data-spoiler]') : null;
+
+const toggleSpoiler = (spoiler: Element) => {
+  const revealed = spoiler.toggleAttribute('data-revealed');
+  spoiler.setAttribute('aria-expanded', String(revealed));
+};
+
+/**
+ * Rendered Markdown of a note. Use this wherever notes are displayed.
+ */
+export const MarkdownContent: React.FC<MarkdownContentProps> = ({ text, emptyMessage, className }) => {
+  const html = useMemo(() => renderMarkdown(text), [text]);
+
+  if (!html) {
+    return emptyMessage ? <p className="text-muted-foreground">{emptyMessage}</p> : null;
+  }
+
+  return (
+    <div
+      className={cn("markdown-body", className)}
+      onClick={(e) => {
+        const spoiler = findSpoiler(e.target);
+        if (!spoiler) return;
+        if (!spoiler.hasAttribute('data-revealed')) {
+          // The first click only reveals, so a hidden link isn't followed
+          e.preventDefault();
+        } else if (e.target instanceof Element && e.target.closest('a')) {
+          return;
+        }
+        toggleSpoiler(spoiler);
+      }}
+      onKeyDown={(e) => {
+        const spoiler = findSpoiler(e.target);
+        if (spoiler && e.target === spoiler && (e.key === 'Enter' || e.key === ' ')) {
+          e.preventDefault();
+          toggleSpoiler(spoiler);
+        }
+      }}
+      dangerouslySetInnerHTML={{ __html: html }}
+    />
+  );
+};
+
+export default MarkdownContent;
@@ -5,6 +5,8 @@ import { cn } from './Common';
 interface OfflineBannerProps {
   /** Whether the user is currently offline */
   isOffline: boolean;
+  /** Number of library changes waiting to sync */
+  pendingChanges?: number;
   /** Optional className for custom styling */
   className?: string;
 }
@@ -19,6 +21,7 @@ interface OfflineBannerProps {
  * - Slide-in/out animation
  * - Clear offline indicator
  * - Reassuring message about service worker cache
+ * - Count of library changes waiting to sync
  * - Auto-dismiss on reconnection
  * 
  * @example
@@ -35,7 +38,7 @@ interface OfflineBannerProps {
  * }
  * ```
  */
-export function OfflineBanner({ isOffline, className }: OfflineBannerProps) {
+export function OfflineBanner({ isOffline, pendingChanges = 0, className }: OfflineBannerProps) {
   // Don't render if online
   if (!isOffline) return null;
 
@@ -57,7 +60,9 @@ export function OfflineBanner({ isOffline, className }: OfflineBannerProps) {
               No Internet Connection
             </p>
             <p className="text-xs opacity-90 hidden sm:block">
-              You can still browse your library offline. New content requires internet.
+              {pendingChanges > 0
+                ? `${pendingChanges} library ${pendingChanges === 1 ? 'change' : 'changes'} will sync when you're back online.`
+                : 'You can still browse your library offline. New content requires internet.'}
             </p>
           </div>
         </div>
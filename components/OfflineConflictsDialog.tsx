@@ -0,0 +1,71 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { Button } from './Common';
+import { OfflineConflict } from '../types';
+import { useRatingScale } from '../hooks/useRatingScale';
+import { formatRating, RatingScale } from '../utils/ratings';
+
+interface OfflineConflictsDialogProps {
+  conflicts: OfflineConflict[];
+  onClose: () => void;
+}
+
+const describeMutation = ({ mutation }: OfflineConflict, scale: RatingScale): string => {
+  if (mutation.type === 'remove') return 'Removal from library';
+
+  const updates = mutation.updates || {};
+  const parts = [
+    updates.status && `status ${updates.status}`,
+    updates.last_chapter !== undefined && `chapter ${updates.last_chapter}`,
+    updates.rating !== undefined && `rating ${formatRating(updates.rating, scale) || 'none'}`,
+  ].filter(Boolean);
+  return parts.length > 0 ? `Set ${parts.join(', ')}` : 'Progress edit';
+};
+
+/**
+ * Lists offline edits that were discarded during sync because the same
+ * title was updated from another device first.
+ */
+export default function OfflineConflictsDialog({ conflicts, onClose }: OfflineConflictsDialogProps) {
+  const ratingScale = useRatingScale();
+  return (
+    <>
+      <div className="fixed inset-0 z-[100] bg-black/60 backdrop-blur-sm" onClick={onClose} />
+      <div className="fixed left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 z-[101] w-[calc(100%-2rem)] sm:w-full max-w-lg p-6 bg-card border border-border rounded-lg shadow-2xl max-h-[85vh] flex flex-col animate-in fade-in zoom-in duration-200">
+        <div className="flex items-start gap-4 mb-4">
+          <div className="flex-shrink-0 w-12 h-12 bg-yellow-500/10 border border-yellow-500/20 flex items-center justify-center">
+            <AlertTriangle className="w-6 h-6 text-yellow-500" />
+          </div>
+          <div>
+            <h2 className="text-xl font-heading font-bold text-foreground mb-2">
+              Some Offline Changes Were Not Saved
+            </h2>
+            <p className="text-sm text-muted-foreground">
+              These titles were updated somewhere else while you were offline. The newer changes were kept and your local edits below were discarded.
+            </p>
+          </div>
+        </div>
+
+        <ul className="flex-1 overflow-y-auto divide-y divide-border/50 border border-border/50 rounded-lg">
+          {conflicts.map(conflict => (
+            <li key={conflict.mutation.id} className="p-3 space-y-1">
+              <p className="font-medium text-sm line-clamp-1">{conflict.mutation.title || 'Untitled'}</p>
+              <p className="text-xs text-muted-foreground">
+                {describeMutation(conflict, ratingScale)} · edited {new Date(conflict.mutation.queuedAt).toLocaleString()}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Kept the version from {new Date(conflict.serverUpdatedAt).toLocaleString()}
+              </p>
+            </li>
+          ))}
+        </ul>
+
+        <div className="flex justify-end mt-4">
+          <Button onClick={onClose} className="cursor-pointer">
+            Got It
+          </Button>
+        </div>
+      </div>
+    </>
+  );
+}
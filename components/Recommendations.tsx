@@ -1,19 +1,21 @@
 import { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
-import { getRelatedManga } from "../services/mangadex";
+import { getDetailsPath, getSourceProvider } from "../services/sources";
 import { addToLibrary, isInLibrary } from "../services/store";
 import { supabase } from "../services/supabase";
-import { Manhwa } from "../types";
+import { GUEST_USER_ID, isGuestMode } from "../services/localStore";
+import { Manhwa, SourceName } from "../types";
 import { Plus, Check, Lightbulb } from "lucide-react";
 import { SkeletonCard } from "./SkeletonCard";
 
 interface RecommendationsProps {
   mangaId: string;
+  source?: SourceName;
   mangaTitle: string;
   limit?: number;
 }
 
-export default function Recommendations({ mangaId, mangaTitle, limit = 8 }: RecommendationsProps) {
+export default function Recommendations({ mangaId, source, mangaTitle, limit = 8 }: RecommendationsProps) {
   const [recommendations, setRecommendations] = useState<Manhwa[]>([]);
   const [loading, setLoading] = useState(true);
   const [addedToLibrary, setAddedToLibrary] = useState<Set<string>>(new Set());
@@ -22,21 +24,22 @@ export default function Recommendations({ mangaId, mangaTitle, limit = 8 }: Reco
 
   useEffect(() => {
     loadRecommendations();
-  }, [mangaId]);
+  }, [mangaId, source]);
 
   const loadRecommendations = async () => {
     try {
       setLoading(true);
-      const related = await getRelatedManga(mangaId, limit);
+      const related = await getSourceProvider(source).getRelated(mangaId, limit);
       setRecommendations(related);
       
       // Check which ones are already in library
       const { data: { user } } = await supabase.auth.getUser();
-      if (user) {
+      const userId = user?.id || (isGuestMode() ? GUEST_USER_ID : null);
+      if (userId) {
         const inLibrarySet = new Set<string>();
         await Promise.all(
           related.map(async (manga) => {
-            const inLib = await isInLibrary(user.id, manga.source_id);
+            const inLib = await isInLibrary(userId, manga.source_id, manga.source);
             if (inLib) inLibrarySet.add(manga.id);
           })
         );
@@ -76,9 +79,9 @@ export default function Recommendations({ mangaId, mangaTitle, limit = 8 }: Reco
   };
 
   const handleNavigate = (manga: Manhwa) => {
-    // Navigate to Details page using source_id (MangaDex ID)
+    // Navigate to Details page using the source ID
     // Details page will handle both library items and preview mode
-    navigate(`/manhwa/${manga.source_id}`);
+    navigate(getDetailsPath(manga));
   };
 
   if (loading) {
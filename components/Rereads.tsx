@@ -0,0 +1,288 @@
+import React, { useState, type FormEvent } from 'react';
+import { Check, Pencil, Repeat, Trash2 } from 'lucide-react';
+import { Reread, RereadInput } from '../types';
+import { Button } from './Common';
+import { deleteReread, startReread, updateReread } from '../services/store';
+import { useRatingScale } from '../hooks/useRatingScale';
+import { formatRating, fromRatingScale, RATING_SCALES, toRatingScale } from '../utils/ratings';
+import { getActiveReread, getReadThrough, ordinal, sortRereads, todayDate } from '../utils/rereads';
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+
+const inputClassName = "h-9 px-2 bg-background border border-input rounded-lg text-sm tabular-nums focus:outline-none focus:ring-2 focus:ring-ring";
+
+interface RereadFormProps {
+  reread: Reread;
+  onSubmit: (updates: RereadInput) => Promise<boolean>;
+  onCancel: () => void;
+}
+
+function RereadForm({ reread, onSubmit, onCancel }: RereadFormProps) {
+  const ratingScale = useRatingScale();
+  const [startDate, setStartDate] = useState(reread.start_date);
+  const [endDate, setEndDate] = useState(reread.end_date || '');
+  const [chapter, setChapter] = useState(String(reread.last_chapter));
+  const [rating, setRating] = useState(reread.rating || 0);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    const chapterNumber = Number(chapter);
+    if (chapter.trim() === '' || isNaN(chapterNumber) || chapterNumber < 0) {
+      setError('Enter a chapter number');
+      return;
+    }
+    if (!startDate) {
+      setError('Enter the date you started');
+      return;
+    }
+    if (reread.end_date !== null && !endDate) {
+      setError('Enter the date you finished');
+      return;
+    }
+    if (endDate && endDate < startDate) {
+      setError("The finish date can't be before the start date");
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    const saved = await onSubmit({
+      start_date: startDate,
+      ...(reread.end_date !== null && { end_date: endDate }),
+      last_chapter: chapterNumber,
+      rating: rating || null
+    });
+    setSaving(false);
+    if (!saved) setError('Failed to save the re-read');
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3 p-4 bg-secondary/20 border border-border/50 rounded-lg">
+      <div className="flex flex-wrap items-center gap-4">
+        <label className="flex items-center gap-2 text-sm font-medium">
+          Started
+          <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className={inputClassName} />
+        </label>
+        {reread.end_date !== null && (
+          <label className="flex items-center gap-2 text-sm font-medium">
+            Finished
+            <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className={inputClassName} />
+          </label>
+        )}
+        <label className="flex items-center gap-2 text-sm font-medium">
+          Chapter
+          <input
+            type="text"
+            inputMode="decimal"
+            value={chapter}
+            onChange={(e) => setChapter(e.target.value)}
+            className={`w-20 ${inputClassName}`}
+            aria-label="Chapter reached"
+          />
+        </label>
+      </div>
+
+      <label className="flex items-center gap-4 text-sm font-medium">
+        Rating
+        <input
+          type="range"
+          min="0"
+          max={RATING_SCALES[ratingScale].max}
+          step={RATING_SCALES[ratingScale].step}
+          value={toRatingScale(rating, ratingScale)}
+          onChange={(e) => setRating(fromRatingScale(Number(e.target.value), ratingScale))}
+          className="flex-1 h-2 bg-secondary appearance-none cursor-pointer accent-primary"
+          aria-label="Re-read rating"
+        />
+        <span className="min-w-12 text-right font-heading font-bold text-primary tabular-nums">{formatRating(rating, ratingScale) || '–'}</span>
+      </label>
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={onCancel} className="cursor-pointer">
+          Cancel
+        </Button>
+        <Button type="submit" size="sm" disabled={saving} className="cursor-pointer">
+          {saving ? 'Saving...' : 'Save'}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+interface RereadsProps {
+  manhwaId: string;
+  rereads: Reread[];
+  onChange: (rereads: Reread[]) => void;
+  canStart: boolean; // Only completed titles can be re-read
+  totalChapters: number | null;
+}
+
+/**
+ * The re-read in progress with its own chapter counter, and a history of a
+ * title's re-reads. The title's progress is never changed from here.
+ */
+export default function Rereads({ manhwaId, rereads, onChange, canStart, totalChapters }: RereadsProps) {
+  const ratingScale = useRatingScale();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const active = getActiveReread(rereads);
+
+  const replace = (saved: Reread) => onChange(sortRereads(rereads.map(r => (r.id === saved.id ? saved : r))));
+
+  // One save at a time so each chapter event starts where the last one ended
+  const save = async (rereadId: string, updates: RereadInput): Promise<boolean> => {
+    setSaving(true);
+    setError('');
+    const saved = await updateReread(rereadId, updates);
+    setSaving(false);
+    if (!saved) {
+      setError('Failed to save the re-read');
+      return false;
+    }
+    replace(saved);
+    return true;
+  };
+
+  const handleStart = async () => {
+    setSaving(true);
+    setError('');
+    const reread = await startReread(manhwaId);
+    setSaving(false);
+    if (reread) {
+      onChange(sortRereads([...rereads, reread]));
+    } else {
+      setError('Failed to start a re-read');
+    }
+  };
+
+  const handleChapterChange = (delta: number) => {
+    if (!active) return;
+    const next = Math.max(0, delta > 0 ? Math.floor(active.last_chapter) + delta : Math.ceil(active.last_chapter) + delta);
+    save(active.id, { last_chapter: next });
+  };
+
+  // Finishing fills in the rest of the chapters, like marking a title Completed
+  const handleFinish = () => {
+    if (!active) return;
+    const lastChapter = totalChapters !== null ? Math.max(active.last_chapter, Math.floor(totalChapters)) : active.last_chapter;
+    save(active.id, { end_date: todayDate(), last_chapter: lastChapter });
+  };
+
+  const handleEdit = async (rereadId: string, updates: RereadInput): Promise<boolean> => {
+    const saved = await save(rereadId, updates);
+    if (saved) setEditingId(null);
+    return saved;
+  };
+
+  const handleDelete = async (reread: Reread) => {
+    const label = reread.end_date === null ? 'this re-read' : `your ${ordinal(getReadThrough(rereads, reread))} read`;
+    if (!confirm(`Delete ${label}? Your completed read is kept.`)) return;
+    setError('');
+    if (await deleteReread(reread.id)) {
+      onChange(rereads.filter(r => r.id !== reread.id));
+    } else {
+      setError('Failed to delete the re-read');
+    }
+  };
+
+  // Newest first
+  const history = [...rereads].reverse();
+
+  return (
+    <div className="space-y-4">
+      {active && editingId !== active.id && (
+        <div className="p-4 space-y-3 bg-primary/5 border border-primary/30 rounded-lg">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <span className="flex items-center gap-2 font-heading font-semibold text-primary">
+              <Repeat className="w-4 h-4" /> Re-reading ({ordinal(getReadThrough(rereads, active))} time)
+            </span>
+            <span className="text-xs text-muted-foreground">Started {formatDate(active.start_date)}</span>
+          </div>
+          <div className="flex items-center gap-4" role="group" aria-label="Re-read chapter progress">
+            <Button variant="outline" size="icon" onClick={() => handleChapterChange(-1)} disabled={saving} className="border-primary/20 hover:border-primary" aria-label="Previous chapter">
+              <span className="text-xl font-light font-heading">-</span>
+            </Button>
+            <div className="flex-1 text-center">
+              <div className="text-3xl font-heading font-bold tabular-nums">{active.last_chapter}</div>
+              <div className="text-[10px] text-muted-foreground uppercase tracking-[0.2em] font-bold">
+                {totalChapters ? `Re-read / ${totalChapters}` : 'Re-read'}
+              </div>
+            </div>
+            <Button variant="outline" size="icon" onClick={() => handleChapterChange(1)} disabled={saving} className="border-primary/20 hover:border-primary" aria-label="Next chapter">
+              <span className="text-xl font-light font-heading">+</span>
+            </Button>
+          </div>
+          <div className="flex flex-wrap justify-end gap-2">
+            <Button variant="ghost" size="sm" onClick={() => handleDelete(active)} className="cursor-pointer">
+              Discard
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setEditingId(active.id)} className="cursor-pointer">
+              Edit
+            </Button>
+            <Button size="sm" onClick={handleFinish} disabled={saving} className="gap-1.5 cursor-pointer">
+              <Check className="w-4 h-4" /> Finish Re-read
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {!active && canStart && (
+        <Button variant="outline" size="sm" onClick={handleStart} disabled={saving} className="gap-2 cursor-pointer">
+          <Repeat className="w-4 h-4" /> Start Re-read
+        </Button>
+      )}
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {history.length > 0 && (
+        <ul className="space-y-2">
+          {history.map(reread => (
+            <li key={reread.id}>
+              {editingId === reread.id ? (
+                <RereadForm
+                  reread={reread}
+                  onSubmit={(updates) => handleEdit(reread.id, updates)}
+                  onCancel={() => setEditingId(null)}
+                />
+              ) : (
+                <div className="flex flex-wrap items-center gap-3 text-sm">
+                  <span className="font-heading font-semibold">{ordinal(getReadThrough(rereads, reread))} read</span>
+                  <span className="text-muted-foreground">
+                    {formatDate(reread.start_date)} – {reread.end_date ? formatDate(reread.end_date) : 'now'}
+                  </span>
+                  <span className="tabular-nums">Ch. {reread.last_chapter}</span>
+                  {reread.rating && <span className="font-bold text-primary">{formatRating(reread.rating, ratingScale)}</span>}
+                  {reread.end_date !== null && (
+                    <div className="flex items-center gap-1 ml-auto">
+                      <button
+                        type="button"
+                        onClick={() => setEditingId(reread.id)}
+                        className="p-1.5 text-muted-foreground hover:text-foreground transition-colors cursor-pointer"
+                        aria-label={`Edit ${ordinal(getReadThrough(rereads, reread))} read`}
+                      >
+                        <Pencil className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDelete(reread)}
+                        className="p-1.5 text-muted-foreground hover:text-destructive transition-colors cursor-pointer"
+                        aria-label={`Delete ${ordinal(getReadThrough(rereads, reread))} read`}
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import React from 'react';
 import { Plus, Check } from 'lucide-react';
 import { Manhwa } from '../../types';
+import { getSourceKey } from '../../services/sources';
 import { buildOptimizedCoverUrl, IMAGE_PRESETS, buildSrcSet } from '../../utils/imageOptimization';
 
 interface BrowseSectionProps { 
@@ -51,7 +52,7 @@ export function BrowseSection({
       </div>
       <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-4">
         {items.map((manga) => {
-          const isAdded = libraryIds.has(manga.id);
+          const isAdded = libraryIds.has(getSourceKey(manga));
           return (
             <div
               key={manga.id}
@@ -2,8 +2,10 @@ import React, { useRef, useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Search as SearchIcon, Filter, X, Shuffle, Loader2, History } from 'lucide-react';
 import { Input, Button, cn } from '../Common';
-import { Manhwa } from '../../types';
+import { Manhwa, SourceName } from '../../types';
 import { searchMangaDex, getRandomManga, SearchOptions } from '../../services/mangadex';
+import { isMALConfigured } from '../../services/myanimelist';
+import { getDetailsPath, getSourceKey, getSourceProvider, getSourceProviders } from '../../services/sources';
 import { buildOptimizedCoverUrl } from '../../utils/imageOptimization';
 import { useDebounce } from '../../hooks/useDebounce';
 
@@ -27,6 +29,8 @@ interface SearchFormProps {
   setFilters: React.Dispatch<React.SetStateAction<SearchOptions>>;
   setResults: (results: Manhwa[]) => void; // For random manga
   setHasSearched: (hasSearched: boolean) => void; // For random manga
+  source: SourceName;
+  onSourceChange: (source: SourceName) => void;
 }
 
 export function SearchForm({
@@ -40,9 +44,13 @@ export function SearchForm({
   filters,
   setFilters,
   setResults,
-  setHasSearched
+  setHasSearched,
+  source,
+  onSourceChange
 }: SearchFormProps) {
   const navigate = useNavigate();
+  // MyAnimeList can only be searched with a client ID configured
+  const availableSources = getSourceProviders().filter(provider => provider.name !== 'mal' || isMALConfigured());
   const [suggestions, setSuggestions] = useState<Manhwa[]>([]);
   const [showSuggestions, setShowSuggestions] = useState(false);
   const [suggestionsLoading, setSuggestionsLoading] = useState(false);
@@ -98,11 +106,14 @@ export function SearchForm({
       return;
     }
     setSuggestionsLoading(true);
-    searchMangaDex(debouncedQuery, { ...filters, limit: 6 })
+    const request = source === 'mangadex'
+      ? searchMangaDex(debouncedQuery, { ...filters, limit: 6 })
+      : getSourceProvider(source).search(debouncedQuery, { limit: 6 });
+    request
       .then(setSuggestions)
       .catch(console.error)
       .finally(() => setSuggestionsLoading(false));
-  }, [debouncedQuery]);
+  }, [debouncedQuery, source]);
 
   // Click outside
   useEffect(() => {
@@ -163,7 +174,7 @@ export function SearchForm({
   const handleSelectSuggestion = (manga: Manhwa) => {
     setShowSuggestions(false);
     setSelectedIndex(-1);
-    navigate(`/manhwa/${manga.source_id}`);
+    navigate(getDetailsPath(manga));
   };
 
   const toggleFilter = <T extends keyof SearchOptions>(
@@ -246,7 +257,7 @@ export function SearchForm({
                       <div className="flex-1 min-w-0">
                         <p className="font-medium text-sm line-clamp-1">{manga.title}</p>
                       </div>
-                      {libraryIds.has(manga.id) && <span className="text-xs bg-green-500/20 text-green-500 px-2 py-1 rounded">Added</span>}
+                      {libraryIds.has(getSourceKey(manga)) && <span className="text-xs bg-green-500/20 text-green-500 px-2 py-1 rounded">Added</span>}
                     </li>
                   ))}
                 </ul>
@@ -257,19 +268,40 @@ export function SearchForm({
           )}
         </div>
 
-        <Button type="button" variant="outline" size="icon" onClick={() => setShowFilters(!showFilters)} className="h-12 w-12">
-            <Filter className="h-5 w-5" />
-        </Button>
-        <Button type="button" variant="outline" size="icon" onClick={handleRandomManga} disabled={loading} className="h-12 w-12">
-            <Shuffle className="h-5 w-5" />
-        </Button>
+        {source === 'mangadex' && (
+          <>
+            <Button type="button" variant="outline" size="icon" onClick={() => setShowFilters(!showFilters)} className="h-12 w-12">
+                <Filter className="h-5 w-5" />
+            </Button>
+            <Button type="button" variant="outline" size="icon" onClick={handleRandomManga} disabled={loading} className="h-12 w-12">
+                <Shuffle className="h-5 w-5" />
+            </Button>
+          </>
+        )}
         <Button type="submit" size="lg" disabled={loading} className="h-12 px-8 font-semibold">
            {loading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : 'Search'}
         </Button>
       </form>
 
+      {/* Source picker */}
+      {availableSources.length > 1 && (
+        <div className="flex justify-center gap-2" role="group" aria-label="Search source">
+          {availableSources.map(provider => (
+            <Button
+              key={provider.name}
+              type="button"
+              size="sm"
+              variant={provider.name === source ? 'default' : 'outline'}
+              onClick={() => onSourceChange(provider.name)}
+            >
+              {provider.label}
+            </Button>
+          ))}
+        </div>
+      )}
+
       {/* Filters UI */}
-      {showFilters && (
+      {showFilters && source === 'mangadex' && (
         <div className="max-w-4xl mx-auto p-6 bg-secondary/20 border border-border/50 space-y-4 animate-in slide-in-from-top-4 duration-300">
            <div className="flex justify-between items-center">
              <h3 className="font-heading font-semibold text-lg">Advanced Filters</h3>
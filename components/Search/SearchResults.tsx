@@ -3,6 +3,7 @@ import { useNavigate } from 'react-router-dom';
 import { Plus, Check, BookOpen } from 'lucide-react';
 import { Button, Card } from '../Common';
 import { Manhwa } from '../../types';
+import { getDetailsPath, getSourceKey } from '../../services/sources';
 import { buildOptimizedCoverUrl, IMAGE_PRESETS, buildSrcSet, RESPONSIVE_SIZES } from '../../utils/imageOptimization';
 
 interface SearchResultsProps {
@@ -16,13 +17,13 @@ export function SearchResults({ results, libraryIds, onAdd, onStartReading }: Se
   const navigate = useNavigate();
 
   const handleNavigateToManhwa = (manga: Manhwa) => {
-    navigate(`/manhwa/${manga.source_id}`);
+    navigate(getDetailsPath(manga));
   };
 
   return (
     <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 xl:grid-cols-5 gap-6">
       {results.map((manga) => {
-        const isAdded = libraryIds.has(manga.id);
+        const isAdded = libraryIds.has(getSourceKey(manga));
         return (
           <Card 
             key={manga.id} 
@@ -0,0 +1,147 @@
+import { useEffect, useState } from 'react';
+import { Pencil, Plus, Settings2, Trash2 } from 'lucide-react';
+import { Tag } from '../types';
+import { Button } from './Common';
+import { TagChip, TagForm } from './Tags';
+import { addTagToTitles, createTag, deleteTag, getTags, removeTagFromTitles, updateTag } from '../services/store';
+
+interface TagManagerProps {
+  manhwaId: string;
+  tagIds: string[];
+  onChange: (tagIds: string[]) => void;
+}
+
+/**
+ * Tags on a library title. Clicking a tag toggles it; manage mode creates,
+ * renames, recolours and deletes tags.
+ */
+export default function TagManager({ manhwaId, tagIds, onChange }: TagManagerProps) {
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [managing, setManaging] = useState(false);
+  const [adding, setAdding] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    getTags().then(setTags);
+  }, []);
+
+  const toggleTag = async (tag: Tag) => {
+    const assigned = tagIds.includes(tag.id);
+    const next = assigned ? tagIds.filter(id => id !== tag.id) : [...tagIds, tag.id];
+    onChange(next);
+    setError('');
+
+    const saved = assigned
+      ? await removeTagFromTitles(tag.id, [manhwaId])
+      : await addTagToTitles(tag.id, [manhwaId]);
+    if (!saved) {
+      onChange(tagIds);
+      setError(`Failed to ${assigned ? 'remove' : 'add'} "${tag.name}"`);
+    }
+  };
+
+  // New tags from here go straight onto this title
+  const handleCreate = async (name: string, color: string): Promise<boolean> => {
+    const tag = await createTag(name, color);
+    if (!tag) return false;
+
+    setTags(list => [...list, tag].sort((a, b) => a.name.localeCompare(b.name)));
+    if (await addTagToTitles(tag.id, [manhwaId])) {
+      onChange([...tagIds, tag.id]);
+    }
+    setAdding(false);
+    return true;
+  };
+
+  const handleEdit = async (tag: Tag, name: string, color: string): Promise<boolean> => {
+    if (!(await updateTag(tag.id, { name, color }))) return false;
+    setTags(list => list.map(t => (t.id === tag.id ? { ...t, name, color } : t)));
+    setEditingId(null);
+    return true;
+  };
+
+  const handleDelete = async (tag: Tag) => {
+    if (!confirm(`Delete the tag "${tag.name}"? It will be removed from every title.`)) return;
+    if (!(await deleteTag(tag.id))) {
+      setError(`Failed to delete "${tag.name}"`);
+      return;
+    }
+    setTags(list => list.filter(t => t.id !== tag.id));
+    if (tagIds.includes(tag.id)) onChange(tagIds.filter(id => id !== tag.id));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-semibold text-muted-foreground uppercase tracking-wider">Tags</span>
+        <div className="flex items-center gap-1">
+          {!managing && (
+            <Button variant="ghost" size="sm" onClick={() => setAdding(!adding)} className="h-7 px-2 gap-1 cursor-pointer">
+              <Plus className="w-3 h-3" /> New
+            </Button>
+          )}
+          {tags.length > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setManaging(!managing);
+                setAdding(false);
+                setEditingId(null);
+              }}
+              className="h-7 px-2 gap-1 cursor-pointer"
+            >
+              <Settings2 className="w-3 h-3" /> {managing ? 'Done' : 'Manage'}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {managing ? (
+        <div className="space-y-2">
+          {tags.map(tag => editingId === tag.id ? (
+            <div key={tag.id} className="p-3 bg-secondary/20 border border-border/50 rounded-lg">
+              <TagForm
+                tags={tags}
+                initial={tag}
+                submitLabel="Save"
+                onSubmit={(name, color) => handleEdit(tag, name, color)}
+                onCancel={() => setEditingId(null)}
+              />
+            </div>
+          ) : (
+            <div key={tag.id} className="flex items-center justify-between gap-2">
+              <TagChip tag={tag} />
+              <div className="flex items-center">
+                <Button variant="ghost" size="icon" onClick={() => setEditingId(tag.id)} className="h-8 w-8 cursor-pointer" title="Edit tag">
+                  <Pencil className="w-3.5 h-3.5" />
+                </Button>
+                <Button variant="ghost" size="icon" onClick={() => handleDelete(tag)} className="h-8 w-8 cursor-pointer hover:text-destructive" title="Delete tag">
+                  <Trash2 className="w-3.5 h-3.5" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {tags.map(tag => (
+            <TagChip key={tag.id} tag={tag} selected={tagIds.includes(tag.id)} onClick={() => toggleTag(tag)} />
+          ))}
+          {tags.length === 0 && !adding && (
+            <p className="text-sm text-muted-foreground">No tags yet. Create one to sort your library into shelves.</p>
+          )}
+        </div>
+      )}
+
+      {adding && !managing && (
+        <div className="p-3 bg-secondary/20 border border-border/50 rounded-lg">
+          <TagForm tags={tags} onSubmit={handleCreate} onCancel={() => setAdding(false)} />
+        </div>
+      )}
+
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+import React, { useState, type FormEvent } from 'react';
+import { Plus } from 'lucide-react';
+import { Tag } from '../types';
+import { Button, cn } from './Common';
+import { MAX_TAG_NAME_LENGTH, normalizeTagName, TAG_COLORS } from '../utils/tags';
+
+interface TagChipProps {
+  tag: Tag;
+  selected?: boolean;
+  /** Shown as a half-filled chip, e.g. a tag only some selected titles have */
+  partial?: boolean;
+  onClick?: () => void;
+  className?: string;
+}
+
+export const TagChip: React.FC<TagChipProps> = ({ tag, selected = true, partial = false, onClick, className }) => {
+  const Element = onClick ? 'button' : 'span';
+  return (
+    <Element
+      type={onClick ? 'button' : undefined}
+      onClick={onClick}
+      aria-pressed={onClick ? selected : undefined}
+      className={cn(
+        "inline-flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium rounded-full border transition-colors",
+        onClick && "cursor-pointer hover:opacity-80",
+        !selected && !partial && "text-muted-foreground bg-transparent",
+        className
+      )}
+      style={{
+        borderColor: tag.color,
+        backgroundColor: selected ? `${tag.color}33` : partial ? `${tag.color}1a` : undefined,
+      }}
+    >
+      <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: tag.color }} />
+      <span className="truncate max-w-[12rem]">{tag.name}</span>
+    </Element>
+  );
+};
+
+export function TagColorPicker({ value, onChange }: { value: string; onChange: (color: string) => void }) {
+  return (
+    <div className="flex flex-wrap gap-1.5" role="radiogroup" aria-label="Tag colour">
+      {TAG_COLORS.map(color => (
+        <button
+          key={color}
+          type="button"
+          role="radio"
+          aria-checked={value === color}
+          onClick={() => onChange(color)}
+          className={cn(
+            "w-6 h-6 rounded-full border-2 cursor-pointer transition-transform hover:scale-110",
+            value === color ? "border-foreground" : "border-transparent"
+          )}
+          style={{ backgroundColor: color }}
+          title={color}
+        />
+      ))}
+    </div>
+  );
+}
+
+interface TagFormProps {
+  /** Existing tags, to reject duplicate names */
+  tags: Tag[];
+  initial?: Pick<Tag, 'name' | 'color'>;
+  submitLabel?: string;
+  onSubmit: (name: string, color: string) => Promise<boolean>;
+  onCancel?: () => void;
+}
+
+/**
+ * Name and colour form, used to create and to edit a tag
+ */
+export function TagForm({ tags, initial, submitLabel = 'Add Tag', onSubmit, onCancel }: TagFormProps) {
+  const [name, setName] = useState(initial?.name || '');
+  const [color, setColor] = useState(initial?.color || TAG_COLORS[0]);
+  const [error, setError] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    const normalized = normalizeTagName(name);
+    if (!normalized) {
+      setError('Enter a tag name');
+      return;
+    }
+    const duplicate = tags.some(tag =>
+      tag.name.toLowerCase() === normalized.toLowerCase() && tag.name !== initial?.name
+    );
+    if (duplicate) {
+      setError(`There is already a tag called "${normalized}"`);
+      return;
+    }
+
+    setSaving(true);
+    setError('');
+    const saved = await onSubmit(normalized, color);
+    setSaving(false);
+    if (!saved) {
+      setError('Failed to save tag');
+    } else if (!initial) {
+      setName('');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={MAX_TAG_NAME_LENGTH}
+          placeholder="Tag name"
+          aria-label="Tag name"
+          className="flex-1 h-9 px-3 bg-background border border-input rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-ring"
+        />
+        <Button type="submit" size="sm" disabled={saving} className="gap-1 cursor-pointer">
+          <Plus className="w-4 h-4" />
+          {submitLabel}
+        </Button>
+        {onCancel && (
+          <Button type="button" variant="ghost" size="sm" onClick={onCancel} className="cursor-pointer">
+            Cancel
+          </Button>
+        )}
+      </div>
+      <TagColorPicker value={color} onChange={setColor} />
+      {error && <p className="text-xs text-destructive">{error}</p>}
+    </form>
+  );
+}
@@ -1,76 +1,203 @@
-import { useState, useEffect, useMemo } from 'react';
-import { getLibrary, getRecentlyUpdated, removeFromLibrary, updateProgress } from '../services/store';
-import { LibraryItem, ReadingStatus } from '../types';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { getLibrary, getTags, selectRecentlyUpdated, removeFromLibrary, updateProgress, updateSortIndex, refreshLatestChapters, replayOfflineMutations } from '../services/store';
+import { subscribeToLibraryCache } from '../services/libraryCache';
+import { LibraryItem, ReadingStatus, Tag, UserProgress } from '../types';
+import { getUnreadCount } from '../utils/chapters';
+import { matchesTags, TagMatchMode } from '../utils/tags';
+import { MAX_RATING, toRatingScale } from '../utils/ratings';
+import { useOnlineStatus } from './useOnlineStatus';
+import { useRatingScale } from './useRatingScale';
+
+export type LibraryViewMode = 'grid' | 'list' | 'board';
 
 export interface LibraryFilters {
   status: string;
   sortBy: 'title' | 'added' | 'updated' | 'rating';
   sortOrder: 'asc' | 'desc';
-  ratingMin: number;
+  ratingMin: number; // Stored ratings, 0-100 (utils/ratings.ts)
   ratingMax: number;
   dateFilter: 'all' | 'week' | 'month' | 'year';
+  unreadOnly: boolean;
+  tagIds: string[];
+  tagMode: TagMatchMode;
 }
 
 export function useLibrary() {
   const [items, setItems] = useState<LibraryItem[]>([]);
-  const [recentItems, setRecentItems] = useState<LibraryItem[]>([]);
   const [loading, setLoading] = useState(true);
+  // More pages of the library are still being fetched
+  const [loadingMore, setLoadingMore] = useState(false);
+  const ratingScale = useRatingScale();
   
   const [filters, setFilters] = useState<LibraryFilters>({
     status: 'ALL',
     sortBy: 'updated',
     sortOrder: 'desc',
     ratingMin: 0,
-    ratingMax: 10,
-    dateFilter: 'all'
+    ratingMax: MAX_RATING,
+    dateFilter: 'all',
+    unreadOnly: false,
+    tagIds: [],
+    tagMode: 'any'
   });
+  const [tags, setTags] = useState<Tag[]>([]);
+
+  const isOnline = useOnlineStatus();
+  const wasOnline = useRef(isOnline);
 
-  const fetchData = async () => {
-    setLoading(true);
+  // The first load is served from the library cache when possible, and
+  // otherwise shows each page as it arrives; later refreshes go to the
+  // network but keep the current items on screen
+  const fetchData = async (fresh = false) => {
+    if (!fresh) setLoading(true);
     try {
-      const [libData, recentData] = await Promise.all([
-        getLibrary(),
-        getRecentlyUpdated(10)
-      ]);
-      
-      setItems(libData);
-      setRecentItems(recentData);
+      setItems(await getLibrary({
+        fresh,
+        onPage: fresh ? undefined : (loaded) => {
+          setItems(loaded);
+          setLoading(false);
+          setLoadingMore(true);
+        }
+      }));
     } catch (error) {
       console.error("Failed to load library data", error);
     } finally {
       setLoading(false);
+      setLoadingMore(false);
+    }
+  };
+
+  useEffect(() => {
+    // Background revalidations, chapter refreshes and mutations elsewhere
+    // all land in the cache
+    const unsubscribe = subscribeToLibraryCache(setItems);
+    fetchData().then(() => refreshLatestChapters());
+    return unsubscribe;
+  }, []);
+
+  // Once reconnected, wait for queued offline writes to land, then reload
+  useEffect(() => {
+    if (isOnline && !wasOnline.current) {
+      replayOfflineMutations().then(() => fetchData(true));
     }
+    wasOnline.current = isOnline;
+  }, [isOnline]);
+
+  const refreshLibrary = () => fetchData(true);
+
+  const refreshTags = async () => {
+    const list = await getTags();
+    setTags(list);
+    // Drop deleted tags from the filter
+    const known = new Set(list.map(tag => tag.id));
+    setFilters(prev => ({ ...prev, tagIds: prev.tagIds.filter(id => known.has(id)) }));
   };
 
   useEffect(() => {
-    fetchData();
+    refreshTags();
   }, []);
 
-  const refreshLibrary = () => fetchData();
+  const recentItems = useMemo(() => selectRecentlyUpdated(items, 10), [items]);
+
+  // Apply a progress change locally first, then save it (queued when offline).
+  // Rolls back if the save fails.
+  const updateItemProgress = async (id: string, updates: Partial<UserProgress>): Promise<boolean> => {
+    const item = items.find(i => i.id === id);
+    if (!item) return false;
+
+    const optimistic = { ...item.progress, ...updates, updated_at: new Date().toISOString() } as UserProgress;
+    const patch = (list: LibraryItem[], progress: UserProgress | undefined) =>
+      list.map(i => (i.id === id ? { ...i, progress } : i));
+
+    setItems(list => patch(list, optimistic));
+
+    const saved = await updateProgress(id, {
+      status: optimistic.status,
+      last_chapter: optimistic.last_chapter ?? 0,
+      rating: optimistic.rating ?? 0,
+      notes: optimistic.notes ?? '',
+      sort_index: updates.sort_index
+    });
+
+    if (!saved) {
+      setItems(list => patch(list, item.progress));
+      return false;
+    }
+
+    setItems(list => patch(list, { ...optimistic, ...saved }));
+    return true;
+  };
+
+  // Drop a card on the board. Moving to another column is a status change;
+  // within a column only the position is saved.
+  const moveItem = async (id: string, status: ReadingStatus, sortIndex: number): Promise<boolean> => {
+    const item = items.find(i => i.id === id);
+    if (!item) return false;
+    if (status !== (item.progress?.status || ReadingStatus.PLAN_TO_READ)) {
+      return updateItemProgress(id, { status, sort_index: sortIndex });
+    }
+
+    const patch = (list: LibraryItem[], sort_index: number | null) =>
+      list.map(i => (i.id === id && i.progress ? { ...i, progress: { ...i.progress, sort_index } } : i));
+
+    setItems(list => patch(list, sortIndex));
+    const saved = await updateSortIndex(id, sortIndex);
+    if (!saved) setItems(list => patch(list, item.progress?.sort_index ?? null));
+    return saved;
+  };
+
+  // Remove titles locally first, then delete them (queued when offline).
+  // Titles that fail to delete are put back.
+  const removeItems = async (ids: string[]): Promise<boolean> => {
+    const previousItems = items;
+    const idSet = new Set(ids);
+
+    setItems(list => list.filter(i => !idSet.has(i.id)));
+
+    const results = await Promise.allSettled(ids.map(id => removeFromLibrary(id)));
+    const failed = new Set(ids.filter((_, index) => results[index].status === 'rejected'));
+
+    if (failed.size > 0) {
+      setItems(previousItems.filter(i => !idSet.has(i.id) || failed.has(i.id)));
+      return false;
+    }
+
+    return true;
+  };
+
+  // Every filter except status; the board shows all statuses side by side
+  const matchesFilters = (item: LibraryItem): boolean => {
+    // Tag filter
+    if (!matchesTags(item, filters.tagIds, filters.tagMode)) return false;
+
+    // Unread chapters filter
+    if (filters.unreadOnly && getUnreadCount(item) === 0) return false;
+
+    // Rating filter, compared as shown so a bound includes every rating that
+    // displays as that value
+    const rating = toRatingScale(item.progress?.rating || 0, ratingScale);
+    if (rating < toRatingScale(filters.ratingMin, ratingScale) || rating > toRatingScale(filters.ratingMax, ratingScale)) return false;
+    
+    // Date filter
+    if (filters.dateFilter !== 'all') {
+      const now = new Date();
+      const itemDate = new Date(item.created_at);
+      const daysAgo = (now.getTime() - itemDate.getTime()) / (1000 * 60 * 60 * 24);
+      
+      if (filters.dateFilter === 'week' && daysAgo > 7) return false;
+      if (filters.dateFilter === 'month' && daysAgo > 30) return false;
+      if (filters.dateFilter === 'year' && daysAgo > 365) return false;
+    }
+    
+    return true;
+  };
+
+  const boardItems = useMemo(() => items.filter(matchesFilters), [items, filters, ratingScale]);
 
   const filteredItems = useMemo(() => {
     return items
-      .filter(item => {
-        // Status filter
-        if (filters.status !== 'ALL' && item.progress?.status !== filters.status) return false;
-        
-        // Rating filter
-        const rating = item.progress?.rating || 0;
-        if (rating < filters.ratingMin || rating > filters.ratingMax) return false;
-        
-        // Date filter
-        if (filters.dateFilter !== 'all') {
-          const now = new Date();
-          const itemDate = new Date(item.created_at);
-          const daysAgo = (now.getTime() - itemDate.getTime()) / (1000 * 60 * 60 * 24);
-          
-          if (filters.dateFilter === 'week' && daysAgo > 7) return false;
-          if (filters.dateFilter === 'month' && daysAgo > 30) return false;
-          if (filters.dateFilter === 'year' && daysAgo > 365) return false;
-        }
-        
-        return true;
-      })
+      .filter(item => filters.status === 'ALL' || item.progress?.status === filters.status)
+      .filter(matchesFilters)
       .sort((a, b) => {
         let compareResult = 0;
         
@@ -93,7 +220,7 @@ export function useLibrary() {
         
         return filters.sortOrder === 'asc' ? compareResult : -compareResult;
       });
-  }, [items, filters]);
+  }, [items, filters, ratingScale]);
 
   const stats = useMemo(() => ({
     total: items.length,
@@ -109,10 +236,17 @@ export function useLibrary() {
     items,
     recentItems,
     filteredItems,
+    boardItems,
     loading,
+    loadingMore,
     stats,
     filters,
     updateFilters,
-    refreshLibrary
+    tags,
+    refreshTags,
+    refreshLibrary,
+    updateItemProgress,
+    moveItem,
+    removeItems
   };
 }
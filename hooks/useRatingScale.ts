@@ -0,0 +1,14 @@
+import { useEffect, useState } from 'react';
+import { getRatingScale, subscribeToRatingScale } from '../services/ratingScale';
+import { RatingScale } from '../utils/ratings';
+
+/**
+ * The scale the user shows and enters ratings in, kept current when it changes
+ */
+export function useRatingScale(): RatingScale {
+  const [scale, setScale] = useState(getRatingScale);
+
+  useEffect(() => subscribeToRatingScale(setScale), []);
+
+  return scale;
+}
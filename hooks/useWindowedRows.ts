@@ -0,0 +1,90 @@
+import { RefObject, useCallback, useEffect, useRef, useState } from 'react';
+
+// Tailwind breakpoints (min-width) and the library grid's columns at each
+const GRID_BREAKPOINTS: [number, number][] = [
+  [1280, 6], // xl
+  [1024, 5], // lg
+  [768, 4], // md
+  [640, 3], // sm
+];
+const GRID_MIN_COLUMNS = 2;
+
+const getGridColumns = (): number => {
+  if (typeof window === 'undefined') return GRID_MIN_COLUMNS;
+  const match = GRID_BREAKPOINTS.find(([minWidth]) => window.innerWidth >= minWidth);
+  return match ? match[1] : GRID_MIN_COLUMNS;
+};
+
+/**
+ * Number of grid columns for the current window width
+ */
+export function useGridColumns(): number {
+  const [columns, setColumns] = useState(getGridColumns);
+
+  useEffect(() => {
+    const handleResize = () => setColumns(getGridColumns());
+    window.addEventListener('resize', handleResize);
+    return () => window.removeEventListener('resize', handleResize);
+  }, []);
+
+  return columns;
+}
+
+interface WindowedRowsOptions {
+  rowCount: number;
+  estimatedRowHeight: number;
+  overscan?: number; // Rows rendered beyond each edge of the viewport
+}
+
+/**
+ * The rows of a page-scrolled list that are on or near the screen.
+ * Rows are assumed to share one height, measured from a rendered row via
+ * measureRow; until then estimatedRowHeight is used.
+ */
+export function useWindowedRows(
+  containerRef: RefObject<HTMLElement | null>,
+  { rowCount, estimatedRowHeight, overscan = 3 }: WindowedRowsOptions
+) {
+  const [rowHeight, setRowHeight] = useState(estimatedRowHeight);
+  const [range, setRange] = useState({ start: 0, end: Math.min(rowCount, overscan * 2) });
+  const observerRef = useRef<ResizeObserver | null>(null);
+
+  const update = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    // Container top relative to the viewport; negative once scrolled past
+    const top = container.getBoundingClientRect().top;
+    const start = Math.max(0, Math.floor(-top / rowHeight) - overscan);
+    const end = Math.min(rowCount, Math.ceil((window.innerHeight - top) / rowHeight) + overscan);
+
+    setRange(prev => (prev.start === start && prev.end === end ? prev : { start, end: Math.max(start, end) }));
+  }, [containerRef, rowCount, rowHeight, overscan]);
+
+  useEffect(() => {
+    update();
+    window.addEventListener('scroll', update, { passive: true });
+    window.addEventListener('resize', update);
+    return () => {
+      window.removeEventListener('scroll', update);
+      window.removeEventListener('resize', update);
+    };
+  }, [update]);
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  // Ref callback for a rendered row; follows its height as the layout changes
+  const measureRow = useCallback((element: HTMLElement | null) => {
+    observerRef.current?.disconnect();
+    observerRef.current = null;
+    if (!element || typeof ResizeObserver === 'undefined') return;
+
+    const observer = new ResizeObserver(() => {
+      if (element.offsetHeight > 0) setRowHeight(element.offsetHeight);
+    });
+    observer.observe(element);
+    observerRef.current = observer;
+  }, []);
+
+  return { start: range.start, end: range.end, rowHeight, measureRow };
+}
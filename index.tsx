@@ -2,12 +2,16 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 import { ToastProvider } from './components/Toast';
+import { subscribeToDroppedItems } from './utils/validation';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// API list items that failed validation are left out of the UI; keep a record
+subscribeToDroppedItems(errors => errors.forEach(error => console.warn(error)));
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
@@ -1,4 +1,4 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState, type ChangeEvent, type FormEvent } from "react";
 import { supabase } from "../services/supabase";
 import { 
   getUserProfile, 
@@ -6,8 +6,17 @@ import {
   getTopRated,
   updateUserPassword,
   exportLibraryAsJSON,
-  exportLibraryAsCSV
+  exportLibraryAsCSV,
+  exportLibraryAsMALXML,
+  parseLibraryExport,
+  planLibraryImport,
+  planImportItems,
+  applyLibraryImport
 } from "../services/store";
+import { parseMALListXML } from "../services/myanimelist";
+import { matchMALEntries, buildMALImportItems, MALImportMatch } from "../services/malImport";
+import { fetchAniListMangaList } from "../services/anilist";
+import { parseTachiyomiBackup, buildTachiyomiImportItems } from "../services/tachiyomiImport";
 import {
   getNotificationSettings,
   saveNotificationSettings,
@@ -15,11 +24,16 @@ import {
   areNotificationsEnabled,
   isNotificationSupported
 } from "../services/notifications";
-import { UserProfile, UserStats, ManhwaItem } from "../types";
+import { UserProfile, UserStats, ManhwaItem, LibraryImportEntry } from "../types";
 import { Link } from "react-router-dom";
 import StatCard from "../components/StatCard";
 import Loader from "../components/Loader";
-import { Card, Badge, Button } from "../components/Common";
+import ImportLibraryDialog from "../components/ImportLibraryDialog";
+import MALImportReview from "../components/MALImportReview";
+import { Card, Badge, Button, Select } from "../components/Common";
+import { useRatingScale } from "../hooks/useRatingScale";
+import { setRatingScale } from "../services/ratingScale";
+import { formatAverageRating, formatRating, isRatingScale, RATING_SCALES } from "../utils/ratings";
 import { 
   User, 
   BookOpen, 
@@ -36,8 +50,11 @@ import {
   LogOut,
   AlertTriangle,
   Download,
+  Upload,
   Bell,
-  BellOff
+  BellOff,
+  Flame,
+  Repeat
 } from "lucide-react";
 
 export default function Account() {
@@ -65,7 +82,25 @@ export default function Account() {
   const [showSignOutModal, setShowSignOutModal] = useState(false);
   
   // Export state
-  const [exportLoading, setExportLoading] = useState<'json' | 'csv' | null>(null);
+  const [exportLoading, setExportLoading] = useState<'json' | 'csv' | 'mal' | null>(null);
+  const [redactSpoilers, setRedactSpoilers] = useState(false);
+  const ratingScale = useRatingScale();
+  const [ratingScaleError, setRatingScaleError] = useState("");
+  
+  // Import state
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [importEntries, setImportEntries] = useState<LibraryImportEntry[] | null>(null);
+  const [importLoading, setImportLoading] = useState(false);
+  const [importError, setImportError] = useState("");
+  const [importSummary, setImportSummary] = useState("");
+  const malInputRef = useRef<HTMLInputElement>(null);
+  const [malReviewOpen, setMalReviewOpen] = useState(false);
+  const [malMatches, setMalMatches] = useState<MALImportMatch[] | null>(null);
+  const [malProgress, setMalProgress] = useState({ done: 0, total: 0 });
+  const malImportAbort = useRef<AbortController | null>(null);
+  const [anilistUser, setAnilistUser] = useState("");
+  const tachiyomiInputRef = useRef<HTMLInputElement>(null);
+  const [tachiyomiProgress, setTachiyomiProgress] = useState<{ done: number; total: number } | null>(null);
   
   // Notification settings state
   const [notificationSettings, setNotificationSettings] = useState(getNotificationSettings());
@@ -161,13 +196,21 @@ export default function Account() {
     setShowSignOutModal(false);
   };
 
+  const handleRatingScaleChange = async (value: string) => {
+    if (!isRatingScale(value)) return;
+    setRatingScaleError("");
+    if (!(await setRatingScale(value))) {
+      setRatingScaleError("Failed to save your rating scale. Please try again.");
+    }
+  };
+
   const handleExportJSON = async () => {
     try {
       setExportLoading('json');
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
-      const blob = await exportLibraryAsJSON(user.id);
+      const blob = await exportLibraryAsJSON({ redactSpoilers });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
@@ -189,7 +232,7 @@ export default function Account() {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
-      const blob = await exportLibraryAsCSV(user.id);
+      const blob = await exportLibraryAsCSV({ redactSpoilers });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
       a.href = url;
@@ -205,6 +248,194 @@ export default function Account() {
     }
   };
   
+  const handleExportMAL = async () => {
+    try {
+      setExportLoading('mal');
+      const blob = await exportLibraryAsMALXML();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `dooftrack-mal-${new Date().toISOString().split('T')[0]}.xml`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Error exporting MAL XML:', error);
+    } finally {
+      setExportLoading(null);
+    }
+  };
+
+  const handleImportFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-selecting the same file
+    if (!file) return;
+
+    setImportError("");
+    setImportSummary("");
+
+    try {
+      setImportLoading(true);
+      const parsed = parseLibraryExport(await file.text());
+      if (!parsed.success || !parsed.data) {
+        setImportError(parsed.error || "Invalid export file");
+        return;
+      }
+      setImportEntries(await planLibraryImport(parsed.data));
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      setImportError("Could not read the selected file");
+    } finally {
+      setImportLoading(false);
+    }
+  };
+
+  const handleImportMALFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setImportError("");
+    setImportSummary("");
+
+    let entries;
+    try {
+      entries = parseMALListXML(await file.text());
+    } catch (error: any) {
+      setImportError(error.message || "Could not read the selected file");
+      return;
+    }
+    if (entries.length === 0) {
+      setImportError("No manga entries found in this MyAnimeList export");
+      return;
+    }
+
+    const controller = new AbortController();
+    malImportAbort.current = controller;
+    setMalMatches(null);
+    setMalProgress({ done: 0, total: entries.length });
+    setMalReviewOpen(true);
+
+    const matches = await matchMALEntries(
+      entries,
+      (done, total) => setMalProgress({ done, total }),
+      controller.signal
+    );
+    if (!controller.signal.aborted) {
+      setMalMatches(matches);
+    }
+  };
+
+  const handleCancelMALImport = () => {
+    malImportAbort.current?.abort();
+    setMalReviewOpen(false);
+    setMalMatches(null);
+  };
+
+  const handleConfirmMALMatches = async (matches: MALImportMatch[]) => {
+    setMalReviewOpen(false);
+    setMalMatches(null);
+    try {
+      setImportLoading(true);
+      setImportEntries(await planImportItems(buildMALImportItems(matches)));
+    } catch (error) {
+      console.error('Error preparing MAL import:', error);
+      setImportError("Could not prepare the MyAnimeList import");
+    } finally {
+      setImportLoading(false);
+    }
+  };
+
+  const handleImportAniList = async (e: FormEvent) => {
+    e.preventDefault();
+    setImportError("");
+    setImportSummary("");
+
+    try {
+      setImportLoading(true);
+      const list = await fetchAniListMangaList(anilistUser);
+      if (!list.success || !list.data) {
+        setImportError(list.error || "Could not load the AniList list");
+        return;
+      }
+      if (list.data.length === 0) {
+        setImportError("This AniList user has no manga on their list");
+        return;
+      }
+      if (list.skipped) {
+        setImportError(`${list.skipped} ${list.skipped === 1 ? 'entry' : 'entries'} on the AniList list couldn't be read and will not be imported.`);
+      }
+      setImportEntries(await planImportItems(list.data));
+    } catch (error) {
+      console.error('Error preparing AniList import:', error);
+      setImportError("Could not prepare the AniList import");
+    } finally {
+      setImportLoading(false);
+    }
+  };
+
+  const handleImportTachiyomiFile = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setImportError("");
+    setImportSummary("");
+
+    let entries;
+    try {
+      entries = await parseTachiyomiBackup(await file.arrayBuffer());
+    } catch (error: any) {
+      setImportError(error.message || "Could not read the selected file");
+      return;
+    }
+    if (entries.length === 0) {
+      setImportError("No library entries found in this backup");
+      return;
+    }
+
+    try {
+      setImportLoading(true);
+      setTachiyomiProgress({ done: 0, total: entries.length });
+      const { items, unmatched } = await buildTachiyomiImportItems(
+        entries,
+        (done, total) => setTachiyomiProgress({ done, total })
+      );
+      if (unmatched.length > 0) {
+        setImportSummary(`${unmatched.length} titles from other sources could not be found on MangaDex and were skipped`);
+      }
+      setImportEntries(await planImportItems(items));
+    } catch (error) {
+      console.error('Error preparing Tachiyomi import:', error);
+      setImportError("Could not prepare the Tachiyomi import");
+    } finally {
+      setTachiyomiProgress(null);
+      setImportLoading(false);
+    }
+  };
+
+  const handleApplyImport = async (overwriteConflicts: Set<string>) => {
+    if (!importEntries) return;
+
+    try {
+      setImportLoading(true);
+      const result = await applyLibraryImport(importEntries, overwriteConflicts);
+      setImportSummary(
+        `Imported ${result.created} new and ${result.updated} updated titles` +
+        (result.skipped ? `, skipped ${result.skipped}` : '') +
+        (result.failed ? `, ${result.failed} failed` : '') + '.'
+      );
+      setImportEntries(null);
+      await loadAccountData();
+    } catch (error) {
+      console.error('Error applying import:', error);
+      setImportError("Import failed. Your library was not fully updated.");
+    } finally {
+      setImportLoading(false);
+    }
+  };
+
   const handleEnableNotifications = async () => {
     const granted = await requestNotificationPermission();
     if (granted) {
@@ -500,6 +731,25 @@ export default function Account() {
           </div>
         </div>
         
+        {/* Rating Scale Section */}
+        <div>
+          <h2 className="font-heading text-2xl font-bold mb-4">Ratings</h2>
+          <div className="border border-border/50 rounded-lg p-6 bg-card/40 space-y-3">
+            <label htmlFor="rating-scale" className="text-sm font-medium">Scoring system</label>
+            <Select
+              id="rating-scale"
+              value={ratingScale}
+              onChange={handleRatingScaleChange}
+              options={Object.entries(RATING_SCALES).map(([value, { label }]) => ({ value, label }))}
+              className="max-w-sm"
+            />
+            <p className="text-xs text-muted-foreground">
+              Ratings are shown and entered in this scale everywhere. Switching scales doesn't change your saved ratings.
+            </p>
+            {ratingScaleError && <p className="text-sm text-destructive">{ratingScaleError}</p>}
+          </div>
+        </div>
+
         {/* Statistics Grid */}
         <div>
           <h2 className="font-heading text-2xl font-bold mb-4">Statistics</h2>
@@ -528,12 +778,18 @@ export default function Account() {
               icon={FileText}
               color="purple"
             />
+            <StatCard
+              title="Re-reads"
+              value={stats?.rereads || 0}
+              icon={Repeat}
+              color="purple"
+              subtitle={`${stats?.rereadChapters || 0} chapters re-read`}
+            />
             <StatCard
               title="Average Rating"
-              value={stats?.averageRating || 0}
+              value={formatAverageRating(stats?.averageRating || 0, ratingScale) || "–"}
               icon={Star}
               color="orange"
-              suffix="/10"
             />
             <StatCard
               title="Completion Rate"
@@ -542,12 +798,19 @@ export default function Account() {
               color="teal"
               suffix="%"
             />
+            <StatCard
+              title="Reading Streak"
+              value={stats?.readingStreak || 0}
+              icon={Flame}
+              color="orange"
+              suffix={stats?.readingStreak === 1 ? " day" : " days"}
+            />
           </div>
         </div>
 
         {/* Data Export Section */}
         <div>
-          <h2 className="font-heading text-2xl font-bold mb-4">Data Export</h2>
+          <h2 className="font-heading text-2xl font-bold mb-4">Data Export & Import</h2>
           <div className="border border-border/50 rounded-lg p-6 bg-card/40">
             <p className="text-muted-foreground mb-4">
               Export your library data for backup or to use in other applications.
@@ -571,10 +834,113 @@ export default function Account() {
                 <Download className="w-4 h-4" />
                 {exportLoading === 'csv' ? 'Exporting...' : 'Export as CSV'}
               </button>
+              <button
+                onClick={handleExportMAL}
+                disabled={exportLoading !== null}
+                className="flex items-center justify-center gap-2 px-6 py-3 border border-border/50 
+                         rounded-lg hover:bg-muted/20 transition-colors disabled:opacity-50 cursor-pointer"
+              >
+                <Download className="w-4 h-4" />
+                {exportLoading === 'mal' ? 'Exporting...' : 'Export as MAL XML'}
+              </button>
             </div>
+            <label className="flex items-center gap-2 mt-4 text-sm cursor-pointer w-fit">
+              <input
+                type="checkbox"
+                checked={redactSpoilers}
+                onChange={(e) => setRedactSpoilers(e.target.checked)}
+                className="accent-primary cursor-pointer"
+              />
+              Hide spoilers in notes (JSON and CSV)
+            </label>
             <p className="text-xs text-muted-foreground mt-3">
-              JSON format preserves all data including descriptions. CSV format is compatible with spreadsheet applications.
+              JSON format preserves all data including descriptions. CSV format is compatible with spreadsheet applications. MAL XML can be imported into MyAnimeList.
             </p>
+
+            <div className="mt-6 pt-6 border-t border-border/50">
+              <h3 className="font-heading text-lg font-semibold mb-2">Restore from Backup</h3>
+              <p className="text-muted-foreground mb-4">
+                Import a doofTrack JSON export, a MyAnimeList manga list export, a Tachiyomi / Mihon backup or a public AniList manga list. You'll see what will be added or changed before anything is saved.
+              </p>
+              <input
+                ref={importInputRef}
+                type="file"
+                accept="application/json,.json"
+                onChange={handleImportFile}
+                className="hidden"
+              />
+              <input
+                ref={malInputRef}
+                type="file"
+                accept="application/xml,text/xml,.xml"
+                onChange={handleImportMALFile}
+                className="hidden"
+              />
+              <input
+                ref={tachiyomiInputRef}
+                type="file"
+                accept=".tachibk,.gz,.proto,application/gzip"
+                onChange={handleImportTachiyomiFile}
+                className="hidden"
+              />
+              <div className="flex flex-col sm:flex-row gap-3">
+                <button
+                  onClick={() => importInputRef.current?.click()}
+                  disabled={importLoading}
+                  className="flex items-center justify-center gap-2 px-6 py-3 border border-border/50 
+                           rounded-lg hover:bg-muted/20 transition-colors disabled:opacity-50 cursor-pointer"
+                >
+                  <Upload className="w-4 h-4" />
+                  {importLoading && !importEntries ? 'Reading file...' : 'Import from JSON'}
+                </button>
+                <button
+                  onClick={() => malInputRef.current?.click()}
+                  disabled={importLoading || malReviewOpen}
+                  className="flex items-center justify-center gap-2 px-6 py-3 border border-border/50 
+                           rounded-lg hover:bg-muted/20 transition-colors disabled:opacity-50 cursor-pointer"
+                >
+                  <Upload className="w-4 h-4" />
+                  Import from MyAnimeList
+                </button>
+                <button
+                  onClick={() => tachiyomiInputRef.current?.click()}
+                  disabled={importLoading}
+                  className="flex items-center justify-center gap-2 px-6 py-3 border border-border/50 
+                           rounded-lg hover:bg-muted/20 transition-colors disabled:opacity-50 cursor-pointer"
+                >
+                  <Upload className="w-4 h-4" />
+                  {tachiyomiProgress
+                    ? `Matching titles... ${tachiyomiProgress.done} / ${tachiyomiProgress.total}`
+                    : 'Import from Tachiyomi'}
+                </button>
+              </div>
+              <form onSubmit={handleImportAniList} className="flex flex-col sm:flex-row gap-3 mt-3">
+                <input
+                  type="text"
+                  value={anilistUser}
+                  onChange={(e) => setAnilistUser(e.target.value)}
+                  placeholder="AniList username"
+                  aria-label="AniList username"
+                  className="flex-1 px-4 py-2 rounded-lg border border-border/50 
+                           bg-background focus:outline-none focus:border-primary"
+                />
+                <button
+                  type="submit"
+                  disabled={importLoading || !anilistUser.trim()}
+                  className="flex items-center justify-center gap-2 px-6 py-3 border border-border/50 
+                           rounded-lg hover:bg-muted/20 transition-colors disabled:opacity-50 cursor-pointer"
+                >
+                  <Upload className="w-4 h-4" />
+                  {importLoading && anilistUser.trim() && !importEntries ? 'Loading list...' : 'Import from AniList'}
+                </button>
+              </form>
+              {importError && (
+                <div className="text-red-500 text-sm mt-3">{importError}</div>
+              )}
+              {importSummary && (
+                <div className="text-green-500 text-sm mt-3">{importSummary}</div>
+              )}
+            </div>
           </div>
         </div>
 
@@ -612,7 +978,7 @@ export default function Account() {
                                      shadow-sm font-medium flex items-center gap-1"
                           >
                             <Star className="w-3 h-3 fill-yellow-400 text-yellow-400" />
-                            {manhwa.progress.rating}
+                            {formatRating(manhwa.progress.rating, ratingScale)}
                           </Badge>
                         </div>
                       )}
@@ -660,6 +1026,26 @@ export default function Account() {
         </div>
       </div>
 
+      {/* MAL Match Review Modal */}
+      {malReviewOpen && (
+        <MALImportReview
+          matches={malMatches}
+          progress={malProgress}
+          onCancel={handleCancelMALImport}
+          onConfirm={handleConfirmMALMatches}
+        />
+      )}
+
+      {/* Import Preview Modal */}
+      {importEntries && (
+        <ImportLibraryDialog
+          entries={importEntries}
+          applying={importLoading}
+          onCancel={() => setImportEntries(null)}
+          onApply={handleApplyImport}
+        />
+      )}
+
       {/* Sign Out Confirmation Modal */}
       {showSignOutModal && (
         <>
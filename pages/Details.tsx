@@ -1,15 +1,26 @@
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useEffect, useState, useCallback, useRef, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { getManhwaDetails, updateProgress, removeFromLibrary, addToLibrary, getManhwaIdBySourceId } from '../services/store';
-import { LibraryItem, ReadingStatus, Manhwa } from '../types';
+import { getManhwaDetails, updateProgress, removeFromLibrary, addToLibrary, updateManhwaMalId, getChapterNotes, getRereads } from '../services/store';
+import { isPendingId } from '../services/offlineQueue';
+import { subscribeToRemoteProgress } from '../services/realtime';
+import { LibraryItem, ReadingStatus, Manhwa, UserProgress, ChapterNote, Reread } from '../types';
 import { Button, Select, Card } from '../components/Common';
-import { ArrowLeft, Trash2, Save, BookOpen, Clock, CheckCircle, Plus, Eye, Edit, Bold, Italic, List, Heading } from 'lucide-react';
-import { getLastChapterNumber, getMangaById } from '../services/mangadex';
+import { ArrowLeft, Trash2, Save, BookOpen, Clock, CheckCircle, Plus, Eye, Edit, Bold, Italic, List, Heading, RefreshCw, EyeOff, ListCollapse, MessageSquare, MessageSquarePlus, Repeat } from 'lucide-react';
+import { DEFAULT_SOURCE, getSourceProvider, parseSourceRouteId } from '../services/sources';
+import { isMALConfigured, getMALMangaById, searchMALMangaDetailed, MALManga } from '../services/myanimelist';
 import { debounce } from '../utils/debounce';
-import { sanitizeInput } from '../utils/sanitize';
 import { buildOptimizedCoverUrl, IMAGE_PRESETS } from '../utils/imageOptimization';
 import { SkeletonDetails } from '../components/SkeletonDetails';
 import Recommendations from '../components/Recommendations';
+import MALInfoCard from '../components/MALInfoCard';
+import ChapterList from '../components/ChapterList';
+import TagManager from '../components/TagManager';
+import MarkdownContent from '../components/MarkdownContent';
+import ChapterNotes from '../components/ChapterNotes';
+import Rereads from '../components/Rereads';
+import { useRatingScale } from '../hooks/useRatingScale';
+import { formatRating, fromRatingScale, RATING_SCALES, toRatingScale } from '../utils/ratings';
+import { getActiveReread, getReadThrough, ordinal } from '../utils/rereads';
 
 export default function Details() {
   const { id } = useParams<{ id: string }>();
@@ -27,12 +38,28 @@ export default function Details() {
   const [addingToLibrary, setAddingToLibrary] = useState(false);
   const [showRemoveModal, setShowRemoveModal] = useState(false);
   const [showNotesPreview, setShowNotesPreview] = useState(false);
+  const [malManga, setMalManga] = useState<MALManga | null>(null);
+  const [malLoading, setMalLoading] = useState(false);
+  const [chapterNotes, setChapterNotes] = useState<ChapterNote[]>([]);
+  const [composeChapter, setComposeChapter] = useState<number | null>(null); // Open new chapter note form
+  const [focusChapter, setFocusChapter] = useState<number | null>(null); // Chapter list jump target
+  const [rereads, setRereads] = useState<Reread[]>([]);
 
   // Form State
   const [status, setStatus] = useState<ReadingStatus>(ReadingStatus.PLAN_TO_READ);
   const [chapter, setChapter] = useState(0);
   const [rating, setRating] = useState(0);
   const [notes, setNotes] = useState('');
+  const ratingScale = useRatingScale();
+
+  // Progress as last loaded or written by this page, to recognise our own
+  // writes coming back over realtime and to tell whether notes are unsaved
+  const persisted = useRef({ status: ReadingStatus.PLAN_TO_READ, last_chapter: 0, rating: 0, notes: '' });
+  const form = useRef({ status, chapter, rating, notes });
+  form.current = { status, chapter, rating, notes };
+  const skipNextAutoSave = useRef(false);
+  // Remote change held back because it would overwrite unsaved notes
+  const [remoteUpdate, setRemoteUpdate] = useState<UserProgress | null>(null);
 
   // Debounced auto-save (saves 2 seconds after user stops typing)
   const debouncedAutoSave = useCallback(
@@ -41,14 +68,15 @@ export default function Details() {
       
       setAutoSaving(true);
       
-      // Sanitize notes before saving
-      const sanitizedNotes = sanitizeInput(notes);
+      // Notes are saved as written; they are sanitized when rendered
+      const savedNotes = notes.trim();
+      persisted.current = { status, last_chapter: chapter, rating, notes: savedNotes };
       
       await updateProgress(id, {
         status,
         last_chapter: chapter,
         rating,
-        notes: sanitizedNotes
+        notes: savedNotes
       });
       
       setAutoSaving(false);
@@ -60,8 +88,10 @@ export default function Details() {
     if (!id) return;
     
     const loadManhwa = async () => {
-      // First try to load from library (database ID)
-      const libraryData = await getManhwaDetails(id);
+      // First try to load from library (database ID). Prefixed source IDs
+      // such as "mal:123" are never library IDs.
+      const route = parseSourceRouteId(id);
+      const libraryData = route.source === DEFAULT_SOURCE ? await getManhwaDetails(id) : null;
       
       if (libraryData) {
         // Found in library
@@ -72,38 +102,47 @@ export default function Details() {
           setChapter(libraryData.progress.last_chapter);
           setRating(libraryData.progress.rating);
           setNotes(libraryData.progress.notes);
+          persisted.current = {
+            status: libraryData.progress.status,
+            last_chapter: libraryData.progress.last_chapter,
+            rating: libraryData.progress.rating,
+            notes: libraryData.progress.notes
+          };
         }
         
         // Get total chapters
         if (libraryData.lastChapter) {
           setTotalChapters(libraryData.lastChapter);
         } else if (libraryData.source_id) {
-          const lastChapter = await getLastChapterNumber(libraryData.source_id);
+          const lastChapter = await getSourceProvider(libraryData.source).getChapterCount(libraryData.source_id);
           if (lastChapter !== null) setTotalChapters(lastChapter);
         }
       } else {
-        // Not in library - try loading from MangaDex (id is source_id)
-        const mangaDexData = await getMangaById(id);
+        // Not in library - load a preview from the title's source
+        const provider = getSourceProvider(route.source);
+        const sourceData = await provider.getById(route.sourceId);
         
-        if (mangaDexData) {
+        if (sourceData) {
           // Create a temporary LibraryItem for preview
           setItem({
-            id: mangaDexData.id, // This is the source_id
-            title: mangaDexData.title,
-            cover_url: mangaDexData.cover_url,
-            description: mangaDexData.description,
-            source_id: mangaDexData.source_id,
-            created_at: mangaDexData.created_at || new Date().toISOString(),
-            lastChapter: mangaDexData.lastChapter,
+            id: sourceData.id, // This is the source_id
+            title: sourceData.title,
+            cover_url: sourceData.cover_url,
+            description: sourceData.description,
+            source: sourceData.source,
+            source_id: sourceData.source_id,
+            mal_id: sourceData.mal_id,
+            created_at: sourceData.created_at || new Date().toISOString(),
+            lastChapter: sourceData.lastChapter,
             progress: undefined // No progress yet
           });
           setIsInLibrary(false);
           
           // Get total chapters
-          if (mangaDexData.lastChapter) {
-            setTotalChapters(mangaDexData.lastChapter);
+          if (sourceData.lastChapter) {
+            setTotalChapters(sourceData.lastChapter);
           } else {
-            const lastChapter = await getLastChapterNumber(id);
+            const lastChapter = await provider.getChapterCount(route.sourceId);
             if (lastChapter !== null) setTotalChapters(lastChapter);
           }
         }
@@ -116,6 +155,71 @@ export default function Details() {
     loadManhwa();
   }, [id]);
   
+  // Load the linked MyAnimeList entry, or find one by title
+  useEffect(() => {
+    if (!item || !isMALConfigured()) return;
+    let cancelled = false;
+
+    const loadMAL = async () => {
+      setMalLoading(true);
+      const mal = item.mal_id
+        ? await getMALMangaById(item.mal_id)
+        : await searchMALMangaDetailed(item.title);
+      if (cancelled) return;
+
+      setMalManga(mal);
+      setMalLoading(false);
+
+      // Remember the automatic match so the lookup is stable next time
+      if (mal && !item.mal_id && isInLibrary && !isPendingId(item.id)) {
+        await updateManhwaMalId(item.id, mal.id);
+      }
+    };
+
+    loadMAL();
+    return () => { cancelled = true; };
+  }, [item?.id]);
+
+  // Chapter notes and re-reads need the title saved in the library
+  const isSavedInLibrary = isInLibrary && !!item && !isPendingId(item.id);
+  useEffect(() => {
+    if (!isSavedInLibrary || !item) {
+      setChapterNotes([]);
+      setRereads([]);
+      return;
+    }
+    let cancelled = false;
+    Promise.all([getChapterNotes(item.id), getRereads(item.id)]).then(([notes, titleRereads]) => {
+      if (cancelled) return;
+      setChapterNotes(notes);
+      setRereads(titleRereads);
+    });
+    return () => { cancelled = true; };
+  }, [item?.id, isSavedInLibrary]);
+
+  const activeReread = getActiveReread(rereads);
+
+  const notedChapters = useMemo(() => new Set(chapterNotes.map(note => note.chapter)), [chapterNotes]);
+
+  // Fall back to MAL's chapter count when the source has none
+  useEffect(() => {
+    if (!loading && totalChapters === null && malManga?.num_chapters) {
+      setTotalChapters(malManga.num_chapters);
+    }
+  }, [loading, totalChapters, malManga]);
+
+  const handleSelectMAL = async (malId: number) => {
+    if (!item) return;
+    setMalLoading(true);
+    const mal = await getMALMangaById(malId);
+    setMalManga(mal);
+    setMalLoading(false);
+
+    if (mal && isInLibrary) {
+      await updateManhwaMalId(item.id, mal.id);
+    }
+  };
+
   // Auto-update chapter to last chapter when status changes to Completed
   useEffect(() => {
     if (initialLoadDone && status === ReadingStatus.COMPLETED && totalChapters !== null && chapter < totalChapters) {
@@ -125,28 +229,99 @@ export default function Details() {
 
   // Auto-save when values change (only for items in library)
   useEffect(() => {
+    if (skipNextAutoSave.current) {
+      skipNextAutoSave.current = false;
+      return;
+    }
     if (id && initialLoadDone && isInLibrary && item) {
       debouncedAutoSave(item.id, status, chapter, rating, notes);
     }
   }, [status, chapter, rating, notes, id, initialLoadDone, debouncedAutoSave, isInLibrary, item]);
 
+  // Show progress saved on another device without writing it back
+  const applyRemoteProgress = (progress: UserProgress) => {
+    persisted.current = {
+      status: progress.status,
+      last_chapter: progress.last_chapter,
+      rating: progress.rating,
+      notes: progress.notes
+    };
+    setRemoteUpdate(null);
+
+    const current = form.current;
+    const changesForm =
+      progress.status !== current.status ||
+      progress.last_chapter !== current.chapter ||
+      progress.rating !== current.rating ||
+      progress.notes !== current.notes;
+    if (!changesForm) return;
+
+    skipNextAutoSave.current = true;
+    setStatus(progress.status);
+    setChapter(progress.last_chapter);
+    setRating(progress.rating);
+    setNotes(progress.notes);
+  };
+
+  // Take the remote status, chapter and rating but keep the local notes;
+  // the auto-save then writes the merged result
+  const keepLocalNotes = (progress: UserProgress) => {
+    persisted.current = {
+      status: progress.status,
+      last_chapter: progress.last_chapter,
+      rating: progress.rating,
+      notes: progress.notes
+    };
+    setStatus(progress.status);
+    setChapter(progress.last_chapter);
+    setRating(progress.rating);
+    setRemoteUpdate(null);
+  };
+
+  // Merge progress changes made on other devices
+  useEffect(() => {
+    if (!item || !isInLibrary || isPendingId(item.id)) return;
+
+    return subscribeToRemoteProgress(item.id, (progress) => {
+      const saved = persisted.current;
+      const isOwnWrite =
+        progress.status === saved.status &&
+        progress.last_chapter === saved.last_chapter &&
+        progress.rating === saved.rating &&
+        progress.notes === saved.notes;
+      if (isOwnWrite) return;
+
+      // A queued auto-save holds the form as it was before this change and
+      // would write it back over the remote progress
+      debouncedAutoSave.cancel();
+
+      const hasUnsavedNotes = form.current.notes.trim() !== saved.notes;
+      if (hasUnsavedNotes && progress.notes !== form.current.notes.trim()) {
+        setRemoteUpdate(progress);
+      } else {
+        applyRemoteProgress(progress);
+      }
+    });
+  }, [item?.id, isInLibrary, debouncedAutoSave]);
+
   const handleSave = async () => {
     if (!item || !isInLibrary) return;
     setSaving(true);
     setSaveSuccess(false);
     
-    // Sanitize notes to prevent XSS attacks
-    const sanitizedNotes = sanitizeInput(notes);
+    // Notes are saved as written; they are sanitized when rendered
+    const savedNotes = notes.trim();
+    persisted.current = { status, last_chapter: chapter, rating, notes: savedNotes };
     
     await updateProgress(item.id, {
       status,
       last_chapter: chapter,
       rating,
-      notes: sanitizedNotes
+      notes: savedNotes
     });
     
-    // Update local state with sanitized value
-    setNotes(sanitizedNotes);
+    // Show the notes as saved (trimmed)
+    setNotes(savedNotes);
     
     setSaving(false);
     setSaveSuccess(true);
@@ -167,14 +342,21 @@ export default function Details() {
         title: item.title,
         cover_url: item.cover_url,
         description: item.description,
+        source: item.source,
         source_id: item.source_id,
+        mal_id: malManga?.id ?? item.mal_id,
         created_at: item.created_at,
         lastChapter: item.lastChapter || totalChapters || undefined
       });
       
       setIsInLibrary(true);
-      // Navigate to the proper database ID URL
-      navigate(`/manhwa/${dbId}`, { replace: true });
+      // Navigate to the proper database ID URL. Titles added offline only
+      // get one once the queued insert syncs, so stay on this page.
+      if (isPendingId(dbId)) {
+        setItem({ ...item, id: dbId });
+      } else {
+        navigate(`/manhwa/${dbId}`, { replace: true });
+      }
     } catch (error) {
       console.error('Error adding to library:', error);
     } finally {
@@ -189,8 +371,9 @@ export default function Details() {
     navigate('/library');
   };
 
+  // Steps land on whole chapters, so 10.5 goes to 11 or 10
   const handleChapterChange = (delta: number) => {
-    setChapter(prev => Math.max(0, prev + delta));
+    setChapter(prev => Math.max(0, delta > 0 ? Math.floor(prev) + delta : Math.ceil(prev) + delta));
   };
 
   const handleChapterInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -201,8 +384,8 @@ export default function Details() {
     if (value === '') {
       return;
     }
-    // Only allow numbers
-    const numValue = parseInt(value, 10);
+    // Only allow numbers (fractional chapters like 10.5 included)
+    const numValue = Number(value);
     if (!isNaN(numValue) && numValue >= 0) {
       setChapter(numValue);
     }
@@ -215,7 +398,7 @@ export default function Details() {
       setChapterInputValue(chapter.toString());
     } else {
       // Parse and set the final value
-      const numValue = parseInt(chapterInputValue, 10);
+      const numValue = Number(chapterInputValue);
       if (!isNaN(numValue) && numValue >= 0) {
         setChapter(numValue);
       } else {
@@ -243,24 +426,13 @@ export default function Details() {
       textarea.setSelectionRange(start + before.length, start + before.length + selectedText.length);
     }, 0);
   };
-  
-  // Simple markdown to HTML renderer
-  const renderMarkdown = (text: string): string => {
-    if (!text) return '';
-    
-    return text
-      // Headers
-      .replace(/^### (.+)$/gm, '<h3 class="text-lg font-bold mt-3 mb-2">$1</h3>')
-      .replace(/^## (.+)$/gm, '<h2 class="text-xl font-bold mt-4 mb-2">$1</h2>')
-      .replace(/^# (.+)$/gm, '<h1 class="text-2xl font-bold mt-4 mb-2">$1</h1>')
-      // Bold
-      .replace(/\*\*(.+?)\*\*/g, '<strong class="font-bold">$1</strong>')
-      // Italic
-      .replace(/\*(.+?)\*/g, '<em class="italic">$1</em>')
-      // Lists
-      .replace(/^- (.+)$/gm, '<li class="ml-4">• $1</li>')
-      // Line breaks
-      .replace(/\n/g, '<br />');
+
+  // Block spoilers need their markers on lines of their own
+  const insertSpoilerBlock = () => {
+    const textarea = document.getElementById('notes-textarea') as HTMLTextAreaElement;
+    const start = textarea?.selectionStart ?? 0;
+    const atLineStart = start === 0 || notes[start - 1] === '\n';
+    insertFormatting(`${atLineStart ? '' : '\n'}:::spoiler\n`, '\n:::\n');
   };
 
   if (loading) {
@@ -310,7 +482,7 @@ export default function Details() {
                     <span className="text-muted-foreground flex items-center gap-2 font-medium">
                        <BookOpen className="w-3 h-3" /> Source
                     </span>
-                    <span className="text-xs font-mono bg-secondary px-2 py-0.5 font-bold">MangaDex</span>
+                    <span className="text-xs font-mono bg-secondary px-2 py-0.5 font-bold">{getSourceProvider(item.source).label}</span>
                  </div>
               </Card>
 
@@ -319,6 +491,15 @@ export default function Details() {
               </Button>
             </>
           )}
+
+          {isMALConfigured() && (
+            <MALInfoCard
+              manga={malManga}
+              title={item.title}
+              loading={malLoading}
+              onSelect={handleSelectMAL}
+            />
+          )}
         </div>
 
         {/* Right Column: Details & Controls */}
@@ -334,6 +515,29 @@ export default function Details() {
             <>
               <div className="h-px bg-border/50" />
 
+              {/* Remote update that conflicts with unsaved notes */}
+              {remoteUpdate && (
+                <div className="p-4 bg-yellow-500/10 border border-yellow-500/30 rounded-lg space-y-3" role="alert">
+                  <div className="flex items-start gap-3">
+                    <RefreshCw className="w-5 h-5 text-yellow-500 shrink-0 mt-0.5" />
+                    <div className="text-sm">
+                      <p className="font-semibold">Updated on another device</p>
+                      <p className="text-muted-foreground">
+                        This title was changed elsewhere while you were editing your notes. Loading the new version will discard your unsaved notes.
+                      </p>
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-2 justify-end">
+                    <Button variant="outline" size="sm" onClick={() => keepLocalNotes(remoteUpdate)} className="cursor-pointer">
+                      Keep My Notes
+                    </Button>
+                    <Button size="sm" onClick={() => applyRemoteProgress(remoteUpdate)} className="cursor-pointer">
+                      Load New Version
+                    </Button>
+                  </div>
+                </div>
+              )}
+
               {/* Controls Grid */}
               <div className="grid gap-6 md:grid-cols-2">
                 {/* Status & Rating */}
@@ -347,26 +551,32 @@ export default function Details() {
                         options={Object.values(ReadingStatus).map(s => ({ value: s, label: s }))}
                         className="w-full font-medium"
                       />
+                      {activeReread && (
+                        <p className="flex items-center gap-1.5 text-sm font-medium text-primary">
+                          <Repeat className="w-4 h-4" /> Re-reading ({ordinal(getReadThrough(rereads, activeReread))} time)
+                        </p>
+                      )}
                    </div>
 
                    <div className="space-y-2">
-                      <label htmlFor="rating-slider" className="text-sm font-semibold text-muted-foreground uppercase tracking-wider">Rating (0-10)</label>
+                      <label htmlFor="rating-slider" className="text-sm font-semibold text-muted-foreground uppercase tracking-wider">Rating (0-{RATING_SCALES[ratingScale].max})</label>
                       <div className="flex items-center gap-4">
                          <div className="relative flex-1">
+                            {/* rating stays as stored until the slider moves, so an untouched rating isn't rounded to the scale */}
                             <input
                                id="rating-slider"
                                name="rating"
                                type="range"
                                min="0"
-                               max="10"
-                               step="1"
-                               value={rating}
-                               onChange={(e) => setRating(Number(e.target.value))}
+                               max={RATING_SCALES[ratingScale].max}
+                               step={RATING_SCALES[ratingScale].step}
+                               value={toRatingScale(rating, ratingScale)}
+                               onChange={(e) => setRating(fromRatingScale(Number(e.target.value), ratingScale))}
                                className="w-full h-2 bg-secondary appearance-none cursor-pointer accent-primary"
                                aria-label="Rating slider"
                             />
                          </div>
-                         <span className="text-2xl font-heading font-bold w-12 text-right text-primary" aria-live="polite">{rating}</span>
+                         <span className="text-2xl font-heading font-bold min-w-12 text-right text-primary tabular-nums" aria-live="polite">{formatRating(rating, ratingScale) || '–'}</span>
                       </div>
                    </div>
                 </div>
@@ -389,8 +599,8 @@ export default function Details() {
                                id="chapter-input"
                                name="chapter"
                                type="text"
-                               inputMode="numeric"
-                               pattern="[0-9]*"
+                               inputMode="decimal"
+                               pattern="[0-9]*\.?[0-9]*"
                                value={chapterInputValue}
                                onChange={handleChapterInputChange}
                                onBlur={handleChapterBlur}
@@ -418,9 +628,42 @@ export default function Details() {
                          <span className="text-2xl font-light font-heading">+</span>
                       </Button>
                    </div>
+                   {isSavedInLibrary && (
+                     <Button
+                       variant="ghost"
+                       size="sm"
+                       onClick={() => setComposeChapter(chapter)}
+                       className="gap-1.5 text-muted-foreground cursor-pointer"
+                     >
+                       <MessageSquarePlus className="w-4 h-4" /> Note on chapter {chapter}
+                     </Button>
+                   )}
                 </div>
               </div>
 
+              {/* Re-reads */}
+              {isSavedInLibrary && (status === ReadingStatus.COMPLETED || rereads.length > 0) && (
+                <div className="space-y-2">
+                  <div className="text-sm font-semibold text-muted-foreground uppercase tracking-wider">Re-reads</div>
+                  <Rereads
+                    manhwaId={item.id}
+                    rereads={rereads}
+                    onChange={setRereads}
+                    canStart={status === ReadingStatus.COMPLETED}
+                    totalChapters={totalChapters}
+                  />
+                </div>
+              )}
+
+              {/* Tags */}
+              {!isPendingId(item.id) && (
+                <TagManager
+                  manhwaId={item.id}
+                  tagIds={item.tagIds || []}
+                  onChange={(tagIds) => setItem(prev => (prev ? { ...prev, tagIds } : prev))}
+                />
+              )}
+
               {/* Notes */}
               <div className="space-y-2">
                 <div className="flex items-center justify-between">
@@ -482,6 +725,22 @@ export default function Details() {
                       >
                         <List className="w-4 h-4" />
                       </button>
+                      <button
+                        type="button"
+                        onClick={() => insertFormatting('||', '||')}
+                        className="p-2 hover:bg-secondary rounded transition-colors cursor-pointer"
+                        title="Inline spoiler"
+                      >
+                        <EyeOff className="w-4 h-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={insertSpoilerBlock}
+                        className="p-2 hover:bg-secondary rounded transition-colors cursor-pointer"
+                        title="Spoiler block"
+                      >
+                        <ListCollapse className="w-4 h-4" />
+                      </button>
                       <div className="flex-1" />
                       <span className="text-xs text-muted-foreground px-2">Markdown supported</span>
                     </div>
@@ -490,7 +749,7 @@ export default function Details() {
                       id="notes-textarea"
                       name="notes"
                       className="flex min-h-[200px] w-full border border-input bg-background px-3 py-2 text-sm ring-offset-background placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50 resize-none font-mono"
-                      placeholder="Write your thoughts...\n\nMarkdown tips:\n**bold** *italic*\n## Heading\n- List item"
+                      placeholder="Write your thoughts...\n\nMarkdown tips:\n**bold** *italic* `code`\n## Heading\n- List item\n1. Numbered item\n> Quote\n[link](https://example.com)\n||spoiler||"
                       value={notes}
                       onChange={(e) => setNotes(e.target.value)}
                       aria-label="Personal notes"
@@ -499,10 +758,12 @@ export default function Details() {
                 )}
                 
                 {showNotesPreview && (
-                  <div 
-                    className="min-h-[200px] w-full border border-input bg-background px-3 py-2 text-sm rounded-lg"
-                    dangerouslySetInnerHTML={{ __html: renderMarkdown(notes) || '<p class="text-muted-foreground">No notes yet. Switch to edit mode to add your thoughts.</p>' }}
-                  />
+                  <div className="min-h-[200px] w-full border border-input bg-background px-3 py-2 text-sm rounded-lg">
+                    <MarkdownContent
+                      text={notes}
+                      emptyMessage="No notes yet. Switch to edit mode to add your thoughts."
+                    />
+                  </div>
                 )}
               </div>
 
@@ -584,8 +845,46 @@ export default function Details() {
         </div>
       </div>
 
+      {/* Chapter Notes */}
+      {isSavedInLibrary && (
+        <div className="mt-8 pt-8 border-t border-border/50">
+          <div className="flex items-center gap-2 mb-4">
+            <MessageSquare className="w-5 h-5 text-primary" />
+            <h2 className="font-heading text-2xl font-bold">Chapter Notes</h2>
+          </div>
+          <ChapterNotes
+            manhwaId={item.id}
+            notes={chapterNotes}
+            onChange={setChapterNotes}
+            currentChapter={chapter}
+            composeChapter={composeChapter}
+            onCompose={setComposeChapter}
+            onJumpToChapter={item.source_id && getSourceProvider(item.source).hasChapterList ? setFocusChapter : undefined}
+          />
+        </div>
+      )}
+
+      {/* Chapter List */}
+      {item.source_id && getSourceProvider(item.source).hasChapterList && (
+        <div className="mt-8 pt-8 border-t border-border/50">
+          <div className="flex items-center gap-2 mb-4">
+            <BookOpen className="w-5 h-5 text-primary" />
+            <h2 className="font-heading text-2xl font-bold">Chapters</h2>
+          </div>
+          <ChapterList
+            mangaId={item.source_id}
+            lastChapter={chapter}
+            onMarkUpTo={isInLibrary ? setChapter : undefined}
+            onAddNote={isSavedInLibrary ? setComposeChapter : undefined}
+            notedChapters={notedChapters}
+            focusChapter={focusChapter}
+            onFocusHandled={() => setFocusChapter(null)}
+          />
+        </div>
+      )}
+
       {/* Recommendations Section */}
-      {item.source_id && <Recommendations mangaId={item.source_id} mangaTitle={item.title} limit={10} />}
+      {item.source_id && <Recommendations mangaId={item.source_id} source={item.source} mangaTitle={item.title} limit={10} />}
 
       {/* Remove from Library Confirmation Modal */}
       {showRemoveModal && (
@@ -2,7 +2,7 @@ import React, { useEffect, useState } from 'react';
 import { getReadingGoals, createReadingGoal, deleteReadingGoal, getAchievements, calculateGoalProgress, updateGoalProgress, checkAchievements } from '../services/store';
 import { ReadingGoal, Achievement, GoalType, TargetType } from '../types';
 import { Button, Card, cn } from '../components/Common';
-import { Target, Trophy, Plus, Trash2, Calendar, BookOpen, TrendingUp, X, BookPlus, Sprout, Library, Gem, Star, CheckCircle, Medal, Crown, ScrollText, Flame, Sparkles, Zap, Award, MessageSquare, Rocket, Palette } from 'lucide-react';
+import { Target, Trophy, Plus, Trash2, Calendar, BookOpen, TrendingUp, X, BookPlus, Sprout, Library, Gem, Star, CheckCircle, Medal, Crown, ScrollText, Flame, Sparkles, Zap, Award, MessageSquare, Rocket, Palette, Repeat, History, RotateCcw } from 'lucide-react';
 import Loader from '../components/Loader';
 
 // Icon mapping for achievements
@@ -10,6 +10,7 @@ const iconMap: Record<string, any> = {
   BookPlus, Sprout, Library, BookOpen, Gem,
   Star, CheckCircle, Medal, Crown,
   ScrollText, Flame, Sparkles, Zap,
+  Repeat, History, RotateCcw,
   Award, MessageSquare, TrendingUp,
   Rocket, Palette
 };
@@ -1,6 +1,5 @@
 import React, { useState } from 'react';
-import { useLibrary } from '../hooks/useLibrary';
-import { removeFromLibrary, updateProgress } from '../services/store';
+import { LibraryViewMode, useLibrary } from '../hooks/useLibrary';
 import { ReadingStatus } from '../types';
 import Loader from '../components/Loader';
 import { Button, cn } from '../components/Common';
@@ -9,20 +8,29 @@ import { LibraryRecent } from '../components/Library/LibraryRecent';
 import { BatchOperationsBar } from '../components/Library/BatchOperationsBar';
 import { LibraryFilterBar } from '../components/Library/LibraryFilterBar';
 import { LibraryGrid } from '../components/Library/LibraryGrid';
+import { LibraryBoard } from '../components/Library/LibraryBoard';
+import { BulkTagsDialog } from '../components/Library/BulkTagsDialog';
+import { MAX_RATING } from '../utils/ratings';
 
 export default function Library() {
   const {
     items,
     recentItems,
     filteredItems,
+    boardItems,
     loading,
+    loadingMore,
     stats,
     filters,
     updateFilters,
-    refreshLibrary
+    tags,
+    refreshTags,
+    updateItemProgress,
+    moveItem,
+    removeItems
   } = useLibrary();
   
-  const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
+  const [viewMode, setViewMode] = useState<LibraryViewMode>('grid');
   const [showFilters, setShowFilters] = useState(false);
   
   // Batch operations state
@@ -30,6 +38,7 @@ export default function Library() {
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [showBulkStatusModal, setShowBulkStatusModal] = useState(false);
   const [bulkStatus, setBulkStatus] = useState<ReadingStatus>(ReadingStatus.READING);
+  const [showBulkTagsModal, setShowBulkTagsModal] = useState(false);
   
   // Batch operation handlers
   const toggleSelectionMode = () => {
@@ -58,43 +67,28 @@ export default function Library() {
   const handleBulkDelete = async () => {
     if (selectedIds.size === 0 || !confirm(`Delete ${selectedIds.size} item(s)?`)) return;
     
-    try {
-      await Promise.all(
-        Array.from(selectedIds).map((id: string) => removeFromLibrary(id))
-      );
-      
-      await refreshLibrary();
-      setSelectedIds(new Set());
-      setSelectionMode(false);
-    } catch (error) {
-      console.error('Error deleting items:', error);
+    const removed = await removeItems(Array.from(selectedIds));
+    if (!removed) {
       alert('Failed to delete some items');
+      return;
     }
+
+    setSelectedIds(new Set());
+    setSelectionMode(false);
   };
   
   const handleBulkStatusChange = async () => {
     if (selectedIds.size === 0) return;
     
-    try {
-      const selectedItems = items.filter(item => selectedIds.has(item.id));
-      
-      await Promise.all(
-        selectedItems.map(item =>
-          updateProgress(item.id, {
-            status: bulkStatus,
-            last_chapter: item.progress?.last_chapter || 0,
-            rating: item.progress?.rating || 0,
-            notes: item.progress?.notes || ''
-          })
-        )
-      );
-      
-      await refreshLibrary();
-      setSelectedIds(new Set());
-      setShowBulkStatusModal(false);
-      setSelectionMode(false);
-    } catch (error) {
-      console.error('Error updating status:', error);
+    const results = await Promise.all(
+      Array.from(selectedIds).map((id: string) => updateItemProgress(id, { status: bulkStatus }))
+    );
+
+    setSelectedIds(new Set());
+    setShowBulkStatusModal(false);
+    setSelectionMode(false);
+
+    if (results.includes(false)) {
       alert('Failed to update some items');
     }
   };
@@ -102,8 +96,11 @@ export default function Library() {
   const handleResetFilters = () => {
       updateFilters({
           ratingMin: 0,
-          ratingMax: 10,
+          ratingMax: MAX_RATING,
           dateFilter: 'all',
+          unreadOnly: false,
+          tagIds: [],
+          tagMode: 'any',
           sortBy: 'updated',
           sortOrder: 'desc'
       });
@@ -120,7 +117,7 @@ export default function Library() {
         <LibraryHeader stats={stats} />
         
         {/* Batch Operations Bar */}
-        {filteredItems.length > 0 && (
+        {filteredItems.length > 0 && viewMode !== 'board' && (
           <BatchOperationsBar 
              selectionMode={selectionMode}
              selectedCount={selectedIds.size}
@@ -129,6 +126,7 @@ export default function Library() {
              onSelectAll={selectAll}
              onDeselectAll={deselectAll}
              onChangeStatus={() => setShowBulkStatusModal(true)}
+             onEditTags={() => setShowBulkTagsModal(true)}
              onDelete={handleBulkDelete}
           />
         )}
@@ -144,24 +142,51 @@ export default function Library() {
             filter={filters.status}
             setFilter={(status) => updateFilters({ status })}
             viewMode={viewMode}
-            setViewMode={setViewMode}
+            setViewMode={(mode) => {
+              setViewMode(mode);
+              // Batch selection isn't available on the board
+              if (mode === 'board') {
+                setSelectionMode(false);
+                setSelectedIds(new Set());
+              }
+            }}
             showFilters={showFilters}
             setShowFilters={setShowFilters}
             filters={filters}
             updateFilters={updateFilters}
             resetFilters={handleResetFilters}
+            tags={tags}
         />
 
         {/* Library Content */}
-        <LibraryGrid 
-            items={filteredItems}
-            viewMode={viewMode}
-            selectionMode={selectionMode}
-            selectedIds={selectedIds}
-            onToggleSelect={toggleSelect}
-        />
+        {loadingMore && (
+          <p className="text-sm text-muted-foreground animate-pulse">Loading the rest of your library...</p>
+        )}
+
+        {viewMode === 'board' ? (
+          <LibraryBoard items={boardItems} onMove={moveItem} />
+        ) : (
+          <LibraryGrid 
+              items={filteredItems}
+              viewMode={viewMode}
+              selectionMode={selectionMode}
+              selectedIds={selectedIds}
+              onToggleSelect={toggleSelect}
+              tags={tags}
+          />
+        )}
       </div>
       
+      {/* Bulk Tags Modal */}
+      {showBulkTagsModal && (
+        <BulkTagsDialog
+          items={items.filter(item => selectedIds.has(item.id))}
+          tags={tags}
+          onTagsChanged={refreshTags}
+          onClose={() => setShowBulkTagsModal(false)}
+        />
+      )}
+
       {/* Bulk Status Change Modal */}
       {showBulkStatusModal && (
         <>
@@ -1,10 +1,11 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Search as SearchIcon, TrendingUp, Clock, CheckCircle, Sparkles } from 'lucide-react';
 import { Button } from '../components/Common';
 import { searchMangaDex, SearchOptions, getRecentlyUpdated, getPopularManga, getCompletedManga, getNewlyAdded } from '../services/mangadex';
 import { addToLibrary, quickStartReading, getLibrary } from '../services/store';
-import { Manhwa } from '../types';
+import { DEFAULT_SOURCE, getDetailsPath, getSourceKey, getSourceProvider } from '../services/sources';
+import { Manhwa, SourceName } from '../types';
 import { useToast } from '../components/Toast';
 import { SearchForm } from '../components/Search/SearchForm';
 import { SearchResults } from '../components/Search/SearchResults';
@@ -17,6 +18,7 @@ interface SearchState {
   results: Manhwa[];
   filters: SearchOptions;
   showFilters: boolean;
+  source?: SourceName;
 }
 
 export default function Search() {
@@ -26,7 +28,9 @@ export default function Search() {
   const [query, setQuery] = useState('');
   const [results, setResults] = useState<Manhwa[]>([]);
   const [loading, setLoading] = useState(false);
+  // Source keys (see getSourceKey) of titles in the library
   const [libraryIds, setLibraryIds] = useState<Set<string>>(new Set());
+  const [source, setSource] = useState<SourceName>(DEFAULT_SOURCE);
   const [showFilters, setShowFilters] = useState(false);
   const [filters, setFilters] = useState<SearchOptions>({
     contentRating: ['safe', 'suggestive'],
@@ -47,6 +51,7 @@ export default function Search() {
   });
   const [browseLoading, setBrowseLoading] = useState(true);
   const [hasSearched, setHasSearched] = useState(false);
+  const searchAbortRef = useRef<AbortController | null>(null);
 
   // Restore state
   useEffect(() => {
@@ -58,6 +63,7 @@ export default function Search() {
         setResults(state.results);
         setFilters(state.filters);
         setShowFilters(state.showFilters);
+        setSource(state.source || DEFAULT_SOURCE);
         if (state.results.length > 0 || state.query) {
           setHasSearched(true);
         }
@@ -69,13 +75,14 @@ export default function Search() {
   
   // Save state
   useEffect(() => {
-    const state: SearchState = { query, results, filters, showFilters };
+    const state: SearchState = { query, results, filters, showFilters, source };
     sessionStorage.setItem(SEARCH_STATE_KEY, JSON.stringify(state));
-  }, [query, results, filters, showFilters]);
+  }, [query, results, filters, showFilters, source]);
 
   useEffect(() => {
     loadBrowseData();
-    getLibrary().then(lib => setLibraryIds(new Set(lib.map(i => i.id))));
+    getLibrary().then(lib => setLibraryIds(new Set(lib.map(getSourceKey))));
+    return () => searchAbortRef.current?.abort();
   }, []);
   
   const loadBrowseData = async () => {
@@ -95,19 +102,32 @@ export default function Search() {
     }
   };
 
-  const handleSearch = async (searchQuery: string) => {
+  const handleSearch = async (searchQuery: string, searchSource: SourceName = source) => {
     if (!searchQuery.trim()) return;
+    // Cancel a search that is still running so its results can't land last
+    searchAbortRef.current?.abort();
+    const controller = new AbortController();
+    searchAbortRef.current = controller;
+
     setLoading(true);
     setHasSearched(true);
     
     try {
-      const data = await searchMangaDex(searchQuery, filters);
-      setResults(data);
+      // Advanced filters only exist for MangaDex
+      const data = searchSource === 'mangadex'
+        ? await searchMangaDex(searchQuery, { ...filters, signal: controller.signal })
+        : await getSourceProvider(searchSource).search(searchQuery, { signal: controller.signal });
+      if (!controller.signal.aborted) setResults(data);
     } finally {
-      setLoading(false);
+      if (searchAbortRef.current === controller) setLoading(false);
     }
   };
   
+  const handleSourceChange = (nextSource: SourceName) => {
+    setSource(nextSource);
+    if (hasSearched && query.trim()) handleSearch(query, nextSource);
+  };
+
   const clearSearch = () => {
     setQuery('');
     setResults([]);
@@ -117,14 +137,14 @@ export default function Search() {
 
   const handleAdd = async (manhwa: Manhwa, e: React.MouseEvent) => {
     e.stopPropagation();
-    setLibraryIds(prev => new Set(prev).add(manhwa.id));
+    setLibraryIds(prev => new Set(prev).add(getSourceKey(manhwa)));
     try {
       await addToLibrary(manhwa);
     } catch (error) {
       console.error('Failed to add to library:', error);
       setLibraryIds(prev => {
         const newSet = new Set(prev);
-        newSet.delete(manhwa.id);
+        newSet.delete(getSourceKey(manhwa));
         return newSet;
       });
     }
@@ -132,7 +152,7 @@ export default function Search() {
   
   const handleStartReading = async (manhwa: Manhwa, e: React.MouseEvent) => {
     e.stopPropagation();
-    setLibraryIds(prev => new Set(prev).add(manhwa.id));
+    setLibraryIds(prev => new Set(prev).add(getSourceKey(manhwa)));
     try {
       await quickStartReading(manhwa);
       showToast(`Started reading "${manhwa.title}"`, 'success');
@@ -141,14 +161,14 @@ export default function Search() {
       showToast('Failed to add to library', 'error');
       setLibraryIds(prev => {
         const newSet = new Set(prev);
-        newSet.delete(manhwa.id);
+        newSet.delete(getSourceKey(manhwa));
         return newSet;
       });
     }
   };
   
   const handleNavigateToManhwa = (manga: Manhwa) => {
-    navigate(`/manhwa/${manga.source_id}`);
+    navigate(getDetailsPath(manga));
   };
 
   return (
@@ -174,6 +194,8 @@ export default function Search() {
         setFilters={setFilters}
         setResults={setResults}
         setHasSearched={setHasSearched}
+        source={source}
+        onSourceChange={handleSourceChange}
       />
 
       {/* Results or Browse Sections */}
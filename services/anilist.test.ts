@@ -0,0 +1,223 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ReadingStatus } from '../types';
+import { startGraphQLStub, type GraphQLStub } from '../test/graphqlStub';
+
+type AniListModule = typeof import('./anilist');
+
+let stub: GraphQLStub;
+let anilist: AniListModule;
+
+const media = (id: number, overrides: Record<string, unknown> = {}) => ({
+  id,
+  idMal: id + 1000,
+  type: 'MANGA',
+  title: { romaji: `Romaji ${id}`, english: `English ${id}`, native: null },
+  description: 'A <i>story</i><br>with markup',
+  chapters: 120,
+  status: 'FINISHED',
+  coverImage: { extraLarge: `https://img.anilist.co/${id}.jpg`, large: null, medium: null },
+  ...overrides,
+});
+
+const entry = (id: number, status: string, score: number | null, overrides: Record<string, unknown> = {}) => ({
+  status,
+  score,
+  progress: 10,
+  notes: null,
+  updatedAt: 1_700_000_000,
+  media: media(id),
+  ...overrides,
+});
+
+const listChunk = (entries: unknown[], hasNextChunk: boolean) => ({
+  body: { data: { MediaListCollection: { hasNextChunk, lists: [{ entries }] } } },
+});
+
+const notFound = { status: 404, body: { data: null, errors: [{ message: 'Not Found.', status: 404 }] } };
+
+beforeAll(async () => {
+  stub = await startGraphQLStub();
+  vi.stubEnv('VITE_ANILIST_URL', stub.url);
+  anilist = await import('./anilist');
+  // Keep the stub from being throttled like the real API
+  const { configureHost } = await import('./httpClient');
+  configureHost(new URL(stub.url).host, { requestsPerSecond: 1000, burst: 1000 });
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await stub.close();
+});
+
+beforeEach(() => {
+  stub.requests.length = 0;
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('searchAniListManga', () => {
+  it('sends the search and returns valid media, dropping malformed ones', async () => {
+    stub.setHandler(() => ({ body: { data: { Page: { media: [media(1), { id: 'bad' }, media(2)] } } } }));
+
+    const results = await anilist.searchAniListManga('solo', 5);
+
+    expect(results.map(m => m.id)).toEqual([1, 2]);
+    expect(stub.requests[0].variables).toEqual({ search: 'solo', perPage: 5 });
+    expect(stub.requests[0].query).toContain('Page(perPage: $perPage)');
+  });
+
+  it('maps results to the app shape through the provider', async () => {
+    stub.setHandler(() => ({ body: { data: { Page: { media: [media(7)] } } } }));
+
+    const [manhwa] = await anilist.anilistProvider.search('x');
+
+    expect(manhwa).toMatchObject({
+      id: '7',
+      title: 'English 7',
+      source: 'anilist',
+      source_id: '7',
+      mal_id: 1007,
+      lastChapter: 120,
+      cover_url: 'https://img.anilist.co/7.jpg',
+      description: 'A story\nwith markup',
+    });
+  });
+
+  it('returns nothing for an empty search without calling AniList', async () => {
+    expect(await anilist.searchAniListManga('')).toEqual([]);
+    expect(stub.requests).toHaveLength(0);
+  });
+});
+
+describe('getAniListMangaById', () => {
+  it('looks up a single media', async () => {
+    stub.setHandler(({ variables }) => ({ body: { data: { Media: media(variables.id) } } }));
+
+    const result = await anilist.getAniListMangaById(42);
+
+    expect(result?.id).toBe(42);
+    expect(await anilist.anilistProvider.getChapterCount('42')).toBe(120);
+  });
+
+  it('returns null for unknown media', async () => {
+    stub.setHandler(() => notFound);
+
+    expect(await anilist.getAniListMangaById(404)).toBeNull();
+    expect(await anilist.anilistProvider.getById('404')).toBeNull();
+  });
+});
+
+describe('fetchAniListMangaList', () => {
+  it('pages through every chunk of the list', async () => {
+    stub.setHandler(({ variables }) =>
+      variables.chunk === 1
+        ? listChunk([entry(1, 'CURRENT', 80), entry(2, 'COMPLETED', 95)], true)
+        : listChunk([entry(3, 'PLANNING', 0)], false)
+    );
+
+    const result = await anilist.fetchAniListMangaList(' reader ');
+
+    expect(result.success).toBe(true);
+    expect(result.data?.map(item => item.id)).toEqual(['1', '2', '3']);
+    expect(stub.requests.map(r => r.variables)).toEqual([
+      { userName: 'reader', chunk: 1, perChunk: 500 },
+      { userName: 'reader', chunk: 2, perChunk: 500 },
+    ]);
+  });
+
+  it('maps statuses and keeps an entry listed twice only once', async () => {
+    stub.setHandler(() => listChunk([
+      entry(1, 'CURRENT', 0),
+      entry(2, 'COMPLETED', 0),
+      entry(3, 'PAUSED', 0),
+      entry(4, 'DROPPED', 0),
+      entry(5, 'PLANNING', 0),
+      entry(6, 'REPEATING', 0),
+      entry(1, 'CURRENT', 0), // Also in a custom list
+    ], false));
+
+    const result = await anilist.fetchAniListMangaList('reader');
+
+    expect(result.data?.map(item => item.progress?.status)).toEqual([
+      ReadingStatus.READING,
+      ReadingStatus.COMPLETED,
+      ReadingStatus.ON_HOLD,
+      ReadingStatus.DROPPED,
+      ReadingStatus.PLAN_TO_READ,
+      ReadingStatus.READING,
+    ]);
+  });
+
+  it('stores POINT_100 scores clamped and rounded to 0-100', async () => {
+    stub.setHandler(() => listChunk([
+      entry(1, 'COMPLETED', 85),
+      entry(2, 'COMPLETED', 150),
+      entry(3, 'COMPLETED', -5),
+      entry(4, 'COMPLETED', 87.5),
+      entry(5, 'COMPLETED', null),
+    ], false));
+
+    const result = await anilist.fetchAniListMangaList('reader');
+
+    expect(result.data?.map(item => item.progress?.rating)).toEqual([85, 100, 0, 88, 0]);
+  });
+
+  it('reports entries that could not be read', async () => {
+    stub.setHandler(() => listChunk([entry(1, 'CURRENT', 70), { status: 'CURRENT', media: null }], false));
+
+    const result = await anilist.fetchAniListMangaList('reader');
+
+    expect(result.data).toHaveLength(1);
+    expect(result.skipped).toBe(1);
+  });
+
+  it('asks for a username', async () => {
+    const result = await anilist.fetchAniListMangaList('  ');
+
+    expect(result).toEqual({ success: false, error: 'Enter an AniList username' });
+    expect(stub.requests).toHaveLength(0);
+  });
+
+  it('reports an unknown user', async () => {
+    stub.setHandler(() => notFound);
+
+    const result = await anilist.fetchAniListMangaList('nobody');
+
+    expect(result).toEqual({ success: false, error: 'AniList user "nobody" not found' });
+  });
+
+  it('reports server errors without retrying the POST', async () => {
+    stub.setHandler(() => ({ status: 500, body: { errors: [{ message: 'Internal Server Error', status: 500 }] } }));
+
+    const result = await anilist.fetchAniListMangaList('reader');
+
+    expect(result).toEqual({ success: false, error: 'Could not load the AniList list' });
+    expect(stub.requests).toHaveLength(1);
+  });
+
+  it('retries after a 429 and then succeeds', async () => {
+    let calls = 0;
+    stub.setHandler(() => {
+      calls++;
+      if (calls === 1) {
+        return { status: 429, headers: { 'Retry-After': '0' }, body: { errors: [{ message: 'Too Many Requests.', status: 429 }] } };
+      }
+      return listChunk([entry(1, 'CURRENT', 60)], false);
+    });
+
+    const result = await anilist.fetchAniListMangaList('reader');
+
+    expect(result.success).toBe(true);
+    expect(result.data).toHaveLength(1);
+    expect(stub.requests).toHaveLength(2);
+  });
+
+  it('gives up after repeated 429s with a rate limit message', async () => {
+    stub.setHandler(() => ({ status: 429, headers: { 'Retry-After': '0' }, body: { errors: [{ message: 'Too Many Requests.', status: 429 }] } }));
+
+    const result = await anilist.fetchAniListMangaList('reader');
+
+    expect(result).toEqual({ success: false, error: 'AniList is limiting requests right now. Try again in a minute.' });
+    expect(stub.requests).toHaveLength(4); // The first try and three retries
+  });
+});
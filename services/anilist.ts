@@ -0,0 +1,312 @@
+// AniList API Service
+// Documentation: https://docs.anilist.co
+// Everything goes through the single GraphQL endpoint as a POST.
+
+import { z } from 'zod';
+import { LibraryItem, Manhwa, ReadingStatus, SourceProvider } from '../types';
+import { configureHost, httpFetch } from './httpClient';
+import {
+  AniListErrorsSchema,
+  AniListListCollectionSchema,
+  AniListListEntry,
+  AniListListEntrySchema,
+  AniListMedia,
+  AniListMediaResponseSchema,
+  AniListMediaSchema,
+  AniListPageSchema,
+  AniListRelatedSchema,
+} from '../utils/schemas';
+import { parseItems, parseResponse, reportDroppedItems } from '../utils/validation';
+import { clampRating } from '../utils/ratings';
+
+// Overridable so tests can point it at a local stub server
+const ANILIST_URL = import.meta.env.VITE_ANILIST_URL || 'https://graphql.anilist.co';
+
+// Entries per request when paging through a user's list (AniList's maximum)
+const LIST_CHUNK_SIZE = 500;
+// Stop paging after this many chunks in case hasNextChunk never turns false
+const MAX_LIST_CHUNKS = 40;
+
+// AniList allows 90 requests per minute per client
+configureHost(new URL(ANILIST_URL).host, {
+  requestsPerSecond: 1.5,
+  burst: 5,
+  maxConcurrent: 2,
+});
+
+const MEDIA_FIELDS = `
+  id
+  idMal
+  type
+  title { romaji english native }
+  description(asHtml: false)
+  chapters
+  status
+  coverImage { extraLarge large medium }
+`;
+
+const SEARCH_QUERY = `
+  query ($search: String, $perPage: Int) {
+    Page(perPage: $perPage) {
+      media(search: $search, type: MANGA, sort: SEARCH_MATCH) { ${MEDIA_FIELDS} }
+    }
+  }
+`;
+
+const MEDIA_QUERY = `
+  query ($id: Int) {
+    Media(id: $id, type: MANGA) { ${MEDIA_FIELDS} }
+  }
+`;
+
+const RELATED_QUERY = `
+  query ($id: Int, $perPage: Int) {
+    Media(id: $id, type: MANGA) {
+      relations { edges { relationType node { ${MEDIA_FIELDS} } } }
+      recommendations(perPage: $perPage, sort: RATING_DESC) {
+        nodes { mediaRecommendation { ${MEDIA_FIELDS} } }
+      }
+    }
+  }
+`;
+
+const LIST_QUERY = `
+  query ($userName: String, $chunk: Int, $perChunk: Int) {
+    MediaListCollection(userName: $userName, type: MANGA, forceSingleCompletedList: true, chunk: $chunk, perChunk: $perChunk) {
+      hasNextChunk
+      lists {
+        entries {
+          status
+          score(format: POINT_100)
+          progress
+          notes
+          updatedAt
+          media { ${MEDIA_FIELDS} }
+        }
+      }
+    }
+  }
+`;
+
+// A GraphQL error reported by AniList (status mirrors the HTTP status)
+class AniListError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'AniListError';
+    this.status = status;
+  }
+}
+
+const context = (endpoint: string) => ({ source: 'anilist' as const, endpoint });
+
+// Run a query and validate the response. AniList answers errors (unknown user,
+// missing media) with a non-2xx status and an errors array, which is thrown
+// as an AniListError.
+const query = async <T extends z.ZodType>(
+  schema: T,
+  document: string,
+  variables: Record<string, unknown>,
+  endpoint: string,
+  signal?: AbortSignal
+): Promise<z.infer<T>> => {
+  const response = await httpFetch(ANILIST_URL, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+    },
+    body: JSON.stringify({ query: document, variables }),
+    signal,
+  });
+
+  const json = await response.json().catch(() => null);
+  const errors = AniListErrorsSchema.safeParse(json).data?.errors;
+  if (!response.ok || errors?.length) {
+    throw new AniListError(errors?.[0]?.message || `AniList request failed: ${response.status}`, response.status);
+  }
+
+  return parseResponse(schema, json, context(endpoint));
+};
+
+const isNotFound = (error: unknown) => error instanceof AniListError && error.status === 404;
+const isRateLimited = (error: unknown) => error instanceof AniListError && error.status === 429;
+
+// Search for manga by title
+export const searchAniListManga = async (search: string, limit: number = 20, signal?: AbortSignal): Promise<AniListMedia[]> => {
+  if (!search) return [];
+
+  try {
+    const data = await query(AniListPageSchema, SEARCH_QUERY, { search, perPage: limit }, 'Page.media', signal);
+    const { items, errors } = parseItems(AniListMediaSchema, data.data.Page.media, context('Page.media'));
+    reportDroppedItems(errors);
+    return items;
+  } catch (error) {
+    if (!signal?.aborted) {
+      console.error('Error searching AniList manga:', error);
+    }
+    return [];
+  }
+};
+
+// Get manga details by AniList ID
+export const getAniListMangaById = async (anilistId: number): Promise<AniListMedia | null> => {
+  try {
+    const data = await query(AniListMediaResponseSchema, MEDIA_QUERY, { id: anilistId }, 'Media');
+    return parseResponse(AniListMediaSchema, data.data.Media, context('Media'));
+  } catch (error) {
+    if (!isNotFound(error)) {
+      console.error('Error fetching AniList manga by ID:', error);
+    }
+    return null;
+  }
+};
+
+// Get related manga (sequels, side stories) followed by user recommendations
+export const getAniListRelatedManga = async (anilistId: number, limit: number = 10): Promise<AniListMedia[]> => {
+  try {
+    const data = await query(AniListRelatedSchema, RELATED_QUERY, { id: anilistId, perPage: limit }, 'Media.relations');
+    const media = data.data.Media;
+    if (!media) return [];
+
+    const nodes = [
+      ...(media.relations?.edges || []).map(edge => edge.node),
+      ...(media.recommendations?.nodes || []).map(node => node.mediaRecommendation),
+    ].filter(node => node != null);
+
+    const { items, errors } = parseItems(AniListMediaSchema, nodes, context('Media.relations'));
+    reportDroppedItems(errors);
+
+    const seen = new Set<number>();
+    return items
+      // Relations include the anime adaptations
+      .filter(manga => {
+        if (manga.type === 'ANIME' || manga.id === anilistId || seen.has(manga.id)) return false;
+        seen.add(manga.id);
+        return true;
+      })
+      .slice(0, limit);
+  } catch (error) {
+    console.error('Error fetching AniList related manga:', error);
+    return [];
+  }
+};
+
+// AniList descriptions can contain <br>, <i> and similar markup even when
+// asHtml is false
+const stripMarkup = (text: string): string =>
+  text.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]+>/g, '').replace(/\n{3,}/g, '\n\n').trim();
+
+// Map an AniList media to the app's Manhwa shape
+const toManhwa = (media: AniListMedia): Manhwa => ({
+  id: String(media.id),
+  title: media.title.english || media.title.romaji || media.title.native || 'Unknown Title',
+  cover_url: media.coverImage?.extraLarge || media.coverImage?.large || media.coverImage?.medium || '',
+  description: media.description ? stripMarkup(media.description) : 'No description available.',
+  source: 'anilist',
+  source_id: String(media.id),
+  mal_id: media.idMal ?? undefined,
+  created_at: new Date().toISOString(),
+  lastChapter: media.chapters || undefined,
+});
+
+export const anilistProvider: SourceProvider = {
+  name: 'anilist',
+  label: 'AniList',
+  hasChapterList: false,
+  search: async (search, options = {}) =>
+    (await searchAniListManga(search, options.limit || 20, options.signal)).map(toManhwa),
+  getById: async sourceId => {
+    const media = await getAniListMangaById(Number(sourceId));
+    return media ? toManhwa(media) : null;
+  },
+  // AniList only knows the chapter count once a series has finished
+  getChapterCount: async sourceId => (await getAniListMangaById(Number(sourceId)))?.chapters || null,
+  // AniList covers are served from its CDN as-is
+  getCover: coverUrl => coverUrl,
+  getRelated: async (sourceId, limit) => (await getAniListRelatedManga(Number(sourceId), limit)).map(toManhwa),
+};
+
+// --- AniList list import ---
+// Public manga lists are readable without signing in, so importing only
+// needs the username.
+
+const ANILIST_STATUS_TO_READING_STATUS: Record<AniListListEntry['status'], ReadingStatus> = {
+  CURRENT: ReadingStatus.READING,
+  REPEATING: ReadingStatus.READING,
+  COMPLETED: ReadingStatus.COMPLETED,
+  PAUSED: ReadingStatus.ON_HOLD,
+  DROPPED: ReadingStatus.DROPPED,
+  PLANNING: ReadingStatus.PLAN_TO_READ,
+};
+
+const toLibraryItem = (entry: AniListListEntry): LibraryItem => {
+  const manhwa = toManhwa(entry.media);
+  return {
+    ...manhwa,
+    progress: {
+      id: '',
+      manhwa_id: manhwa.id,
+      status: ANILIST_STATUS_TO_READING_STATUS[entry.status],
+      last_chapter: Math.max(0, entry.progress || 0),
+      // Requested as POINT_100 whatever the user's own scale is, which is
+      // the stored scale (utils/ratings.ts)
+      rating: clampRating(entry.score || 0),
+      notes: entry.notes || '',
+      // updatedAt is in seconds. Without it, fall back to the epoch so titles
+      // already tracked here show up as conflicts, not silent updates.
+      updated_at: new Date((entry.updatedAt || 0) * 1000).toISOString(),
+    },
+  };
+};
+
+/**
+ * Fetch a user's AniList manga list as library items, ready for planImportItems.
+ * Large lists come in chunks, which are fetched one after another.
+ */
+export const fetchAniListMangaList = async (
+  userName: string
+): Promise<{ success: boolean; data?: LibraryItem[]; skipped?: number; error?: string }> => {
+  const name = userName.trim();
+  if (!name) return { success: false, error: 'Enter an AniList username' };
+
+  try {
+    const rawEntries: unknown[] = [];
+    for (let chunk = 1; chunk <= MAX_LIST_CHUNKS; chunk++) {
+      const data = await query(
+        AniListListCollectionSchema,
+        LIST_QUERY,
+        { userName: name, chunk, perChunk: LIST_CHUNK_SIZE },
+        'MediaListCollection'
+      );
+      const collection = data.data.MediaListCollection;
+      const entries = (collection?.lists || []).flatMap(list => list.entries);
+      rawEntries.push(...entries);
+      if (!collection?.hasNextChunk || entries.length === 0) break;
+    }
+
+    const { items: entries, errors } = parseItems(AniListListEntrySchema, rawEntries, context('MediaListCollection'));
+    reportDroppedItems(errors);
+
+    // Custom lists repeat entries that are also in a status list
+    const seen = new Set<number>();
+    const items: LibraryItem[] = [];
+    entries.forEach(entry => {
+      if (seen.has(entry.media.id)) return;
+      seen.add(entry.media.id);
+      items.push(toLibraryItem(entry));
+    });
+
+    return { success: true, data: items, skipped: errors.length };
+  } catch (error) {
+    if (isNotFound(error)) {
+      return { success: false, error: `AniList user "${name}" not found` };
+    }
+    if (isRateLimited(error)) {
+      return { success: false, error: 'AniList is limiting requests right now. Try again in a minute.' };
+    }
+    console.error('Error fetching AniList manga list:', error);
+    return { success: false, error: 'Could not load the AniList list' };
+  }
+};
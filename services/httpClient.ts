@@ -0,0 +1,287 @@
+// Shared HTTP client for third-party APIs
+// Every request goes through a per-host queue with a token bucket budget and a
+// concurrency cap, so callers can fire requests in parallel (Promise.all)
+// without tripping upstream rate limits. 429 and 5xx responses are retried
+// with exponential backoff; a 429 pauses the whole host until the time given
+// by X-RateLimit-Retry-After / Retry-After. Identical GETs that are in flight
+// share one request.
+
+export interface HostBudget {
+  /** Sustained request rate */
+  requestsPerSecond: number;
+  /** Requests allowed in a burst before the rate applies (default: requestsPerSecond) */
+  burst?: number;
+  /** Requests allowed in flight at once (default: 4) */
+  maxConcurrent?: number;
+}
+
+export interface HttpRequestOptions extends RequestInit {
+  /** Retries after a 429 or 5xx response (default: 3) */
+  retries?: number;
+}
+
+const DEFAULT_BUDGET: HostBudget = { requestsPerSecond: 10, burst: 10, maxConcurrent: 6 };
+const DEFAULT_RETRIES = 3;
+const BACKOFF_BASE_MS = 500;
+const BACKOFF_MAX_MS = 30_000;
+
+interface Waiter {
+  resolve: () => void;
+  reject: (reason: unknown) => void;
+  signal?: AbortSignal | null;
+}
+
+interface HostState {
+  budget: Required<HostBudget>;
+  tokens: number;
+  updatedAt: number;
+  active: number;
+  // No requests start before this time (set by 429 responses)
+  pausedUntil: number;
+  queue: Waiter[];
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+interface SharedRequest {
+  key: string;
+  response: Promise<Response>;
+  controller: AbortController;
+  callers: number;
+}
+
+const hosts = new Map<string, HostState>();
+const inFlight = new Map<string, SharedRequest>();
+
+const withDefaults = (budget: HostBudget): Required<HostBudget> => ({
+  requestsPerSecond: budget.requestsPerSecond,
+  burst: budget.burst ?? budget.requestsPerSecond,
+  maxConcurrent: budget.maxConcurrent ?? 4,
+});
+
+const getHostState = (host: string): HostState => {
+  let state = hosts.get(host);
+  if (!state) {
+    const budget = withDefaults(DEFAULT_BUDGET);
+    state = { budget, tokens: budget.burst, updatedAt: Date.now(), active: 0, pausedUntil: 0, queue: [], timer: null };
+    hosts.set(host, state);
+  }
+  return state;
+};
+
+/**
+ * Set the request budget for a host (e.g. 'api.mangadex.org').
+ * Hosts without a budget use DEFAULT_BUDGET.
+ */
+export const configureHost = (host: string, budget: HostBudget): void => {
+  const state = getHostState(host);
+  state.budget = withDefaults(budget);
+  state.tokens = Math.min(state.tokens, state.budget.burst);
+};
+
+const abortError = (signal: AbortSignal): unknown =>
+  signal.reason ?? new DOMException('The operation was aborted.', 'AbortError');
+
+const refill = (state: HostState, now: number) => {
+  const elapsed = (now - state.updatedAt) / 1000;
+  state.tokens = Math.min(state.budget.burst, state.tokens + elapsed * state.budget.requestsPerSecond);
+  state.updatedAt = now;
+};
+
+// Start as many queued requests as the host's budget allows, and schedule
+// another pass for when the next token (or the end of a pause) is due
+const pump = (host: string) => {
+  const state = getHostState(host);
+  const now = Date.now();
+  refill(state, now);
+
+  if (state.timer) {
+    clearTimeout(state.timer);
+    state.timer = null;
+  }
+
+  while (state.queue.length > 0 && now >= state.pausedUntil && state.tokens >= 1 && state.active < state.budget.maxConcurrent) {
+    const waiter = state.queue.shift()!;
+    if (waiter.signal?.aborted) continue;
+    state.tokens -= 1;
+    state.active += 1;
+    waiter.resolve();
+  }
+
+  if (state.queue.length > 0 && state.active < state.budget.maxConcurrent) {
+    const untilToken = ((1 - state.tokens) / state.budget.requestsPerSecond) * 1000;
+    const delay = Math.max(state.pausedUntil - now, untilToken, 0);
+    state.timer = setTimeout(() => pump(host), Math.ceil(delay));
+  }
+};
+
+// Wait for a slot on the host. Resolves once the request may start.
+const acquire = (host: string, signal?: AbortSignal | null): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError(signal));
+      return;
+    }
+
+    const state = getHostState(host);
+    const waiter: Waiter = { resolve, reject, signal };
+    state.queue.push(waiter);
+
+    signal?.addEventListener('abort', () => {
+      const index = state.queue.indexOf(waiter);
+      if (index !== -1) {
+        state.queue.splice(index, 1);
+        reject(abortError(signal));
+      }
+    }, { once: true });
+
+    pump(host);
+  });
+
+const release = (host: string) => {
+  const state = getHostState(host);
+  state.active = Math.max(0, state.active - 1);
+  pump(host);
+};
+
+const sleep = (ms: number, signal?: AbortSignal | null): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError(signal));
+      return;
+    }
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(abortError(signal));
+    }, { once: true });
+  });
+
+/**
+ * Milliseconds to wait before retrying a rate limited response, if the
+ * server said. MangaDex sends X-RateLimit-Retry-After as a Unix timestamp;
+ * Retry-After is either seconds or an HTTP date.
+ */
+const retryAfterMs = (response: Response): number | null => {
+  const mangadexRetry = Number(response.headers.get('X-RateLimit-Retry-After'));
+  if (Number.isFinite(mangadexRetry) && mangadexRetry > 0) {
+    return Math.max(0, mangadexRetry * 1000 - Date.now());
+  }
+
+  const retryAfter = response.headers.get('Retry-After');
+  if (!retryAfter) return null;
+  const seconds = Number(retryAfter);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(retryAfter);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+};
+
+const backoffMs = (attempt: number): number => {
+  const delay = Math.min(BACKOFF_MAX_MS, BACKOFF_BASE_MS * 2 ** attempt);
+  // Jitter so parallel callers don't retry in lockstep
+  return delay / 2 + Math.random() * (delay / 2);
+};
+
+// 429s were never processed so they are always safe to repeat; 5xx only for reads
+const isRetryable = (status: number, method: string) =>
+  status === 429 || (status >= 500 && (method === 'GET' || method === 'HEAD'));
+
+// Run one request through the host queue, retrying 429/5xx responses
+const fetchWithRetries = async (url: string, host: string, options: HttpRequestOptions): Promise<Response> => {
+  const { retries = DEFAULT_RETRIES, ...init } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    await acquire(host, init.signal);
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } finally {
+      release(host);
+    }
+
+    if (!isRetryable(response.status, (init.method || 'GET').toUpperCase()) || attempt >= retries) {
+      return response;
+    }
+
+    const serverDelay = retryAfterMs(response);
+    const delay = serverDelay ?? backoffMs(attempt);
+    if (response.status === 429) {
+      // Everyone waiting on this host would hit the same limit
+      const state = getHostState(host);
+      state.pausedUntil = Math.max(state.pausedUntil, Date.now() + delay);
+    }
+    console.warn(`Request to ${host} failed with ${response.status}, retrying in ${Math.round(delay)}ms`);
+    await sleep(delay, init.signal);
+  }
+};
+
+const dedupeKey = (url: string, options: HttpRequestOptions): string | null => {
+  const method = (options.method || 'GET').toUpperCase();
+  if (method !== 'GET' || options.body) return null;
+  const headers = Array.from(new Headers(options.headers).entries()).sort();
+  return `${url} ${JSON.stringify(headers)}`;
+};
+
+const forgetShared = (shared: SharedRequest) => {
+  if (inFlight.get(shared.key) === shared) inFlight.delete(shared.key);
+};
+
+// Resolve with the shared response, or reject as soon as this caller aborts
+const waitForShared = (shared: SharedRequest, signal?: AbortSignal | null): Promise<Response> => {
+  if (!signal) return shared.response.then(response => response.clone());
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      // Cancel the upstream request once nobody is waiting for it
+      shared.callers -= 1;
+      if (shared.callers === 0) {
+        forgetShared(shared);
+        shared.controller.abort(abortError(signal));
+      }
+      reject(abortError(signal));
+    };
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+    shared.response.then(
+      response => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(response.clone());
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+};
+
+/**
+ * fetch() with per-host rate limiting, retries and GET deduplication.
+ * Like fetch, it resolves with non-2xx responses (after retries are used up)
+ * and rejects on network errors or when options.signal aborts.
+ */
+export const httpFetch = (url: string, options: HttpRequestOptions = {}): Promise<Response> => {
+  const host = new URL(url, typeof location !== 'undefined' ? location.origin : undefined).host;
+  const key = dedupeKey(url, options);
+  if (!key) return fetchWithRetries(url, host, options);
+
+  let shared = inFlight.get(key);
+  if (!shared) {
+    // The shared request has its own controller so one caller aborting
+    // doesn't cancel it for the others
+    const controller = new AbortController();
+    const response = fetchWithRetries(url, host, { ...options, signal: controller.signal });
+    const entry: SharedRequest = { key, response, controller, callers: 0 };
+    inFlight.set(key, entry);
+    response.then(
+      () => forgetShared(entry),
+      () => forgetShared(entry)
+    );
+    shared = entry;
+  }
+
+  shared.callers += 1;
+  return waitForShared(shared, options.signal);
+};
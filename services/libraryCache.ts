@@ -0,0 +1,96 @@
+// Library cache
+// Keeps the last fetched library per user in memory and IndexedDB so pages
+// can render immediately while store.ts revalidates in the background.
+// Mutations in store.ts patch the cached copy instead of throwing it away.
+
+import { LibraryItem } from '../types';
+import { idbClear, idbGet, idbPut } from '../utils/indexedDb';
+
+interface CachedLibrary {
+  userId: string;
+  items: LibraryItem[];
+  fetchedAt: number; // 0 when the copy is known to be out of date
+}
+
+let memoryCache: CachedLibrary | null = null;
+
+type CacheListener = (items: LibraryItem[]) => void;
+const listeners = new Set<CacheListener>();
+
+/**
+ * Subscribe to changes of the cached library (revalidations and mutations).
+ * Returns an unsubscribe function.
+ */
+export const subscribeToLibraryCache = (listener: CacheListener): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const persist = async (cache: CachedLibrary) => {
+  memoryCache = cache;
+  listeners.forEach(listener => listener(cache.items));
+  try {
+    await idbPut('library_cache', cache);
+  } catch (error) {
+    console.error('Error saving library cache:', error);
+  }
+};
+
+/**
+ * Read the cached library for a user, from memory or IndexedDB
+ */
+export const readLibraryCache = async (userId: string): Promise<CachedLibrary | null> => {
+  if (memoryCache?.userId === userId) return memoryCache;
+
+  try {
+    const stored = await idbGet<CachedLibrary>('library_cache', userId);
+    if (stored) memoryCache = stored;
+    return stored || null;
+  } catch (error) {
+    console.error('Error reading library cache:', error);
+    return null;
+  }
+};
+
+/**
+ * Replace the cached library with freshly fetched data
+ */
+export const writeLibraryCache = (userId: string, items: LibraryItem[]): Promise<void> =>
+  persist({ userId, items, fetchedAt: Date.now() });
+
+/**
+ * Apply a change to the cached copy, if one is loaded for this user.
+ * Pass markStale when the patch is only an approximation (e.g. a new title
+ * whose row IDs are not known yet) so the next read revalidates.
+ */
+export const updateLibraryCache = async (
+  userId: string,
+  update: (items: LibraryItem[]) => LibraryItem[],
+  markStale = false
+): Promise<void> => {
+  const cache = await readLibraryCache(userId);
+  if (!cache) return;
+  await persist({ userId, items: update(cache.items), fetchedAt: markStale ? 0 : cache.fetchedAt });
+};
+
+/**
+ * Patch a single cached title by library ID
+ */
+export const patchCachedItem = (
+  userId: string,
+  id: string,
+  patch: (item: LibraryItem) => LibraryItem
+): Promise<void> =>
+  updateLibraryCache(userId, items => items.map(item => (item.id === id ? patch(item) : item)));
+
+/**
+ * Drop every cached library, e.g. on sign out
+ */
+export const clearLibraryCache = async (): Promise<void> => {
+  memoryCache = null;
+  try {
+    await idbClear('library_cache');
+  } catch (error) {
+    console.error('Error clearing library cache:', error);
+  }
+};
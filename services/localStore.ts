@@ -0,0 +1,653 @@
+// Guest mode storage
+// Without an account the library, reading events, tags, chapter notes,
+// re-reads, goals and achievements are kept in IndexedDB instead of Supabase. store.ts hands its calls to the
+// functions here while guest mode is on; they mirror the store.ts versions.
+// When the guest signs in, migrateGuestData (store.ts) copies everything to
+// their account.
+
+import { Achievement, ChapterNote, ChapterNoteInput, LibraryItem, Manhwa, ReadingEvent, ReadingGoal, ReadingStatus, Reread, RereadInput, SourceName, Tag, UserProfile, UserProgress } from '../types';
+import { DEFAULT_SOURCE, getSourceKey, getSourceProvider } from './sources';
+import { writeLibraryCache } from './libraryCache';
+import { idbClear, idbDelete, idbGet, idbGetAll, idbPut, StoreName } from '../utils/indexedDb';
+import { diffProgress, ProgressEvent, rereadChapterEvent } from '../utils/readingEvents';
+import { sortChapterNotes } from '../utils/chapterNotes';
+import { getActiveReread, sortRereads, todayDate } from '../utils/rereads';
+
+// Stands in for the user ID in guest records and the library cache
+export const GUEST_USER_ID = 'guest';
+
+// Holds the time guest mode was turned on
+const GUEST_MODE_KEY = 'dooftrack_guest_since';
+
+// A library title as stored locally. chaptersCheckedAt matches the
+// chapters_checked_at column of the manhwa table.
+export interface GuestTitle extends LibraryItem {
+  chaptersCheckedAt?: string;
+}
+
+type GuestModeListener = (enabled: boolean) => void;
+const guestModeListeners = new Set<GuestModeListener>();
+
+const getGuestSince = (): string | null => {
+  try {
+    return localStorage.getItem(GUEST_MODE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const isGuestMode = (): boolean => !!getGuestSince();
+
+export const setGuestMode = (enabled: boolean) => {
+  if (enabled === isGuestMode()) return;
+  if (enabled) {
+    localStorage.setItem(GUEST_MODE_KEY, new Date().toISOString());
+  } else {
+    localStorage.removeItem(GUEST_MODE_KEY);
+  }
+  guestModeListeners.forEach(listener => listener(enabled));
+};
+
+/**
+ * Subscribe to guest mode being turned on or off.
+ * Returns an unsubscribe function.
+ */
+export const subscribeToGuestMode = (listener: GuestModeListener): (() => void) => {
+  guestModeListeners.add(listener);
+  return () => { guestModeListeners.delete(listener); };
+};
+
+/**
+ * Stand-in profile for stats and exports while in guest mode
+ */
+export const getGuestProfile = (): UserProfile => ({
+  id: GUEST_USER_ID,
+  email: '',
+  username: 'Guest',
+  created_at: getGuestSince() || new Date().toISOString(),
+});
+
+const toLibraryItem = ({ chaptersCheckedAt, ...item }: GuestTitle): LibraryItem => ({
+  ...item,
+  cover_url: getSourceProvider(item.source).getCover(item.cover_url || ''),
+});
+
+const getTitles = async (): Promise<GuestTitle[]> => {
+  const titles = await idbGetAll<GuestTitle>('guest_library');
+  return titles.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+};
+
+const findBySource = async (sourceId: string, source: SourceName): Promise<GuestTitle | undefined> => {
+  const key = getSourceKey({ source, source_id: sourceId, id: sourceId });
+  return (await getTitles()).find(title => getSourceKey(title) === key);
+};
+
+// Push the current library to library cache subscribers (useLibrary)
+const publishLibrary = async () => {
+  await writeLibraryCache(GUEST_USER_ID, (await getTitles()).map(toLibraryItem));
+};
+
+const putReadingEvents = async (manhwaId: string, events: ProgressEvent[]): Promise<void> => {
+  const createdAt = new Date().toISOString();
+  for (const event of events) {
+    const stored: ReadingEvent = {
+      id: crypto.randomUUID(),
+      user_id: GUEST_USER_ID,
+      manhwa_id: manhwaId,
+      event_type: event.event_type,
+      from_chapter: event.from_chapter ?? null,
+      to_chapter: event.to_chapter ?? null,
+      status: (event.status as ReadingStatus) ?? null,
+      rating: event.rating ?? null,
+      reread: event.reread ?? false,
+      created_at: createdAt,
+    };
+    await idbPut('guest_events', stored);
+  }
+};
+
+const logReadingEvents = (manhwaId: string, previous: UserProgress | null, next: UserProgress): Promise<void> =>
+  putReadingEvents(manhwaId, diffProgress(previous, next));
+
+export const getLibrary = async (): Promise<LibraryItem[]> => {
+  try {
+    return (await getTitles()).map(toLibraryItem);
+  } catch (error) {
+    console.error('Error reading guest library:', error);
+    return [];
+  }
+};
+
+export const isInLibrary = async (sourceId: string, source: SourceName = DEFAULT_SOURCE): Promise<boolean> => {
+  try {
+    return !!(await findBySource(sourceId, source));
+  } catch (error) {
+    console.error('Error checking guest library:', error);
+    return false;
+  }
+};
+
+export const getManhwaIdBySourceId = async (sourceId: string, source: SourceName = DEFAULT_SOURCE): Promise<string | null> => {
+  try {
+    return (await findBySource(sourceId, source))?.id || null;
+  } catch (error) {
+    console.error('Error getting guest title by source_id:', error);
+    return null;
+  }
+};
+
+// Returns the local ID of the title after adding
+export const addToLibrary = async (manhwa: Manhwa, status: ReadingStatus = ReadingStatus.PLAN_TO_READ): Promise<string> => {
+  const source = manhwa.source || DEFAULT_SOURCE;
+  const sourceId = manhwa.source_id || manhwa.id;
+  const existing = await findBySource(sourceId, source);
+  if (existing) return existing.id;
+
+  const now = new Date().toISOString();
+  const id = crypto.randomUUID();
+  const progress: UserProgress = { id: crypto.randomUUID(), manhwa_id: id, status, last_chapter: 0, rating: 0, notes: '', updated_at: now };
+
+  await idbPut<GuestTitle>('guest_library', {
+    id,
+    title: manhwa.title,
+    cover_url: manhwa.cover_url,
+    description: manhwa.description,
+    source,
+    source_id: sourceId,
+    mal_id: manhwa.mal_id,
+    created_at: now,
+    lastChapter: manhwa.lastChapter,
+    lastChapterSeenAt: manhwa.lastChapter ? now : undefined,
+    chaptersCheckedAt: now,
+    progress,
+  });
+  await logReadingEvents(id, null, progress);
+  await publishLibrary();
+
+  return id;
+};
+
+export const updateProgress = async (manhwaId: string, updates: Partial<UserProgress>): Promise<UserProgress | null> => {
+  try {
+    const title = await idbGet<GuestTitle>('guest_library', manhwaId);
+    if (!title) return null;
+
+    const previous = title.progress || null;
+    const saved: UserProgress = {
+      id: previous?.id || crypto.randomUUID(),
+      manhwa_id: manhwaId,
+      status: updates.status || ReadingStatus.PLAN_TO_READ,
+      last_chapter: updates.last_chapter ?? 0,
+      rating: updates.rating ?? 0,
+      notes: updates.notes ?? '',
+      sort_index: updates.sort_index !== undefined ? updates.sort_index : previous?.sort_index ?? null,
+      updated_at: new Date().toISOString(),
+    };
+
+    await idbPut<GuestTitle>('guest_library', { ...title, progress: saved });
+    await logReadingEvents(manhwaId, previous, saved);
+    await publishLibrary();
+    return saved;
+  } catch (error) {
+    console.error('Error saving guest progress:', error);
+    return null;
+  }
+};
+
+export const updateSortIndex = async (manhwaId: string, sortIndex: number): Promise<boolean> => {
+  try {
+    const title = await idbGet<GuestTitle>('guest_library', manhwaId);
+    if (!title?.progress) return false;
+    await idbPut<GuestTitle>('guest_library', { ...title, progress: { ...title.progress, sort_index: sortIndex } });
+    await publishLibrary();
+    return true;
+  } catch (error) {
+    console.error('Error updating guest board position:', error);
+    return false;
+  }
+};
+
+export const updateManhwaMalId = async (manhwaId: string, malId: number | null): Promise<boolean> => {
+  try {
+    const title = await idbGet<GuestTitle>('guest_library', manhwaId);
+    if (!title) return false;
+    await idbPut<GuestTitle>('guest_library', { ...title, mal_id: malId ?? undefined });
+    await publishLibrary();
+    return true;
+  } catch (error) {
+    console.error('Error updating guest MAL link:', error);
+    return false;
+  }
+};
+
+export const getManhwaDetails = async (id: string): Promise<LibraryItem | null> => {
+  try {
+    const title = await idbGet<GuestTitle>('guest_library', id);
+    return title ? toLibraryItem(title) : null;
+  } catch (error) {
+    console.error('Error reading guest title:', error);
+    return null;
+  }
+};
+
+export const removeFromLibrary = async (id: string): Promise<void> => {
+  await idbDelete('guest_library', id);
+  // Events, chapter notes and re-reads go with their title, like the foreign
+  // key cascades
+  const events = await idbGetAll<ReadingEvent>('guest_events');
+  for (const event of events.filter(e => e.manhwa_id === id)) {
+    await idbDelete('guest_events', event.id);
+  }
+  const notes = await idbGetAll<ChapterNote>('guest_chapter_notes');
+  for (const note of notes.filter(n => n.manhwa_id === id)) {
+    await idbDelete('guest_chapter_notes', note.id);
+  }
+  const rereads = await idbGetAll<Reread>('guest_rereads');
+  for (const reread of rereads.filter(r => r.manhwa_id === id)) {
+    await idbDelete('guest_rereads', reread.id);
+  }
+  await publishLibrary();
+};
+
+/**
+ * Titles with one of the given statuses whose chapters were last checked
+ * before cutoff (see refreshLatestChapters in store.ts)
+ */
+export const getTitlesDueForChapterCheck = async (
+  statuses: ReadingStatus[],
+  cutoff: string
+): Promise<{ id: string; source: SourceName | undefined; source_id: string; last_chapter: number | null }[]> => {
+  const titles = await getTitles();
+  return titles
+    .filter(title => title.progress && statuses.includes(title.progress.status))
+    .filter(title => !title.chaptersCheckedAt || title.chaptersCheckedAt < cutoff)
+    .map(title => ({
+      id: title.id,
+      source: title.source,
+      source_id: title.source_id || title.id,
+      last_chapter: title.lastChapter ?? null,
+    }));
+};
+
+/**
+ * Record a successful chapter check, with the new latest chapter if it went
+ * up. Failed checks are not recorded (see refreshLatestChapters in store.ts).
+ */
+export const saveChapterCheck = async (id: string, checkedAt: string, lastChapter?: number): Promise<void> => {
+  const title = await idbGet<GuestTitle>('guest_library', id);
+  if (!title) return;
+  await idbPut<GuestTitle>('guest_library', {
+    ...title,
+    chaptersCheckedAt: checkedAt,
+    ...(lastChapter !== undefined ? { lastChapter, lastChapterSeenAt: checkedAt } : {}),
+  });
+  if (lastChapter !== undefined) await publishLibrary();
+};
+
+// Tags
+
+export const getTags = async (): Promise<Tag[]> => {
+  try {
+    const tags = await idbGetAll<Tag>('guest_tags');
+    return tags.sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error('Error reading guest tags:', error);
+    return [];
+  }
+};
+
+export const createTag = async (name: string, color: string): Promise<Tag | null> => {
+  try {
+    const tag: Tag = { id: crypto.randomUUID(), name, color, created_at: new Date().toISOString() };
+    await idbPut('guest_tags', tag);
+    return tag;
+  } catch (error) {
+    console.error('Error creating guest tag:', error);
+    return null;
+  }
+};
+
+export const updateTag = async (tagId: string, updates: Partial<Pick<Tag, 'name' | 'color'>>): Promise<boolean> => {
+  try {
+    const tag = await idbGet<Tag>('guest_tags', tagId);
+    if (!tag) return false;
+    await idbPut('guest_tags', { ...tag, ...updates });
+    return true;
+  } catch (error) {
+    console.error('Error updating guest tag:', error);
+    return false;
+  }
+};
+
+// Add or remove a tag on the given titles
+const setTitleTag = async (tagId: string, manhwaIds: string[], added: boolean): Promise<boolean> => {
+  try {
+    const ids = new Set(manhwaIds);
+    for (const title of await getTitles()) {
+      if (!ids.has(title.id)) continue;
+      const tagIds = (title.tagIds || []).filter(id => id !== tagId);
+      await idbPut<GuestTitle>('guest_library', { ...title, tagIds: added ? [...tagIds, tagId] : tagIds });
+    }
+    await publishLibrary();
+    return true;
+  } catch (error) {
+    console.error('Error updating guest title tags:', error);
+    return false;
+  }
+};
+
+export const deleteTag = async (tagId: string): Promise<boolean> => {
+  try {
+    await idbDelete('guest_tags', tagId);
+    const tagged = (await getTitles()).filter(title => title.tagIds?.includes(tagId)).map(title => title.id);
+    return setTitleTag(tagId, tagged, false);
+  } catch (error) {
+    console.error('Error deleting guest tag:', error);
+    return false;
+  }
+};
+
+export const addTagToTitles = (tagId: string, manhwaIds: string[]): Promise<boolean> =>
+  setTitleTag(tagId, manhwaIds, true);
+
+export const removeTagFromTitles = (tagId: string, manhwaIds: string[]): Promise<boolean> =>
+  setTitleTag(tagId, manhwaIds, false);
+
+// Chapter Notes
+
+export const getChapterNotes = async (manhwaId: string): Promise<ChapterNote[]> => {
+  try {
+    const notes = await idbGetAll<ChapterNote>('guest_chapter_notes');
+    return sortChapterNotes(notes.filter(note => note.manhwa_id === manhwaId));
+  } catch (error) {
+    console.error('Error reading guest chapter notes:', error);
+    return [];
+  }
+};
+
+export const createChapterNote = async (manhwaId: string, note: ChapterNoteInput): Promise<ChapterNote | null> => {
+  try {
+    const now = new Date().toISOString();
+    const created: ChapterNote = {
+      ...note,
+      id: crypto.randomUUID(),
+      manhwa_id: manhwaId,
+      body: note.body.trim(),
+      created_at: now,
+      updated_at: now,
+    };
+    await idbPut('guest_chapter_notes', created);
+    return created;
+  } catch (error) {
+    console.error('Error creating guest chapter note:', error);
+    return null;
+  }
+};
+
+export const updateChapterNote = async (noteId: string, updates: Partial<ChapterNoteInput>): Promise<ChapterNote | null> => {
+  try {
+    const note = await idbGet<ChapterNote>('guest_chapter_notes', noteId);
+    if (!note) return null;
+    const updated: ChapterNote = {
+      ...note,
+      ...updates,
+      body: (updates.body ?? note.body).trim(),
+      updated_at: new Date().toISOString(),
+    };
+    await idbPut('guest_chapter_notes', updated);
+    return updated;
+  } catch (error) {
+    console.error('Error updating guest chapter note:', error);
+    return null;
+  }
+};
+
+export const deleteChapterNote = async (noteId: string): Promise<boolean> => {
+  try {
+    await idbDelete('guest_chapter_notes', noteId);
+    return true;
+  } catch (error) {
+    console.error('Error deleting guest chapter note:', error);
+    return false;
+  }
+};
+
+// Re-reads
+
+export const getRereads = async (manhwaId?: string): Promise<Reread[]> => {
+  try {
+    const rereads = await idbGetAll<Reread>('guest_rereads');
+    return sortRereads(rereads.filter(reread => !manhwaId || reread.manhwa_id === manhwaId));
+  } catch (error) {
+    console.error('Error reading guest rereads:', error);
+    return [];
+  }
+};
+
+export const startReread = async (manhwaId: string): Promise<Reread | null> => {
+  try {
+    if (getActiveReread(await getRereads(manhwaId))) return null;
+
+    const now = new Date().toISOString();
+    const created: Reread = {
+      id: crypto.randomUUID(),
+      manhwa_id: manhwaId,
+      start_date: todayDate(),
+      end_date: null,
+      last_chapter: 0,
+      rating: null,
+      created_at: now,
+      updated_at: now,
+    };
+    await idbPut('guest_rereads', created);
+    return created;
+  } catch (error) {
+    console.error('Error starting guest reread:', error);
+    return null;
+  }
+};
+
+export const updateReread = async (rereadId: string, updates: RereadInput): Promise<Reread | null> => {
+  try {
+    const reread = await idbGet<Reread>('guest_rereads', rereadId);
+    if (!reread) return null;
+    const updated: Reread = { ...reread, ...updates, updated_at: new Date().toISOString() };
+    await idbPut('guest_rereads', updated);
+
+    const event = rereadChapterEvent(reread.last_chapter, updated.last_chapter);
+    if (event) await putReadingEvents(reread.manhwa_id, [event]);
+    return updated;
+  } catch (error) {
+    console.error('Error updating guest reread:', error);
+    return null;
+  }
+};
+
+export const deleteReread = async (rereadId: string): Promise<boolean> => {
+  try {
+    await idbDelete('guest_rereads', rereadId);
+    return true;
+  } catch (error) {
+    console.error('Error deleting guest reread:', error);
+    return false;
+  }
+};
+
+// Reading Goals
+
+export const getReadingGoals = async (): Promise<ReadingGoal[]> => {
+  try {
+    const goals = await idbGetAll<ReadingGoal>('guest_goals');
+    return goals.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+  } catch (error) {
+    console.error('Error reading guest goals:', error);
+    return [];
+  }
+};
+
+export const createReadingGoal = async (goal: Omit<ReadingGoal, 'id' | 'user_id' | 'current_value' | 'completed' | 'created_at'>): Promise<ReadingGoal | null> => {
+  try {
+    const created: ReadingGoal = {
+      id: crypto.randomUUID(),
+      user_id: GUEST_USER_ID,
+      goal_type: goal.goal_type,
+      target_type: goal.target_type,
+      target_value: goal.target_value,
+      current_value: 0,
+      start_date: goal.start_date,
+      end_date: goal.end_date,
+      completed: false,
+      created_at: new Date().toISOString(),
+    };
+    await idbPut('guest_goals', created);
+    return created;
+  } catch (error) {
+    console.error('Error creating guest goal:', error);
+    return null;
+  }
+};
+
+export const updateGoalProgress = async (goalId: string, currentValue: number, completed: boolean = false): Promise<boolean> => {
+  try {
+    const goal = await idbGet<ReadingGoal>('guest_goals', goalId);
+    if (!goal) return false;
+    await idbPut('guest_goals', { ...goal, current_value: currentValue, completed });
+    return true;
+  } catch (error) {
+    console.error('Error updating guest goal:', error);
+    return false;
+  }
+};
+
+export const deleteReadingGoal = async (goalId: string): Promise<boolean> => {
+  try {
+    await idbDelete('guest_goals', goalId);
+    return true;
+  } catch (error) {
+    console.error('Error deleting guest goal:', error);
+    return false;
+  }
+};
+
+// Reading Events
+
+export const getReadingEvents = async (options: { manhwaId?: string; since?: string; until?: string } = {}): Promise<ReadingEvent[]> => {
+  try {
+    const events = await idbGetAll<ReadingEvent>('guest_events');
+    return events
+      .filter(event => !options.manhwaId || event.manhwa_id === options.manhwaId)
+      .filter(event => !options.since || event.created_at >= options.since)
+      .filter(event => !options.until || event.created_at <= options.until)
+      .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+  } catch (error) {
+    console.error('Error reading guest events:', error);
+    return [];
+  }
+};
+
+// Achievements
+
+export const getAchievements = async (): Promise<Achievement[]> => {
+  try {
+    const achievements = await idbGetAll<Achievement>('guest_achievements');
+    return achievements.sort((a, b) => new Date(b.unlocked_at).getTime() - new Date(a.unlocked_at).getTime());
+  } catch (error) {
+    console.error('Error reading guest achievements:', error);
+    return [];
+  }
+};
+
+export const unlockAchievement = async (achievement: Omit<Achievement, 'id' | 'user_id' | 'unlocked_at'>): Promise<Achievement | null> => {
+  try {
+    const existing = await idbGetAll<Achievement>('guest_achievements');
+    if (existing.some(a => a.achievement_type === achievement.achievement_type)) {
+      return null; // Already unlocked
+    }
+
+    const unlocked: Achievement = {
+      ...achievement,
+      id: crypto.randomUUID(),
+      user_id: GUEST_USER_ID,
+      unlocked_at: new Date().toISOString(),
+    };
+    await idbPut('guest_achievements', unlocked);
+    return unlocked;
+  } catch (error) {
+    console.error('Error unlocking guest achievement:', error);
+    return null;
+  }
+};
+
+// Migration
+
+export interface GuestData {
+  library: GuestTitle[];
+  events: ReadingEvent[];
+  tags: Tag[];
+  chapterNotes: ChapterNote[];
+  rereads: Reread[];
+  goals: ReadingGoal[];
+  achievements: Achievement[];
+}
+
+/**
+ * Everything stored for the guest, with raw (unproxied) cover URLs
+ */
+export const getGuestData = async (): Promise<GuestData> => {
+  const [library, events, tags, chapterNotes, rereads, goals, achievements] = await Promise.all([
+    getTitles(),
+    idbGetAll<ReadingEvent>('guest_events'),
+    idbGetAll<Tag>('guest_tags'),
+    idbGetAll<ChapterNote>('guest_chapter_notes'),
+    idbGetAll<Reread>('guest_rereads'),
+    idbGetAll<ReadingGoal>('guest_goals'),
+    idbGetAll<Achievement>('guest_achievements'),
+  ]);
+  return { library, events, tags, chapterNotes, rereads, goals, achievements };
+};
+
+/**
+ * Whether the guest has saved anything worth migrating
+ */
+export const hasGuestData = async (): Promise<boolean> => {
+  try {
+    const [library, goals] = await Promise.all([
+      idbGetAll<GuestTitle>('guest_library'),
+      idbGetAll<ReadingGoal>('guest_goals'),
+    ]);
+    return library.length > 0 || goals.length > 0;
+  } catch (error) {
+    console.error('Error checking guest data:', error);
+    return false;
+  }
+};
+
+/**
+ * Delete guest records that were copied to the account, so a migration that
+ * stopped part way doesn't copy them again
+ */
+export const deleteGuestRecords = async (storeName: StoreName, ids: string[]): Promise<void> => {
+  for (const id of ids) {
+    await idbDelete(storeName, id);
+  }
+};
+
+/**
+ * Delete all guest data, after migrating it or when the user discards it
+ */
+export const clearGuestData = async (): Promise<void> => {
+  try {
+    await Promise.all([
+      idbDelete('library_cache', GUEST_USER_ID),
+      idbClear('guest_library'),
+      idbClear('guest_events'),
+      idbClear('guest_tags'),
+      idbClear('guest_chapter_notes'),
+      idbClear('guest_rereads'),
+      idbClear('guest_goals'),
+      idbClear('guest_achievements'),
+    ]);
+  } catch (error) {
+    console.error('Error clearing guest data:', error);
+  }
+};
@@ -0,0 +1,75 @@
+// MyAnimeList list import
+// Matches entries from a MAL XML export to MangaDex titles so they can go
+// through the regular import preview (planImportItems / applyLibraryImport).
+
+import { LibraryItem, Manhwa } from '../types';
+import { searchMangaDex } from './mangadex';
+import { MALListEntry } from './myanimelist';
+import { bestTitleMatch } from '../utils/fuzzyMatch';
+import { fromTenPointRating } from '../utils/ratings';
+
+// Matches scoring below this need to be confirmed by the user
+export const MAL_MATCH_CONFIDENCE_THRESHOLD = 0.85;
+
+export interface MALImportMatch {
+  entry: MALListEntry;
+  candidates: Manhwa[];
+  match: Manhwa | null;
+  confidence: number; // 0-1 title similarity of the chosen match
+}
+
+// Look up a single MAL entry on MangaDex and pick the closest title
+export const matchMALEntry = async (entry: MALListEntry): Promise<MALImportMatch> => {
+  const candidates = await searchMangaDex(entry.title, { limit: 5 });
+  const best = bestTitleMatch(entry.title, candidates, candidate => [candidate.title]);
+
+  return {
+    entry,
+    candidates,
+    match: best?.item || null,
+    confidence: best?.score || 0,
+  };
+};
+
+// Match every entry one at a time; searchMangaDex is rate limited anyway.
+// Stops early (returning what was matched so far) when the signal aborts.
+export const matchMALEntries = async (
+  entries: MALListEntry[],
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<MALImportMatch[]> => {
+  const results: MALImportMatch[] = [];
+
+  for (const entry of entries) {
+    if (signal?.aborted) break;
+    results.push(await matchMALEntry(entry));
+    onProgress?.(results.length, entries.length);
+  }
+
+  return results;
+};
+
+export const isLowConfidenceMatch = (match: MALImportMatch): boolean =>
+  !match.match || match.confidence < MAL_MATCH_CONFIDENCE_THRESHOLD;
+
+// Turn confirmed matches into library items. Entries without a match are dropped.
+export const buildMALImportItems = (matches: MALImportMatch[]): LibraryItem[] => {
+  return matches
+    .filter((m): m is MALImportMatch & { match: Manhwa } => m.match !== null)
+    .map(({ entry, match }) => ({
+      ...match,
+      mal_id: entry.malId || undefined,
+      lastChapter: match.lastChapter || entry.totalChapters || undefined,
+      progress: {
+        id: '',
+        manhwa_id: match.id,
+        status: entry.status,
+        last_chapter: entry.chaptersRead,
+        rating: fromTenPointRating(entry.score), // MAL scores are 0-10
+        notes: entry.comments,
+        // MAL exports carry no modification time. Fall back to the epoch so
+        // titles already tracked here show up as conflicts, not silent updates.
+        updated_at: entry.finishDate || entry.startDate || new Date(0).toISOString(),
+      },
+    }));
+};
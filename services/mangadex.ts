@@ -1,27 +1,37 @@
-import { MangaDexResult, Manhwa } from '../types';
+import { Manhwa, Chapter, ChapterVolume, SourceProvider } from '../types';
+import { compareChapterNumbers } from '../utils/chapters';
+import {
+  MangaDexAggregateSchema,
+  MangaDexChapterSchema,
+  MangaDexCollectionSchema,
+  MangaDexEntitySchema,
+  MangaDexManga,
+  MangaDexMangaSchema,
+  MangaDexTagSchema,
+} from '../utils/schemas';
+import { parseItems, parseResponse, reportDroppedItems, ResponseValidationError } from '../utils/validation';
+import { configureHost, httpFetch, HttpRequestOptions } from './httpClient';
 
 const isBrowser = typeof window !== 'undefined';
 const useProxy = isBrowser && !location.hostname.includes('localhost');
 const BASE_URL = useProxy ? '/api/mangadex' : 'https://api.mangadex.org';
 const COVER_URL = useProxy ? '/api/cover' : 'https://uploads.mangadex.org/covers';
 
-// Rate limiting helper
-let lastRequestTime = 0;
-const MIN_REQUEST_INTERVAL = 200; // 5 requests per second = 200ms between requests
+// MangaDex allows about 5 requests per second per client
+configureHost(useProxy ? location.host : 'api.mangadex.org', {
+  requestsPerSecond: 5,
+  burst: 5,
+  maxConcurrent: 4,
+});
 
-const rateLimitedFetch = async (url: string, options?: RequestInit): Promise<Response> => {
-  const now = Date.now();
-  const timeSinceLastRequest = now - lastRequestTime;
-  
-  if (timeSinceLastRequest < MIN_REQUEST_INTERVAL) {
-    await new Promise(resolve => setTimeout(resolve, MIN_REQUEST_INTERVAL - timeSinceLastRequest));
-  }
-  
-  lastRequestTime = Date.now();
+const rateLimitedFetch = (url: string, options?: HttpRequestOptions): Promise<Response> => {
   const fetchUrl = url.startsWith('http') ? url : `${BASE_URL}${url.startsWith('/') ? '' : '/'}${url}`;
-  return fetch(fetchUrl, options);
+  return httpFetch(fetchUrl, options);
 };
 
+const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
 // Extract title from localized string object
 const extractTitle = (titleObj: Record<string, string>): string => {
   return titleObj.en || titleObj['ja-ro'] || Object.values(titleObj)[0] || 'Unknown Title';
@@ -41,6 +51,41 @@ const buildCoverUrl = (mangaId: string, fileName: string, _size: '256' | '512' |
   return `${COVER_URL}/${mangaId}/${fileName}`;
 };
 
+const context = (endpoint: string) => ({ source: 'mangadex' as const, endpoint });
+
+// Map a validated MangaDex manga to the app's Manhwa shape
+const toManhwa = (item: MangaDexManga, coverSize: '256' | '512' = '256'): Manhwa => {
+  const fileName = item.relationships.find(r => r.type === 'cover_art')?.attributes?.fileName;
+  const lastChapter = item.attributes.lastChapter ? parseFloat(item.attributes.lastChapter) : NaN;
+
+  return {
+    id: item.id,
+    title: extractTitle(item.attributes.title),
+    description: extractDescription(item.attributes.description),
+    source: 'mangadex',
+    source_id: item.id,
+    created_at: item.attributes.createdAt,
+    cover_url: fileName
+      ? buildCoverUrl(item.id, fileName, coverSize)
+      : 'https://via.placeholder.com/300x450?text=No+Cover',
+    lastChapter: isNaN(lastChapter) ? undefined : lastChapter,
+  };
+};
+
+// Validate a manga list response, dropping malformed entries
+const parseMangaList = (json: unknown, endpoint: string): MangaDexManga[] => {
+  const { data } = parseResponse(MangaDexCollectionSchema, json, context(endpoint));
+  const { items, errors } = parseItems(MangaDexMangaSchema, data, context(endpoint));
+  reportDroppedItems(errors);
+  return items;
+};
+
+// Validate a single manga response. Throws ResponseValidationError.
+const parseManga = (json: unknown, endpoint: string): MangaDexManga => {
+  const { data } = parseResponse(MangaDexEntitySchema, json, context(endpoint));
+  return parseResponse(MangaDexMangaSchema, data, context(endpoint));
+};
+
 export interface SearchOptions {
   limit?: number;
   offset?: number;
@@ -50,6 +95,8 @@ export interface SearchOptions {
   includedTags?: string[];
   excludedTags?: string[];
   order?: Record<string, 'asc' | 'desc'>;
+  /** Cancels the request, e.g. when a newer search replaces it */
+  signal?: AbortSignal;
 }
 
 export const searchMangaDex = async (query: string, options: SearchOptions = {}): Promise<Manhwa[]> => {
@@ -101,7 +148,7 @@ export const searchMangaDex = async (query: string, options: SearchOptions = {})
       params.append(`order[${key}]`, value);
     });
 
-    const response = await rateLimitedFetch(`/manga?${params.toString()}`);
+    const response = await rateLimitedFetch(`/manga?${params.toString()}`, { signal: options.signal });
     
     if (!response.ok) {
       const errorData = await response.json().catch(() => null);
@@ -115,27 +162,12 @@ export const searchMangaDex = async (query: string, options: SearchOptions = {})
     }
 
     const data = await response.json();
-    
-    return data.data.map((item: MangaDexResult) => {
-      const coverRel = item.relationships.find((r) => r.type === 'cover_art');
-      const fileName = coverRel?.attributes?.fileName;
-      const title = extractTitle(item.attributes.title);
-      const description = extractDescription(item.attributes.description);
-      
-      return {
-        id: item.id,
-        title: title,
-        description: description,
-        source_id: item.id,
-        created_at: item.attributes.createdAt,
-        cover_url: fileName 
-          ? buildCoverUrl(item.id, fileName, '256')
-          : 'https://via.placeholder.com/300x450?text=No+Cover', // Better fallback
-      };
-    });
+    return parseMangaList(data, '/manga').map(item => toManhwa(item));
 
   } catch (error) {
-    console.error('MangaDex API Error:', error);
+    if (!isAbortError(error)) {
+      console.error('MangaDex API Error:', error);
+    }
     return [];
   }
 };
@@ -156,29 +188,16 @@ export const getMangaById = async (mangaId: string): Promise<Manhwa | null> => {
     }
 
     const data = await response.json();
-    const item = data.data;
-    
-    const coverRel = item.relationships.find((r: any) => r.type === 'cover_art');
-    const fileName = coverRel?.attributes?.fileName;
-    
-    return {
-      id: item.id,
-      title: extractTitle(item.attributes.title),
-      description: extractDescription(item.attributes.description),
-      source_id: item.id,
-      created_at: item.attributes.createdAt,
-      cover_url: fileName 
-        ? buildCoverUrl(item.id, fileName, '512') // Higher quality for details page
-        : 'https://via.placeholder.com/300x450?text=No+Cover',
-      lastChapter: item.attributes.lastChapter ? parseFloat(item.attributes.lastChapter) : undefined,
-    };
+    // Higher quality cover for the details page
+    return toManhwa(parseManga(data, '/manga/{id}'), '512');
   } catch (error) {
     console.error('Error fetching manga by ID:', error);
     return null;
   }
 };
 
-// Get manga feed (chapters)
+// Get manga feed (chapters), one page at a time. errors has one entry per
+// upload on the page that failed validation; they still take up a place in offset.
 export const getMangaFeed = async (
   mangaId: string, 
   options: {
@@ -187,7 +206,7 @@ export const getMangaFeed = async (
     translatedLanguage?: string[];
     order?: Record<string, 'asc' | 'desc'>;
   } = {}
-) => {
+): Promise<{ chapters: Chapter[]; total: number; errors: ResponseValidationError[] }> => {
   try {
     const params = new URLSearchParams();
     params.append('limit', String(options.limit || 100));
@@ -217,10 +236,58 @@ export const getMangaFeed = async (
       throw new Error(`Failed to fetch manga feed: ${response.status}`);
     }
     
-    const data = await response.json();
-    return data.data;
+    const data = parseResponse(MangaDexCollectionSchema, await response.json(), context('/manga/{id}/feed'));
+    const { items, errors } = parseItems(MangaDexChapterSchema, data.data, context('/manga/{id}/feed'));
+    reportDroppedItems(errors);
+    const chapters: Chapter[] = items.map(item => {
+      const group = item.relationships.find(r => r.type === 'scanlation_group');
+      return {
+        id: item.id,
+        chapter: item.attributes.chapter ?? null,
+        volume: item.attributes.volume ?? null,
+        title: item.attributes.title || null,
+        scanlationGroup: group?.attributes?.name || null,
+        publishedAt: item.attributes.publishAt || item.attributes.createdAt,
+        pages: item.attributes.pages || 0,
+        externalUrl: item.attributes.externalUrl || null,
+      };
+    });
+
+    return { chapters, total: data.total || 0, errors };
   } catch (error) {
     console.error('Error fetching manga feed:', error);
+    return { chapters: [], total: 0, errors: [] };
+  }
+};
+
+// Get chapter numbers grouped by volume, in reading order
+export const getMangaAggregate = async (mangaId: string): Promise<ChapterVolume[]> => {
+  try {
+    const response = await rateLimitedFetch(
+      `/manga/${mangaId}/aggregate?translatedLanguage[]=en`
+    );
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch manga aggregate: ${response.status}`);
+    }
+
+    const data = parseResponse(MangaDexAggregateSchema, await response.json(), context('/manga/{id}/aggregate'));
+
+    const volumes: ChapterVolume[] = Object.values(data.volumes).map(volume => ({
+      volume: volume.volume,
+      chapters: Object.values(volume.chapters)
+        .map(c => c.chapter)
+        .sort(compareChapterNumbers),
+    }));
+
+    // Numbered volumes first, chapters without a volume last
+    return volumes.sort((a, b) => {
+      if (a.volume === 'none') return 1;
+      if (b.volume === 'none') return -1;
+      return compareChapterNumbers(a.volume, b.volume);
+    });
+  } catch (error) {
+    console.error('Error fetching manga aggregate:', error);
     return [];
   }
 };
@@ -238,24 +305,20 @@ export const getLastChapterNumber = async (mangaId: string): Promise<number | nu
       return null;
     }
     
-    const data = await response.json();
+    const data = parseResponse(MangaDexAggregateSchema, await response.json(), context('/manga/{id}/aggregate'));
     
     // The aggregate returns volumes with chapters
     // Find the highest chapter number across all volumes
     let maxChapter = 0;
     
-    if (data.volumes) {
-      Object.values(data.volumes).forEach((volume: { chapters?: Record<string, unknown> }) => {
-        if (volume.chapters) {
-          Object.keys(volume.chapters).forEach((chapterNum: string) => {
-            const num = parseFloat(chapterNum);
-            if (!isNaN(num) && num > maxChapter) {
-              maxChapter = num;
-            }
-          });
+    Object.values(data.volumes).forEach(volume => {
+      Object.keys(volume.chapters).forEach(chapterNum => {
+        const num = parseFloat(chapterNum);
+        if (!isNaN(num) && num > maxChapter) {
+          maxChapter = num;
         }
       });
-    }
+    });
     
     return maxChapter > 0 ? Math.floor(maxChapter) : null;
   } catch (error) {
@@ -265,7 +328,7 @@ export const getLastChapterNumber = async (mangaId: string): Promise<number | nu
 };
 
 // Get all available tags
-export const getTags = async () => {
+export const getTags = async (): Promise<{ id: string; name: string; group: string; description: string }[]> => {
   try {
     const response = await rateLimitedFetch(`/manga/tag`);
     
@@ -273,10 +336,12 @@ export const getTags = async () => {
       throw new Error(`Failed to fetch tags: ${response.status}`);
     }
     
-    const data = await response.json();
-    return data.data.map((tag: any) => ({
+    const data = parseResponse(MangaDexCollectionSchema, await response.json(), context('/manga/tag'));
+    const { items, errors } = parseItems(MangaDexTagSchema, data.data, context('/manga/tag'));
+    reportDroppedItems(errors);
+    return items.map(tag => ({
       id: tag.id,
-      name: tag.attributes.name.en || Object.values(tag.attributes.name)[0],
+      name: tag.attributes.name.en || Object.values(tag.attributes.name)[0] || '',
       group: tag.attributes.group,
       description: tag.attributes.description?.en || ''
     }));
@@ -302,21 +367,7 @@ export const getRandomManga = async (): Promise<Manhwa | null> => {
     }
     
     const data = await response.json();
-    const item = data.data;
-    
-    const coverRel = item.relationships.find((r: any) => r.type === 'cover_art');
-    const fileName = coverRel?.attributes?.fileName;
-    
-    return {
-      id: item.id,
-      title: extractTitle(item.attributes.title),
-      description: extractDescription(item.attributes.description),
-      source_id: item.id,
-      created_at: item.attributes.createdAt,
-      cover_url: fileName 
-        ? buildCoverUrl(item.id, fileName, '256')
-        : 'https://via.placeholder.com/300x450?text=No+Cover',
-    };
+    return toManhwa(parseManga(data, '/manga/random'));
   } catch (error) {
     console.error('Error fetching random manga:', error);
     return null;
@@ -338,16 +389,15 @@ export const getRelatedManga = async (mangaId: string, limit: number = 10): Prom
       throw new Error(`Failed to fetch manga details: ${response.status}`);
     }
     
-    const data = await response.json();
-    const manga = data.data;
+    const manga = parseManga(await response.json(), '/manga/{id}');
     
     // Try to get tags for similarity matching
-    const mangaTags = manga.attributes?.tags?.map((t: any) => t.id) || [];
+    const mangaTags = manga.attributes.tags?.map(t => t.id) || [];
     
     // Extract related manga from relationships
     const relatedMangaIds = manga.relationships
-      .filter((rel: any) => rel.type === 'manga' && rel.related)
-      .map((rel: any) => rel.id)
+      .filter(rel => rel.type === 'manga' && rel.related)
+      .map(rel => rel.id)
       .slice(0, limit);
     
     if (relatedMangaIds.length > 0) {
@@ -364,7 +414,7 @@ export const getRelatedManga = async (mangaId: string, limit: number = 10): Prom
     }
     
     // Fallback 1: Search by same author
-    const authorRel = manga.relationships.find((r: any) => r.type === 'author');
+    const authorRel = manga.relationships.find(r => r.type === 'author');
     
     if (authorRel) {
       const authorResults = await searchBySameAuthor(authorRel.id, mangaId, limit);
@@ -409,22 +459,7 @@ export const getRecentlyUpdated = async (limit: number = 10): Promise<Manhwa[]>
     }
     
     const data = await response.json();
-    
-    return data.data.map((item: MangaDexResult) => {
-      const coverRel = item.relationships.find((r) => r.type === 'cover_art');
-      const fileName = coverRel?.attributes?.fileName;
-      
-      return {
-        id: item.id,
-        title: extractTitle(item.attributes.title),
-        description: extractDescription(item.attributes.description),
-        source_id: item.id,
-        created_at: item.attributes.createdAt,
-        cover_url: fileName 
-          ? buildCoverUrl(item.id, fileName, '256')
-          : 'https://via.placeholder.com/300x450?text=No+Cover',
-      };
-    });
+    return parseMangaList(data, '/manga').map(item => toManhwa(item));
   } catch (error) {
     console.error('Error fetching recently updated:', error);
     return [];
@@ -449,22 +484,7 @@ export const getPopularManga = async (limit: number = 10): Promise<Manhwa[]> =>
     }
     
     const data = await response.json();
-    
-    return data.data.map((item: MangaDexResult) => {
-      const coverRel = item.relationships.find((r) => r.type === 'cover_art');
-      const fileName = coverRel?.attributes?.fileName;
-      
-      return {
-        id: item.id,
-        title: extractTitle(item.attributes.title),
-        description: extractDescription(item.attributes.description),
-        source_id: item.id,
-        created_at: item.attributes.createdAt,
-        cover_url: fileName 
-          ? buildCoverUrl(item.id, fileName, '256')
-          : 'https://via.placeholder.com/300x450?text=No+Cover',
-      };
-    });
+    return parseMangaList(data, '/manga').map(item => toManhwa(item));
   } catch (error) {
     console.error('Error fetching popular manga:', error);
     return [];
@@ -490,22 +510,7 @@ export const getCompletedManga = async (limit: number = 10): Promise<Manhwa[]> =
     }
     
     const data = await response.json();
-    
-    return data.data.map((item: MangaDexResult) => {
-      const coverRel = item.relationships.find((r) => r.type === 'cover_art');
-      const fileName = coverRel?.attributes?.fileName;
-      
-      return {
-        id: item.id,
-        title: extractTitle(item.attributes.title),
-        description: extractDescription(item.attributes.description),
-        source_id: item.id,
-        created_at: item.attributes.createdAt,
-        cover_url: fileName 
-          ? buildCoverUrl(item.id, fileName, '256')
-          : 'https://via.placeholder.com/300x450?text=No+Cover',
-      };
-    });
+    return parseMangaList(data, '/manga').map(item => toManhwa(item));
   } catch (error) {
     console.error('Error fetching completed manga:', error);
     return [];
@@ -530,22 +535,7 @@ export const getNewlyAdded = async (limit: number = 10): Promise<Manhwa[]> => {
     }
     
     const data = await response.json();
-    
-    return data.data.map((item: MangaDexResult) => {
-      const coverRel = item.relationships.find((r) => r.type === 'cover_art');
-      const fileName = coverRel?.attributes?.fileName;
-      
-      return {
-        id: item.id,
-        title: extractTitle(item.attributes.title),
-        description: extractDescription(item.attributes.description),
-        source_id: item.id,
-        created_at: item.attributes.createdAt,
-        cover_url: fileName 
-          ? buildCoverUrl(item.id, fileName, '256')
-          : 'https://via.placeholder.com/300x450?text=No+Cover',
-      };
-    });
+    return parseMangaList(data, '/manga').map(item => toManhwa(item));
   } catch (error) {
     console.error('Error fetching newly added:', error);
     return [];
@@ -576,26 +566,29 @@ const searchBySameAuthor = async (
     
     const data = await response.json();
     
-    return data.data
-      .filter((item: MangaDexResult) => item.id !== excludeMangaId) // Exclude current manga
+    return parseMangaList(data, '/manga')
+      .filter(item => item.id !== excludeMangaId) // Exclude current manga
       .slice(0, limit)
-      .map((item: MangaDexResult) => {
-        const coverRel = item.relationships.find((r) => r.type === 'cover_art');
-        const fileName = coverRel?.attributes?.fileName;
-        
-        return {
-          id: item.id,
-          title: extractTitle(item.attributes.title),
-          description: extractDescription(item.attributes.description),
-          source_id: item.id,
-          created_at: item.attributes.createdAt,
-          cover_url: fileName 
-            ? buildCoverUrl(item.id, fileName, '256')
-            : 'https://via.placeholder.com/300x450?text=No+Cover',
-        };
-      });
+      .map(item => toManhwa(item));
   } catch (error) {
     console.error('Error searching by same author:', error);
     return [];
   }
 };
+
+// Stored cover URLs point at uploads.mangadex.org; use our proxy in production
+const proxifyCoverUrl = (url: string): string => {
+  if (!url) return '';
+  return useProxy ? url.replace('https://uploads.mangadex.org/covers', COVER_URL) : url;
+};
+
+export const mangadexProvider: SourceProvider = {
+  name: 'mangadex',
+  label: 'MangaDex',
+  hasChapterList: true,
+  search: (query, options = {}) => searchMangaDex(query, options),
+  getById: mangaId => getMangaById(mangaId),
+  getChapterCount: mangaId => getLastChapterNumber(mangaId),
+  getCover: proxifyCoverUrl,
+  getRelated: (mangaId, limit) => getRelatedManga(mangaId, limit),
+};
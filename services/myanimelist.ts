@@ -1,67 +1,38 @@
 // MyAnimeList API Service
 // Documentation: https://myanimelist.net/apiconfig/references/api/v2
 
+import { Manhwa, ReadingStatus, SourceProvider } from '../types';
+import { configureHost, httpFetch, HttpRequestOptions } from './httpClient';
+import { MALCollectionSchema, MALListNodeSchema, MALMangaData, MALMangaSchema, MALRelatedSchema } from '../utils/schemas';
+import { parseItems, parseResponse, reportDroppedItems } from '../utils/validation';
+
 const MAL_BASE_URL = 'https://api.myanimelist.net/v2';
 const MAL_CLIENT_ID = import.meta.env.VITE_MAL_CLIENT_ID || '';
 
 // Rate limiting: MAL doesn't specify exact limits, but we'll be conservative
-const MIN_REQUEST_INTERVAL = 300; // 300ms between requests (~3 req/sec)
-let lastRequestTime = 0;
+configureHost('api.myanimelist.net', {
+  requestsPerSecond: 3,
+  burst: 3,
+  maxConcurrent: 2,
+});
 
 // Rate-limited fetch wrapper
-const rateLimitedFetch = async (url: string, options: RequestInit = {}): Promise<Response> => {
-  const now = Date.now();
-  const timeSinceLastRequest = now - lastRequestTime;
-  
-  if (timeSinceLastRequest < MIN_REQUEST_INTERVAL) {
-    await new Promise(resolve => setTimeout(resolve, MIN_REQUEST_INTERVAL - timeSinceLastRequest));
-  }
-  
-  lastRequestTime = Date.now();
-  
+const rateLimitedFetch = (url: string, options: HttpRequestOptions = {}): Promise<Response> => {
   const headers = {
     'X-MAL-CLIENT-ID': MAL_CLIENT_ID,
     ...options.headers,
   };
   
-  return fetch(url, { ...options, headers });
+  return httpFetch(url, { ...options, headers });
 };
 
-export interface MALManga {
-  id: number;
-  title: string;
-  main_picture?: {
-    medium: string;
-    large: string;
-  };
-  alternative_titles?: {
-    synonyms?: string[];
-    en?: string;
-    ja?: string;
-  };
-  synopsis?: string;
-  mean?: number;
-  rank?: number;
-  popularity?: number;
-  num_list_users?: number;
-  num_scoring_users?: number;
-  status?: 'finished' | 'currently_publishing' | 'not_yet_published';
-  genres?: Array<{ id: number; name: string }>;
-  media_type?: 'manga' | 'novel' | 'one_shot' | 'doujinshi' | 'manhwa' | 'manhua' | 'oel';
-  num_volumes?: number;
-  num_chapters?: number;
-  authors?: Array<{
-    node: {
-      id: number;
-      first_name: string;
-      last_name: string;
-    };
-    role: string;
-  }>;
-}
+// Shape of a MAL manga as validated by MALMangaSchema
+export type MALManga = MALMangaData;
+
+const context = (endpoint: string) => ({ source: 'myanimelist' as const, endpoint });
 
 // Search for manga by title
-export const searchMALManga = async (query: string, limit: number = 10): Promise<MALManga[]> => {
+export const searchMALManga = async (query: string, limit: number = 10, signal?: AbortSignal): Promise<MALManga[]> => {
   if (!query || !MAL_CLIENT_ID) return [];
   
   try {
@@ -70,17 +41,21 @@ export const searchMALManga = async (query: string, limit: number = 10): Promise
     params.append('limit', String(limit));
     params.append('fields', 'id,title,main_picture,media_type,num_chapters,num_volumes,synopsis,mean');
     
-    const response = await rateLimitedFetch(`${MAL_BASE_URL}/manga?${params.toString()}`);
+    const response = await rateLimitedFetch(`${MAL_BASE_URL}/manga?${params.toString()}`, { signal });
     
     if (!response.ok) {
       console.error('MAL API Error:', response.status, response.statusText);
       return [];
     }
     
-    const data = await response.json();
-    return data.data.map((item: any) => item.node);
+    const data = parseResponse(MALCollectionSchema, await response.json(), context('/manga'));
+    const { items, errors } = parseItems(MALListNodeSchema, data.data, context('/manga'));
+    reportDroppedItems(errors);
+    return items.map(item => item.node);
   } catch (error) {
-    console.error('Error searching MAL manga:', error);
+    if (!signal?.aborted) {
+      console.error('Error searching MAL manga:', error);
+    }
     return [];
   }
 };
@@ -119,7 +94,7 @@ export const getMALMangaById = async (malId: number): Promise<MALManga | null> =
       throw new Error(`Failed to fetch MAL manga: ${response.status}`);
     }
     
-    return await response.json();
+    return parseResponse(MALMangaSchema, await response.json(), context('/manga/{id}'));
   } catch (error) {
     console.error('Error fetching MAL manga by ID:', error);
     return null;
@@ -164,8 +139,10 @@ export const getTopManhwa = async (limit: number = 20): Promise<MALManga[]> => {
       return [];
     }
     
-    const data = await response.json();
-    return data.data.map((item: any) => ({
+    const data = parseResponse(MALCollectionSchema, await response.json(), context('/manga/ranking'));
+    const { items, errors } = parseItems(MALListNodeSchema, data.data, context('/manga/ranking'));
+    reportDroppedItems(errors);
+    return items.map(item => ({
       ...item.node,
       ranking: item.ranking
     }));
@@ -191,7 +168,147 @@ export const searchMALMangaDetailed = async (query: string): Promise<MALManga |
   }
 };
 
+// Get related titles (sequels, spin-offs) followed by user recommendations
+export const getMALRelatedManga = async (malId: number, limit: number = 10): Promise<MALManga[]> => {
+  if (!MAL_CLIENT_ID) return [];
+
+  try {
+    const response = await rateLimitedFetch(`${MAL_BASE_URL}/manga/${malId}?fields=related_manga,recommendations`);
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch MAL related manga: ${response.status}`);
+    }
+
+    const data = parseResponse(MALRelatedSchema, await response.json(), context('/manga/{id}'));
+    const related = parseItems(MALListNodeSchema, data.related_manga, context('/manga/{id}'));
+    const recommended = parseItems(MALListNodeSchema, data.recommendations, context('/manga/{id}'));
+    reportDroppedItems([...related.errors, ...recommended.errors]);
+    const nodes = [...related.items, ...recommended.items].map(item => item.node);
+
+    const seen = new Set<number>();
+    return nodes
+      .filter(manga => {
+        if (manga.id === malId || seen.has(manga.id)) return false;
+        seen.add(manga.id);
+        return true;
+      })
+      .slice(0, limit);
+  } catch (error) {
+    console.error('Error fetching MAL related manga:', error);
+    return [];
+  }
+};
+
+// Map a MAL manga to the app's Manhwa shape
+const toManhwa = (manga: MALManga): Manhwa => ({
+  id: String(manga.id),
+  title: manga.title,
+  cover_url: manga.main_picture?.large || manga.main_picture?.medium || '',
+  description: manga.synopsis || 'No description available.',
+  source: 'mal',
+  source_id: String(manga.id),
+  mal_id: manga.id,
+  created_at: new Date().toISOString(),
+  // MAL reports 0 chapters for ongoing series
+  lastChapter: manga.num_chapters || undefined,
+});
+
+export const malProvider: SourceProvider = {
+  name: 'mal',
+  label: 'MyAnimeList',
+  hasChapterList: false,
+  search: async (query, options = {}) =>
+    (await searchMALManga(query, options.limit || 20, options.signal)).map(toManhwa),
+  getById: async sourceId => {
+    const manga = await getMALMangaById(Number(sourceId));
+    return manga ? toManhwa(manga) : null;
+  },
+  getChapterCount: async sourceId => (await getMALMangaById(Number(sourceId)))?.num_chapters || null,
+  // MAL covers are served from its CDN as-is
+  getCover: coverUrl => coverUrl,
+  getRelated: async (sourceId, limit) => (await getMALRelatedManga(Number(sourceId), limit)).map(toManhwa),
+};
+
 // Helper: Check if MAL API is configured
 export const isMALConfigured = (): boolean => {
   return !!MAL_CLIENT_ID;
 };
+
+// --- MAL list export (XML) ---
+// Format of the file produced by https://myanimelist.net/panel.php?go=export
+// for manga lists: <myanimelist><myinfo/>(<manga>...</manga>)*</myanimelist>
+
+export interface MALListEntry {
+  malId: number;
+  title: string;
+  status: ReadingStatus;
+  chaptersRead: number;
+  score: number; // 0-10, 0 = unscored
+  comments: string;
+  totalChapters: number;
+  startDate?: string;
+  finishDate?: string;
+}
+
+const MAL_STATUS_TO_READING_STATUS: Record<string, ReadingStatus> = {
+  'reading': ReadingStatus.READING,
+  'completed': ReadingStatus.COMPLETED,
+  'on-hold': ReadingStatus.ON_HOLD,
+  'on hold': ReadingStatus.ON_HOLD,
+  'dropped': ReadingStatus.DROPPED,
+  'plan to read': ReadingStatus.PLAN_TO_READ,
+  // Numeric codes used by some export tools
+  '1': ReadingStatus.READING,
+  '2': ReadingStatus.COMPLETED,
+  '3': ReadingStatus.ON_HOLD,
+  '4': ReadingStatus.DROPPED,
+  '6': ReadingStatus.PLAN_TO_READ,
+};
+
+export const READING_STATUS_TO_MAL_STATUS: Record<ReadingStatus, string> = {
+  [ReadingStatus.READING]: 'Reading',
+  [ReadingStatus.COMPLETED]: 'Completed',
+  [ReadingStatus.ON_HOLD]: 'On-Hold',
+  [ReadingStatus.DROPPED]: 'Dropped',
+  [ReadingStatus.PLAN_TO_READ]: 'Plan to Read',
+};
+
+// MAL writes "0000-00-00" for unknown dates
+const parseMALDate = (value: string): string | undefined => {
+  if (!value || value.startsWith('0000')) return undefined;
+  const date = new Date(value.replace(/-00/g, '-01'));
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+// Parse a MAL manga list export. Throws if the document is not a MAL list.
+export const parseMALListXML = (xml: string): MALListEntry[] => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('File is not valid XML');
+  }
+  if (doc.documentElement.nodeName !== 'myanimelist') {
+    throw new Error('Not a MyAnimeList export');
+  }
+
+  const text = (node: Element, tag: string): string =>
+    node.getElementsByTagName(tag)[0]?.textContent?.trim() || '';
+  const num = (node: Element, tag: string): number => {
+    const value = parseFloat(text(node, tag));
+    return isNaN(value) ? 0 : value;
+  };
+
+  return Array.from(doc.getElementsByTagName('manga'))
+    .map(node => ({
+      malId: num(node, 'manga_mangadb_id'),
+      title: text(node, 'manga_title'),
+      status: MAL_STATUS_TO_READING_STATUS[text(node, 'my_status').toLowerCase()] || ReadingStatus.PLAN_TO_READ,
+      chaptersRead: Math.max(0, num(node, 'my_read_chapters')),
+      score: Math.min(10, Math.max(0, Math.round(num(node, 'my_score')))),
+      comments: text(node, 'my_comments'),
+      totalChapters: num(node, 'manga_chapters'),
+      startDate: parseMALDate(text(node, 'my_start_date')),
+      finishDate: parseMALDate(text(node, 'my_finish_date')),
+    }))
+    .filter(entry => entry.title.length > 0);
+};
@@ -0,0 +1,85 @@
+// Offline write queue
+// Library writes made while offline are stored in IndexedDB and replayed in
+// order once the connection comes back (see replayOfflineMutations in store.ts).
+
+import { OfflineMutation } from '../types';
+import { idbDelete, idbGetAll, idbPut } from '../utils/indexedDb';
+
+// Titles added while offline get a placeholder ID until the insert is replayed
+const PENDING_ID_PREFIX = 'pending:';
+
+export const toPendingId = (sourceId: string): string => `${PENDING_ID_PREFIX}${sourceId}`;
+
+export const isPendingId = (id: string): boolean => id.startsWith(PENDING_ID_PREFIX);
+
+export const fromPendingId = (id: string): string => id.slice(PENDING_ID_PREFIX.length);
+
+export const isOffline = (): boolean =>
+  typeof navigator !== 'undefined' && navigator.onLine === false;
+
+// Last progress version (updated_at) and title seen from the server per
+// library ID. Offline edits record it so replay can tell whether the title
+// was changed elsewhere in the meantime.
+const knownVersions = new Map<string, { updatedAt: string | null; title: string }>();
+
+export const rememberProgressVersion = (manhwaId: string, updatedAt: string | null, title?: string) => {
+  const known = knownVersions.get(manhwaId);
+  knownVersions.set(manhwaId, { updatedAt, title: title || known?.title || '' });
+};
+
+export const getKnownProgressVersion = (manhwaId: string) => knownVersions.get(manhwaId);
+
+type QueueListener = (pending: number) => void;
+const listeners = new Set<QueueListener>();
+
+/**
+ * Subscribe to the number of queued writes. Called immediately and after
+ * every change. Returns an unsubscribe function.
+ */
+export const subscribeToQueue = (listener: QueueListener): (() => void) => {
+  listeners.add(listener);
+  getQueuedMutations().then(queue => listener(queue.length));
+  return () => { listeners.delete(listener); };
+};
+
+const notifyListeners = async () => {
+  const queue = await getQueuedMutations();
+  listeners.forEach(listener => listener(queue.length));
+};
+
+export const getQueuedMutations = async (): Promise<OfflineMutation[]> => {
+  try {
+    const queue = await idbGetAll<OfflineMutation>('offline_mutations');
+    return queue.sort((a, b) => (a.id || 0) - (b.id || 0));
+  } catch (error) {
+    console.error('Error reading offline queue:', error);
+    return [];
+  }
+};
+
+/**
+ * Queue a write. Consecutive progress edits (or board moves) to the same
+ * title are merged into one entry that keeps the first edit's base version.
+ */
+export const enqueueMutation = async (mutation: Omit<OfflineMutation, 'id' | 'queuedAt'>): Promise<void> => {
+  const queue = await getQueuedMutations();
+  const last = queue[queue.length - 1];
+
+  const mergeable = mutation.type === 'progress' || mutation.type === 'sort';
+  if (mergeable && last?.type === mutation.type && last.manhwaId === mutation.manhwaId) {
+    await idbPut('offline_mutations', {
+      ...last,
+      updates: { ...last.updates, ...mutation.updates },
+      queuedAt: new Date().toISOString(),
+    });
+  } else {
+    await idbPut('offline_mutations', { ...mutation, queuedAt: new Date().toISOString() });
+  }
+
+  await notifyListeners();
+};
+
+export const removeQueuedMutation = async (id: number): Promise<void> => {
+  await idbDelete('offline_mutations', id);
+  await notifyListeners();
+};
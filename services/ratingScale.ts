@@ -0,0 +1,78 @@
+// Rating scale preference
+// Signed-in users keep their scale in their auth user metadata so it follows
+// them across devices. It is also kept in localStorage, which is all guests
+// have and lets the last scale show straight away before the session loads.
+
+import { supabase } from './supabase';
+import { DEFAULT_RATING_SCALE, isRatingScale, RatingScale } from '../utils/ratings';
+
+const RATING_SCALE_KEY = 'dooftrack_rating_scale';
+
+type RatingScaleListener = (scale: RatingScale) => void;
+const ratingScaleListeners = new Set<RatingScaleListener>();
+
+const readStoredScale = (): RatingScale => {
+  try {
+    const stored = localStorage.getItem(RATING_SCALE_KEY);
+    return isRatingScale(stored) ? stored : DEFAULT_RATING_SCALE;
+  } catch {
+    return DEFAULT_RATING_SCALE;
+  }
+};
+
+let currentScale: RatingScale = readStoredScale();
+
+const applyScale = (scale: RatingScale) => {
+  try {
+    localStorage.setItem(RATING_SCALE_KEY, scale);
+  } catch {
+    // Storage unavailable; the scale still applies for this session
+  }
+  if (scale === currentScale) return;
+  currentScale = scale;
+  ratingScaleListeners.forEach(listener => listener(scale));
+};
+
+// Take the account's scale on sign-in. Accounts that never chose one keep
+// whatever this device was using.
+supabase.auth.onAuthStateChange((_event, session) => {
+  const scale = session?.user?.user_metadata?.rating_scale;
+  if (isRatingScale(scale)) applyScale(scale);
+});
+
+export const getRatingScale = (): RatingScale => currentScale;
+
+/**
+ * Change the scale ratings are shown and entered in. Saved ratings are not
+ * touched (see utils/ratings.ts).
+ */
+export const setRatingScale = async (scale: RatingScale): Promise<boolean> => {
+  const previous = currentScale;
+  applyScale(scale);
+
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return true; // Guests only keep it on this device
+
+    const { error } = await supabase.auth.updateUser({ data: { rating_scale: scale } });
+    if (error) {
+      console.error('Error saving rating scale:', error);
+      applyScale(previous);
+      return false;
+    }
+    return true;
+  } catch (error) {
+    console.error('Error in setRatingScale:', error);
+    applyScale(previous);
+    return false;
+  }
+};
+
+/**
+ * Subscribe to rating scale changes.
+ * Returns an unsubscribe function.
+ */
+export const subscribeToRatingScale = (listener: RatingScaleListener): (() => void) => {
+  ratingScaleListeners.add(listener);
+  return () => { ratingScaleListeners.delete(listener); };
+};
@@ -0,0 +1,104 @@
+// Realtime library sync
+// Listens for changes to the user's manhwa and reading_progress rows made on
+// other devices, merges them into the library cache (which useLibrary is
+// subscribed to) and forwards progress changes to open Details pages.
+
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from './supabase';
+import { patchCachedItem, updateLibraryCache } from './libraryCache';
+import { getLibrary } from './store';
+import { rememberProgressVersion } from './offlineQueue';
+import { ReadingStatus, UserProgress } from '../types';
+
+type ProgressListener = (progress: UserProgress) => void;
+const progressListeners = new Map<string, Set<ProgressListener>>();
+
+/**
+ * Listen for remote progress changes to one title.
+ * Returns an unsubscribe function.
+ */
+export const subscribeToRemoteProgress = (manhwaId: string, listener: ProgressListener): (() => void) => {
+  const listeners = progressListeners.get(manhwaId) || new Set();
+  listeners.add(listener);
+  progressListeners.set(manhwaId, listeners);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) progressListeners.delete(manhwaId);
+  };
+};
+
+const toProgress = (row: any): UserProgress => ({
+  id: row.id,
+  manhwa_id: row.manhwa_id,
+  status: row.status as ReadingStatus,
+  last_chapter: row.last_chapter,
+  rating: row.rating,
+  notes: row.notes || '',
+  sort_index: row.sort_index ?? null,
+  updated_at: row.updated_at,
+});
+
+const handleProgressChange = async (userId: string, payload: any) => {
+  // Deletes only carry the primary key; the manhwa delete removes the title
+  if (payload.eventType === 'DELETE' || !payload.new?.manhwa_id) return;
+
+  const progress = toProgress(payload.new);
+  rememberProgressVersion(progress.manhwa_id, progress.updated_at);
+  await patchCachedItem(userId, progress.manhwa_id, item => ({ ...item, progress }));
+  progressListeners.get(progress.manhwa_id)?.forEach(listener => listener(progress));
+};
+
+const handleManhwaChange = async (userId: string, payload: any) => {
+  if (payload.eventType === 'DELETE') {
+    const id = payload.old?.id;
+    if (id) await updateLibraryCache(userId, items => items.filter(item => item.id !== id));
+    return;
+  }
+
+  const row = payload.new;
+  if (payload.eventType === 'INSERT') {
+    // A title added elsewhere; its progress row is written separately, so
+    // refetch to get both
+    await getLibrary({ fresh: true });
+    return;
+  }
+
+  await patchCachedItem(userId, row.id, item => ({
+    ...item,
+    title: row.title,
+    description: row.description || '',
+    mal_id: row.mal_id ?? undefined,
+    lastChapter: row.last_chapter || undefined,
+    lastChapterSeenAt: row.last_chapter_seen_at ?? undefined,
+  }));
+};
+
+/**
+ * Start syncing the signed-in user's library. Returns a function that stops it.
+ */
+export const startLibrarySync = (userId: string): (() => void) => {
+  const channel: RealtimeChannel = supabase
+    .channel(`library-sync:${userId}`)
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'manhwa', filter: `user_id=eq.${userId}` },
+      payload => { handleManhwaChange(userId, payload); }
+    )
+    // reading_progress has no user_id column; row level security limits
+    // the stream to the user's own rows
+    .on(
+      'postgres_changes',
+      { event: '*', schema: 'public', table: 'reading_progress' },
+      payload => { handleProgressChange(userId, payload); }
+    )
+    .subscribe(status => {
+      if (status === 'CHANNEL_ERROR') {
+        console.error('Library sync channel error');
+      }
+    });
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+};
@@ -0,0 +1,53 @@
+// Metadata source providers
+// A title is identified by its provider (source) and that provider's ID
+// (source_id). MangaDex was the only source at first, so rows, export files
+// and links without a source are MangaDex.
+
+import { Manhwa, SourceName, SourceProvider } from '../types';
+import { mangadexProvider } from './mangadex';
+import { malProvider } from './myanimelist';
+import { anilistProvider } from './anilist';
+
+export const DEFAULT_SOURCE: SourceName = 'mangadex';
+
+const PROVIDERS: Record<SourceName, SourceProvider> = {
+  mangadex: mangadexProvider,
+  mal: malProvider,
+  anilist: anilistProvider,
+};
+
+export const isSourceName = (value: unknown): value is SourceName =>
+  typeof value === 'string' && value in PROVIDERS;
+
+export const getSourceProvider = (source?: string | null): SourceProvider =>
+  isSourceName(source) ? PROVIDERS[source] : PROVIDERS[DEFAULT_SOURCE];
+
+export const getSourceProviders = (): SourceProvider[] => Object.values(PROVIDERS);
+
+/**
+ * ID used in /manhwa/:id links and pending offline IDs. MangaDex IDs stay bare
+ * so existing links keep working; other sources are prefixed ("mal:12345").
+ */
+export const toSourceRouteId = (source: SourceName | undefined, sourceId: string): string =>
+  !source || source === DEFAULT_SOURCE ? sourceId : `${source}:${sourceId}`;
+
+export const parseSourceRouteId = (routeId: string): { source: SourceName; sourceId: string } => {
+  const separator = routeId.indexOf(':');
+  const prefix = separator === -1 ? '' : routeId.slice(0, separator);
+  if (isSourceName(prefix)) {
+    return { source: prefix, sourceId: routeId.slice(separator + 1) };
+  }
+  return { source: DEFAULT_SOURCE, sourceId: routeId };
+};
+
+/**
+ * Key that identifies a title across providers, e.g. for matching imports
+ */
+export const getSourceKey = (manhwa: Pick<Manhwa, 'source' | 'source_id' | 'id'>): string =>
+  toSourceRouteId(manhwa.source, manhwa.source_id || manhwa.id);
+
+/**
+ * Details page link for a search or recommendation result
+ */
+export const getDetailsPath = (manhwa: Pick<Manhwa, 'source' | 'source_id' | 'id'>): string =>
+  `/manhwa/${getSourceKey(manhwa)}`;
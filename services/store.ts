@@ -1,17 +1,24 @@
-import { Manhwa, ReadingStatus, UserProgress, LibraryItem, UserProfile, UserStats, ReadingGoal, Achievement, GoalType, TargetType } from '../types';
+import { Manhwa, SourceName, ReadingStatus, UserProgress, LibraryItem, UserProfile, UserStats, ReadingGoal, Achievement, GoalType, TargetType, ReadingEvent, ReadingEventType, Tag, ChapterNote, ChapterNoteInput, Reread, RereadInput, LibraryImportEntry, LibraryImportResult, OfflineConflict } from '../types';
 import { supabase } from './supabase';
-
-// Replace uploads.mangadex.org cover URLs with our proxy in production
-const proxifyCoverUrl = (url: string | null | undefined): string => {
-  if (!url) return '';
-  try {
-    if (typeof window !== 'undefined' && !location.hostname.includes('localhost')) {
-      return url.replace('https://uploads.mangadex.org/covers', '/api/cover');
-    }
-    return url;
-  } catch {
-    return url || '';
-  }
+import { calculateReadingStreak } from './notifications';
+import { LibraryExport, LibraryExportSchema } from '../utils/schemas';
+import { sanitizeInput } from '../utils/sanitize';
+import { diffProgress, ProgressEvent, ProgressSnapshot, rereadChapterEvent } from '../utils/readingEvents';
+import { getTagNames, normalizeTagName, TAG_COLORS } from '../utils/tags';
+import { redactSpoilers } from '../utils/markdown';
+import { formatRating, MAX_RATING, toRatingScale } from '../utils/ratings';
+import { countFinishedRereads, getActiveReread, sortRereads, todayDate } from '../utils/rereads';
+import { getRatingScale } from './ratingScale';
+import { READING_STATUS_TO_MAL_STATUS } from './myanimelist';
+import { DEFAULT_SOURCE, getSourceKey, getSourceProvider, isSourceName, parseSourceRouteId } from './sources';
+import { clearLibraryCache, patchCachedItem, readLibraryCache, updateLibraryCache, writeLibraryCache } from './libraryCache';
+import * as guestStore from './localStore';
+import { GUEST_USER_ID, isGuestMode, setGuestMode } from './localStore';
+import { enqueueMutation, fromPendingId, getKnownProgressVersion, getQueuedMutations, isOffline, isPendingId, rememberProgressVersion, removeQueuedMutation, toPendingId } from './offlineQueue';
+
+// Reverse of the MangaDex provider's getCover, for URLs that come back in from an export file
+const unproxifyCoverUrl = (url: string): string => {
+  return url.startsWith('/api/cover') ? url.replace('/api/cover', 'https://uploads.mangadex.org/covers') : url;
 };
 
 // Cache user ID to avoid repeated slow auth calls
@@ -30,10 +37,11 @@ const getUserId = async (): Promise<string | null> => {
     return userIdPromise;
   }
   
-  // Create new promise and cache it
+  // Create new promise and cache it. The stored session is read locally, so
+  // cached data can be shown before (or without) a round trip to Supabase.
   userIdPromise = (async () => {
-    const { data: { user } } = await supabase.auth.getUser();
-    cachedUserId = user?.id || null;
+    const { data: { session } } = await supabase.auth.getSession();
+    cachedUserId = session?.user?.id || null;
     userIdPromise = null; // Clear promise after resolution
     return cachedUserId;
   })();
@@ -42,120 +50,320 @@ const getUserId = async (): Promise<string | null> => {
 };
 
 // Clear cache on auth state changes
-supabase.auth.onAuthStateChange(() => {
+supabase.auth.onAuthStateChange((event) => {
   cachedUserId = null;
   userIdPromise = null;
+  if (event === 'SIGNED_OUT') {
+    clearLibraryCache();
+  }
+  // Guest data stays in IndexedDB until it is migrated or discarded
+  if (event === 'SIGNED_IN') {
+    setGuestMode(false);
+  }
 });
 
-export const getLibrary = async (): Promise<LibraryItem[]> => {
+// Without an account, guest mode keeps everything in IndexedDB
+// (services/localStore.ts) and the functions below hand over to it
+const isGuest = async (): Promise<boolean> => isGuestMode() && !(await getUserId());
+
+// Cached library data older than this is revalidated on read
+const LIBRARY_CACHE_MAX_AGE_MS = 30 * 1000;
+
+let libraryFetchInFlight: Promise<LibraryItem[] | null> | null = null;
+
+// Titles per request when paging through the library. PostgREST caps a
+// response at 1000 rows by default, so a single select would silently drop
+// the rest of a large library.
+const LIBRARY_PAGE_SIZE = 500;
+
+// Position after the last title of a page. The library is ordered newest
+// first by (created_at, id), which stays stable while titles are added.
+export interface LibraryCursor {
+  createdAt: string;
+  id: string;
+}
+
+// Turn a manhwa row with its reading_progress and manhwa_tags into a LibraryItem
+const toLibraryItem = (m: any): LibraryItem => {
+  // Handle both array and object formats from Supabase
+  let progressData = null;
+  if (m.reading_progress) {
+    if (Array.isArray(m.reading_progress) && m.reading_progress.length > 0) {
+      progressData = m.reading_progress[0];
+    } else if (typeof m.reading_progress === 'object' && m.reading_progress.id) {
+      progressData = m.reading_progress;
+    }
+  }
+  rememberProgressVersion(m.id, progressData?.updated_at ?? null, m.title);
+
+  return {
+    id: m.id,
+    title: m.title,
+    cover_url: getSourceProvider(m.source).getCover(m.cover_url || ''),
+    description: m.description || '',
+    source: isSourceName(m.source) ? m.source : DEFAULT_SOURCE,
+    source_id: m.source_id,
+    mal_id: m.mal_id ?? undefined,
+    created_at: m.created_at,
+    lastChapter: m.last_chapter || undefined,
+    lastChapterSeenAt: m.last_chapter_seen_at ?? undefined,
+    tagIds: (m.manhwa_tags || []).map((t: any) => t.tag_id),
+    progress: progressData ? {
+      id: progressData.id,
+      manhwa_id: m.id,
+      status: progressData.status as ReadingStatus,
+      last_chapter: progressData.last_chapter,
+      rating: progressData.rating,
+      notes: progressData.notes || '',
+      sort_index: progressData.sort_index ?? null,
+      updated_at: progressData.updated_at
+    } : undefined
+  };
+};
+
+/**
+ * One page of the signed-in user's library, newest first, starting after
+ * cursor. nextCursor is null on the last page. Returns null on failure.
+ */
+export const getLibraryPage = async (
+  cursor: LibraryCursor | null = null,
+  limit: number = LIBRARY_PAGE_SIZE
+): Promise<{ items: LibraryItem[]; nextCursor: LibraryCursor | null } | null> => {
   try {
     const userId = await getUserId();
-    if (!userId) return [];
+    if (!userId) return null;
 
-    // Fetch manhwa with their progress in a single query
-    const { data: manhwaList, error } = await supabase
+    // Fetch manhwa with their progress and tags in a single query
+    let query = supabase
       .from('manhwa')
       .select(`
         *,
-        reading_progress (*)
+        reading_progress (*),
+        manhwa_tags (tag_id)
       `)
       .eq('user_id', userId)
-      .order('created_at', { ascending: false });
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit);
+
+    if (cursor) {
+      query = query.or(`created_at.lt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.lt.${cursor.id})`);
+    }
+
+    const { data: manhwaList, error } = await query;
 
     if (error) {
-      console.error('Error fetching library:', error);
-      return [];
+      console.error('Error fetching library page:', error);
+      return null;
     }
 
-    // Transform to LibraryItem format
-    return (manhwaList || []).map((m: any) => {
-      // Handle both array and object formats from Supabase
-      let progressData = null;
-      if (m.reading_progress) {
-        if (Array.isArray(m.reading_progress) && m.reading_progress.length > 0) {
-          progressData = m.reading_progress[0];
-        } else if (typeof m.reading_progress === 'object' && m.reading_progress.id) {
-          progressData = m.reading_progress;
-        }
+    const rows = manhwaList || [];
+    const last: any = rows[rows.length - 1];
+    return {
+      items: rows.map(toLibraryItem),
+      nextCursor: rows.length === limit ? { createdAt: last.created_at, id: last.id } : null
+    };
+  } catch (error) {
+    console.error('Error in getLibraryPage:', error);
+    return null;
+  }
+};
+
+// Fetch the whole library from Supabase a page at a time and store it in the
+// cache. onPage receives the titles loaded so far after each page.
+// Concurrent callers share one request. Returns null on failure so the
+// cached copy is kept.
+const fetchLibrary = (userId: string, onPage?: (items: LibraryItem[]) => void): Promise<LibraryItem[] | null> => {
+  if (libraryFetchInFlight) return libraryFetchInFlight;
+
+  libraryFetchInFlight = (async () => {
+    const items: LibraryItem[] = [];
+    let cursor: LibraryCursor | null = null;
+
+    do {
+      const page = await getLibraryPage(cursor);
+      if (!page) return null;
+      items.push(...page.items);
+      cursor = page.nextCursor;
+      if (cursor) onPage?.([...items]);
+    } while (cursor);
+
+    await writeLibraryCache(userId, items);
+    return items;
+  })().finally(() => {
+    libraryFetchInFlight = null;
+  });
+
+  return libraryFetchInFlight;
+};
+
+/**
+ * Get the current user's library.
+ * Serves the cached copy immediately when there is one and revalidates it in
+ * the background once it is older than LIBRARY_CACHE_MAX_AGE_MS; cache
+ * subscribers receive the fresh data. Pass { fresh: true } to wait for the
+ * network instead. Large libraries are fetched in pages (getLibraryPage);
+ * onPage is called with the titles loaded so far while more are on the way.
+ */
+export const getLibrary = async (
+  options: { fresh?: boolean; onPage?: (items: LibraryItem[]) => void } = {}
+): Promise<LibraryItem[]> => {
+  const userId = await getUserId();
+  if (!userId) return isGuestMode() ? guestStore.getLibrary() : [];
+
+  const cached = await readLibraryCache(userId);
+  if (cached && !options.fresh) {
+    // Versions from a fresh fetch win; the cache only fills gaps (e.g. after
+    // reopening the app offline) so offline edits still have a base version
+    cached.items.forEach(item => {
+      if (!getKnownProgressVersion(item.id)) {
+        rememberProgressVersion(item.id, item.progress?.updated_at ?? null, item.title);
       }
-      
-      return {
-        id: m.id,
-        title: m.title,
-        cover_url: proxifyCoverUrl(m.cover_url) || '',
-        description: m.description || '',
-        source_id: m.source_id,
-        created_at: m.created_at,
-        lastChapter: m.last_chapter || undefined,
-        progress: progressData ? {
-          id: progressData.id,
-          manhwa_id: m.id,
-          status: progressData.status as ReadingStatus,
-          last_chapter: progressData.last_chapter,
-          rating: progressData.rating,
-          notes: progressData.notes || '',
-          updated_at: progressData.updated_at
-        } : undefined
-      };
     });
-  } catch (error) {
-    console.error('Error in getLibrary:', error);
-    return [];
+    if (Date.now() - cached.fetchedAt > LIBRARY_CACHE_MAX_AGE_MS && !isOffline()) {
+      fetchLibrary(userId);
+    }
+    return cached.items;
   }
+
+  return (await fetchLibrary(userId, options.onPage)) || cached?.items || [];
+};
+
+/**
+ * Titles with progress, most recently updated first
+ */
+export const selectRecentlyUpdated = (items: LibraryItem[], limit: number = 10): LibraryItem[] => {
+  return items
+    .filter(item => item.progress?.updated_at)
+    .sort((a, b) => new Date(b.progress!.updated_at).getTime() - new Date(a.progress!.updated_at).getTime())
+    .slice(0, limit);
 };
 
 export const getRecentlyUpdated = async (limit: number = 10): Promise<LibraryItem[]> => {
-  try {
-    const userId = await getUserId();
-    if (!userId) return [];
+  return selectRecentlyUpdated(await getLibrary(), limit);
+};
 
-    // Fixed: Filter by user_id via manhwa relationship to only get current user's data
-    const { data: progressList, error } = await supabase
-      .from('reading_progress')
-      .select(`
-        *,
-        manhwa!inner (*)
-      `)
-      .eq('manhwa.user_id', userId)
-      .order('updated_at', { ascending: false })
-      .limit(limit);
+// Statuses whose titles are checked for new chapters
+const CHAPTER_CHECK_STATUSES = [ReadingStatus.READING, ReadingStatus.ON_HOLD];
+const CHAPTER_CHECK_INTERVAL_MS = 6 * 60 * 60 * 1000; // 6 hours
+const CHAPTER_CHECK_BATCH_SIZE = 10;
+
+export interface LatestChapterUpdate {
+  id: string;
+  lastChapter: number;
+  lastChapterSeenAt: string;
+}
+
+let chapterRefreshInFlight: Promise<number> | null = null;
+const chapterRefreshListeners = new Set<(updates: LatestChapterUpdate[]) => void>();
+
+// Re-check the latest chapter of every Reading / On Hold title that has not
+// been checked recently. Lookups go through each title's source provider one
+// at a time so they stay inside its rate limit; results are saved per batch and
+// reported through onBatch so the UI can update as it goes.
+// Returns the number of titles that got new chapters.
+export const refreshLatestChapters = (
+  onBatch?: (updates: LatestChapterUpdate[]) => void
+): Promise<number> => {
+  if (onBatch) chapterRefreshListeners.add(onBatch);
+
+  // Only one refresh at a time; later callers share it and its batches
+  if (chapterRefreshInFlight) return chapterRefreshInFlight;
+
+  chapterRefreshInFlight = (async () => {
+    try {
+      const guest = await isGuest();
+      const userId = guest ? GUEST_USER_ID : await getUserId();
+      if (!userId) return 0;
+
+      const cutoff = new Date(Date.now() - CHAPTER_CHECK_INTERVAL_MS).toISOString();
+      let titles: any[];
+      if (guest) {
+        titles = await guestStore.getTitlesDueForChapterCheck(CHAPTER_CHECK_STATUSES, cutoff);
+      } else {
+        const { data: due, error } = await supabase
+          .from('manhwa')
+          .select('id, source, source_id, last_chapter, reading_progress!inner (status)')
+          .eq('user_id', userId)
+          .in('reading_progress.status', CHAPTER_CHECK_STATUSES)
+          .or(`chapters_checked_at.is.null,chapters_checked_at.lt.${cutoff}`);
+
+        if (error) {
+          console.error('Error fetching titles to check for new chapters:', error);
+          return 0;
+        }
+        titles = due || [];
+      }
 
-    if (error) {
-      console.error('Error fetching recent updates:', error);
-      return [];
-    }
+      let updatedCount = 0;
 
-    // Transform to LibraryItem format
-    return (progressList || []).map((p: any) => ({
-      id: p.manhwa.id,
-      title: p.manhwa.title,
-      cover_url: proxifyCoverUrl(p.manhwa.cover_url) || '',
-      description: p.manhwa.description || '',
-      source_id: p.manhwa.source_id,
-      created_at: p.manhwa.created_at,
-      lastChapter: p.manhwa.last_chapter || undefined,
-      progress: {
-        id: p.id,
-        manhwa_id: p.manhwa_id,
-        status: p.status as ReadingStatus,
-        last_chapter: p.last_chapter,
-        rating: p.rating,
-        notes: p.notes || '',
-        updated_at: p.updated_at
+      for (let i = 0; i < titles.length; i += CHAPTER_CHECK_BATCH_SIZE) {
+        const batch = titles.slice(i, i + CHAPTER_CHECK_BATCH_SIZE);
+        const checkedAt = new Date().toISOString();
+        const updates: LatestChapterUpdate[] = [];
+
+        for (const title of batch) {
+          const latest = await getSourceProvider(title.source).getChapterCount(title.source_id);
+          // A failed check (network error, rate limit, bad response) is not
+          // recorded, so the title is tried again on the next refresh
+          if (latest === null) continue;
+
+          const changes: Record<string, unknown> = { chapters_checked_at: checkedAt };
+
+          if (latest > (title.last_chapter || 0)) {
+            changes.last_chapter = latest;
+            changes.last_chapter_seen_at = checkedAt;
+            updates.push({ id: title.id, lastChapter: latest, lastChapterSeenAt: checkedAt });
+          }
+
+          if (guest) {
+            await guestStore.saveChapterCheck(title.id, checkedAt, changes.last_chapter as number | undefined);
+            continue;
+          }
+
+          const { error: updateError } = await supabase
+            .from('manhwa')
+            .update(changes)
+            .eq('id', title.id);
+
+          if (updateError) {
+            console.error('Error saving latest chapter:', updateError);
+          }
+        }
+
+        updatedCount += updates.length;
+        if (updates.length > 0) {
+          const byId = new Map(updates.map(u => [u.id, u]));
+          await updateLibraryCache(userId, items => items.map(item => {
+            const update = byId.get(item.id);
+            return update ? { ...item, lastChapter: update.lastChapter, lastChapterSeenAt: update.lastChapterSeenAt } : item;
+          }));
+          chapterRefreshListeners.forEach(listener => listener(updates));
+        }
       }
-    }));
-  } catch (error) {
-    console.error('Error in getRecentlyUpdated:', error);
-    return [];
-  }
+
+      return updatedCount;
+    } catch (error) {
+      console.error('Error in refreshLatestChapters:', error);
+      return 0;
+    } finally {
+      chapterRefreshInFlight = null;
+      chapterRefreshListeners.clear();
+    }
+  })();
+
+  return chapterRefreshInFlight;
 };
 
-export const isInLibrary = async (userId: string, sourceId: string): Promise<boolean> => {
+export const isInLibrary = async (userId: string, sourceId: string, source: SourceName = DEFAULT_SOURCE): Promise<boolean> => {
+  if (userId === GUEST_USER_ID) return guestStore.isInLibrary(sourceId, source);
+
   try {
     const { data } = await supabase
       .from('manhwa')
       .select('id')
       .eq('user_id', userId)
+      .eq('source', source)
       .eq('source_id', sourceId)
       .maybeSingle();
 
@@ -166,17 +374,75 @@ export const isInLibrary = async (userId: string, sourceId: string): Promise<boo
   }
 };
 
+// Write reading_events rows for a title. Logging failures are reported but
+// never fail the save that caused them.
+const insertReadingEvents = async (userId: string, manhwaId: string, events: ProgressEvent[]): Promise<void> => {
+  if (events.length === 0) return;
+
+  try {
+    const { error } = await supabase
+      .from('reading_events')
+      .insert(events.map(event => ({ ...event, user_id: userId, manhwa_id: manhwaId })));
+    if (error) {
+      console.error('Error logging reading events:', error);
+    }
+  } catch (error) {
+    console.error('Error in insertReadingEvents:', error);
+  }
+};
+
+// Write one reading_events row per field that changed between two progress
+// snapshots
+const logReadingEvents = (
+  userId: string,
+  manhwaId: string,
+  previous: ProgressSnapshot | null,
+  next: ProgressSnapshot
+): Promise<void> => insertReadingEvents(userId, manhwaId, diffProgress(previous, next));
+
+// Put a just-added title into the cached library. Row IDs and timestamps are
+// filled in locally, so the cache is marked stale to pick up the real row.
+const cacheAddedTitle = async (userId: string, manhwaId: string, manhwa: Manhwa, status: ReadingStatus) => {
+  const now = new Date().toISOString();
+  const item: LibraryItem = {
+    ...manhwa,
+    id: manhwaId,
+    cover_url: getSourceProvider(manhwa.source).getCover(manhwa.cover_url),
+    created_at: now,
+    progress: { id: '', manhwa_id: manhwaId, status, last_chapter: 0, rating: 0, notes: '', updated_at: now }
+  };
+
+  await updateLibraryCache(
+    userId,
+    items => [item, ...items.filter(i => i.id !== manhwaId && getSourceKey(i) !== getSourceKey(manhwa))],
+    true
+  );
+};
+
 // Returns the database ID of the manhwa after adding
 export const addToLibrary = async (manhwa: Manhwa, status: ReadingStatus = ReadingStatus.PLAN_TO_READ): Promise<string> => {
+  if (await isGuest()) return guestStore.addToLibrary(manhwa, status);
+
+  // Offline: queue the insert and hand back a placeholder ID
+  if (isOffline()) {
+    const pendingId = toPendingId(getSourceKey(manhwa));
+    await enqueueMutation({ type: 'add', manhwaId: pendingId, title: manhwa.title, manhwa, status, baseUpdatedAt: null });
+    const userId = await getUserId();
+    if (userId) await cacheAddedTitle(userId, pendingId, manhwa, status);
+    return pendingId;
+  }
+
   try {
     const userId = await getUserId();
     if (!userId) throw new Error('User not authenticated');
 
     // Insert or update manhwa
+    const source = manhwa.source || DEFAULT_SOURCE;
     const { data: existingManhwa } = await supabase
       .from('manhwa')
       .select('id')
       .eq('user_id', userId)
+      .eq('source', source)
       .eq('source_id', manhwa.source_id)
       .maybeSingle();
 
@@ -190,11 +456,15 @@ export const addToLibrary = async (manhwa: Manhwa, status: ReadingStatus = Readi
         .from('manhwa')
         .insert({
           user_id: userId,
+          source,
           source_id: manhwa.source_id,
           title: manhwa.title,
           cover_url: manhwa.cover_url,
           description: manhwa.description,
-          last_chapter: (manhwa as any).lastChapter || null
+          mal_id: manhwa.mal_id ?? null,
+          last_chapter: (manhwa as any).lastChapter || null,
+          last_chapter_seen_at: (manhwa as any).lastChapter ? new Date().toISOString() : null,
+          chapters_checked_at: new Date().toISOString()
         })
         .select()
         .single();
@@ -230,6 +500,9 @@ export const addToLibrary = async (manhwa: Manhwa, status: ReadingStatus = Readi
         console.error('Error inserting progress:', progressError);
         throw progressError;
       }
+
+      await logReadingEvents(userId, manhwaId, null, { status, last_chapter: 0, rating: 0 });
+      await cacheAddedTitle(userId, manhwaId, manhwa, status);
     }
     
     return manhwaId;
@@ -247,16 +520,17 @@ export const quickStartReading = async (manhwa: Manhwa): Promise<string> => {
   return addToLibrary(manhwa, ReadingStatus.READING);
 };
 
-// Get manhwa by source_id (MangaDex ID) - returns database ID if found
-export const getManhwaIdBySourceId = async (sourceId: string): Promise<string | null> => {
+// Get manhwa by source and source_id - returns database ID if found
+export const getManhwaIdBySourceId = async (sourceId: string, source: SourceName = DEFAULT_SOURCE): Promise<string | null> => {
   try {
     const userId = await getUserId();
-    if (!userId) return null;
+    if (!userId) return isGuestMode() ? guestStore.getManhwaIdBySourceId(sourceId, source) : null;
 
     const { data } = await supabase
       .from('manhwa')
       .select('id')
       .eq('user_id', userId)
+      .eq('source', source)
       .eq('source_id', sourceId)
       .maybeSingle();
 
@@ -268,8 +542,41 @@ export const getManhwaIdBySourceId = async (sourceId: string): Promise<string |
 };
 
 export const updateProgress = async (manhwaId: string, updates: Partial<UserProgress>): Promise<UserProgress | null> => {
+  if (await isGuest()) return guestStore.updateProgress(manhwaId, updates);
+
+  // Offline: queue the edit and return the progress as it will look once saved
+  if (isOffline()) {
+    const known = getKnownProgressVersion(manhwaId);
+    await enqueueMutation({
+      type: 'progress',
+      manhwaId,
+      title: known?.title || '',
+      updates,
+      baseUpdatedAt: known?.updatedAt ?? null,
+    });
+    const queued: UserProgress = {
+      id: updates.id || '',
+      manhwa_id: manhwaId,
+      status: updates.status || ReadingStatus.PLAN_TO_READ,
+      last_chapter: updates.last_chapter ?? 0,
+      rating: updates.rating ?? 0,
+      notes: updates.notes ?? '',
+      ...(updates.sort_index !== undefined ? { sort_index: updates.sort_index } : {}),
+      updated_at: new Date().toISOString()
+    };
+    const userId = await getUserId();
+    if (userId) await patchCachedItem(userId, manhwaId, item => ({ ...item, progress: { sort_index: item.progress?.sort_index, ...queued } }));
+    return queued;
+  }
+
   try {
-    // Use upsert for better performance - single query instead of select + insert/update
+    // Read the current row first so the change can be written to the event log
+    const { data: previous } = await supabase
+      .from('reading_progress')
+      .select('status, last_chapter, rating')
+      .eq('manhwa_id', manhwaId)
+      .maybeSingle();
+
     const { data: progress, error } = await supabase
       .from('reading_progress')
       .upsert({
@@ -277,7 +584,9 @@ export const updateProgress = async (manhwaId: string, updates: Partial<UserProg
         status: updates.status || 'Plan to Read',
         last_chapter: updates.last_chapter ?? 0,
         rating: updates.rating ?? 0,
-        notes: updates.notes ?? ''
+        notes: updates.notes ?? '',
+        // Left out unless given so edits elsewhere keep the board position
+        ...(updates.sort_index !== undefined ? { sort_index: updates.sort_index } : {})
       }, {
         onConflict: 'manhwa_id',
         ignoreDuplicates: false
@@ -291,29 +600,134 @@ export const updateProgress = async (manhwaId: string, updates: Partial<UserProg
     }
 
     const p = progress as any;
-    return {
+    rememberProgressVersion(manhwaId, p.updated_at);
+
+    const saved: UserProgress = {
       id: p.id,
       manhwa_id: p.manhwa_id,
       status: p.status as ReadingStatus,
       last_chapter: p.last_chapter,
       rating: p.rating,
       notes: p.notes || '',
+      sort_index: p.sort_index ?? null,
       updated_at: p.updated_at
     };
+
+    const userId = await getUserId();
+    if (userId) {
+      await logReadingEvents(userId, manhwaId, previous as ProgressSnapshot | null, {
+        status: p.status,
+        last_chapter: p.last_chapter,
+        rating: p.rating
+      });
+      await patchCachedItem(userId, manhwaId, item => ({ ...item, progress: saved }));
+    }
+
+    return saved;
   } catch (error) {
     console.error('Error in updateProgress:', error);
     return null;
   }
 };
 
+/**
+ * Move a title within its board column. Only sort_index is written, so
+ * reordering doesn't count as a progress update. Queued while offline.
+ */
+export const updateSortIndex = async (manhwaId: string, sortIndex: number): Promise<boolean> => {
+  if (await isGuest()) return guestStore.updateSortIndex(manhwaId, sortIndex);
+
+  const cacheSortIndex = async (userId: string | null) => {
+    if (!userId) return;
+    await patchCachedItem(userId, manhwaId, item => (
+      item.progress ? { ...item, progress: { ...item.progress, sort_index: sortIndex } } : item
+    ));
+  };
+
+  // Offline, or the title's insert is still queued: replayed after it
+  if (isOffline() || isPendingId(manhwaId)) {
+    const known = getKnownProgressVersion(manhwaId);
+    await enqueueMutation({
+      type: 'sort',
+      manhwaId,
+      title: known?.title || '',
+      updates: { sort_index: sortIndex },
+      baseUpdatedAt: known?.updatedAt ?? null,
+    });
+    await cacheSortIndex(await getUserId());
+    return true;
+  }
+
+  try {
+    const userId = await getUserId();
+    if (!userId) throw new Error('User not authenticated');
+
+    // reading_progress has no user_id column, so check the title is the user's
+    const { data: owned, error: ownerError } = await supabase
+      .from('manhwa')
+      .select('id')
+      .eq('id', manhwaId)
+      .eq('user_id', userId)
+      .maybeSingle();
+
+    if (ownerError || !owned) {
+      console.error('Error updating board position:', ownerError || 'Title not in library');
+      return false;
+    }
+
+    const { error } = await supabase
+      .from('reading_progress')
+      .update({ sort_index: sortIndex })
+      .eq('manhwa_id', manhwaId);
+
+    if (error) {
+      console.error('Error updating board position:', error);
+      return false;
+    }
+
+    await cacheSortIndex(userId);
+    return true;
+  } catch (error) {
+    console.error('Error in updateSortIndex:', error);
+    return false;
+  }
+};
+
+// Link (or unlink, with null) a library title to a MyAnimeList entry
+export const updateManhwaMalId = async (manhwaId: string, malId: number | null): Promise<boolean> => {
+  if (await isGuest()) return guestStore.updateManhwaMalId(manhwaId, malId);
+
+  try {
+    const { error } = await supabase
+      .from('manhwa')
+      .update({ mal_id: malId })
+      .eq('id', manhwaId);
+
+    if (error) {
+      console.error('Error updating MAL link:', error);
+      return false;
+    }
+
+    const userId = await getUserId();
+    if (userId) await patchCachedItem(userId, manhwaId, item => ({ ...item, mal_id: malId ?? undefined }));
+    return true;
+  } catch (error) {
+    console.error('Error in updateManhwaMalId:', error);
+    return false;
+  }
+};
+
 export const getManhwaDetails = async (id: string): Promise<LibraryItem | null> => {
+  if (await isGuest()) return guestStore.getManhwaDetails(id);
+
   try {
     // Use maybeSingle() to gracefully handle when manhwa doesn't exist
     const { data: manhwa, error } = await supabase
       .from('manhwa')
       .select(`
         *,
-        reading_progress (*)
+        reading_progress (*),
+        manhwa_tags (tag_id)
       `)
       .eq('id', id)
       .maybeSingle();
@@ -328,36 +742,7 @@ export const getManhwaDetails = async (id: string): Promise<LibraryItem | null>
       return null;
     }
 
-    const m: any = manhwa;
-    
-    // Handle both array and object formats from Supabase
-    let progressData = null;
-    if (m.reading_progress) {
-      if (Array.isArray(m.reading_progress) && m.reading_progress.length > 0) {
-        progressData = m.reading_progress[0];
-      } else if (typeof m.reading_progress === 'object' && m.reading_progress.id) {
-        progressData = m.reading_progress;
-      }
-    }
-    
-    return {
-      id: m.id,
-      title: m.title,
-      cover_url: proxifyCoverUrl(m.cover_url) || '',
-      description: m.description || '',
-      source_id: m.source_id,
-      created_at: m.created_at,
-      lastChapter: m.last_chapter || undefined,
-      progress: progressData ? {
-        id: progressData.id,
-        manhwa_id: m.id,
-        status: progressData.status as ReadingStatus,
-        last_chapter: progressData.last_chapter,
-        rating: progressData.rating,
-        notes: progressData.notes || '',
-        updated_at: progressData.updated_at
-      } : undefined
-    };
+    return toLibraryItem(manhwa);
   } catch (error) {
     console.error('Error in getManhwaDetails:', error);
     return null;
@@ -365,6 +750,20 @@ export const getManhwaDetails = async (id: string): Promise<LibraryItem | null>
 };
 
 export const removeFromLibrary = async (id: string): Promise<void> => {
+  if (await isGuest()) return guestStore.removeFromLibrary(id);
+
+  const uncache = async () => {
+    const userId = await getUserId();
+    if (userId) await updateLibraryCache(userId, items => items.filter(item => item.id !== id));
+  };
+
+  if (isOffline()) {
+    const known = getKnownProgressVersion(id);
+    await enqueueMutation({ type: 'remove', manhwaId: id, title: known?.title || '', baseUpdatedAt: known?.updatedAt ?? null });
+    await uncache();
+    return;
+  }
+
   try {
     // Delete progress first (will cascade due to foreign key)
     const { error: progressError } = await supabase
@@ -386,21 +785,126 @@ export const removeFromLibrary = async (id: string): Promise<void> => {
       console.error('Error deleting manhwa:', manhwaError);
       throw manhwaError;
     }
+
+    await uncache();
   } catch (error) {
     console.error('Error in removeFromLibrary:', error);
     throw error;
   }
 };
 
+let replayInFlight: Promise<{ applied: number; conflicts: OfflineConflict[] }> | null = null;
+
+/**
+ * Replay writes queued while offline, oldest first.
+ * A progress edit or removal loses when the title's progress was updated on
+ * the server after the version the edit was made against; later queued edits
+ * to that title lose with it. Replay stops at the first network failure and
+ * leaves the rest queued for next time.
+ */
+export const replayOfflineMutations = (): Promise<{ applied: number; conflicts: OfflineConflict[] }> => {
+  if (replayInFlight) return replayInFlight;
+
+  replayInFlight = (async () => {
+    const conflicts: OfflineConflict[] = [];
+    let applied = 0;
+
+    // Pending IDs resolved to real ones as their inserts are replayed
+    const resolvedIds = new Map<string, string>();
+    // Titles this replay already wrote (their server version is ours now)
+    const written = new Set<string>();
+    // Titles whose earlier queued edit lost a conflict
+    const lost = new Map<string, string>();
+
+    try {
+      for (const mutation of await getQueuedMutations()) {
+        if (isOffline()) break;
+        let manhwaId = resolvedIds.get(mutation.manhwaId) || mutation.manhwaId;
+        // The insert may have been replayed by an earlier, interrupted run
+        if (mutation.type !== 'add' && isPendingId(manhwaId)) {
+          const { source, sourceId } = parseSourceRouteId(fromPendingId(manhwaId));
+          manhwaId = (await getManhwaIdBySourceId(sourceId, source)) || manhwaId;
+        }
+
+        if (mutation.type === 'add') {
+          const id = await addToLibrary(mutation.manhwa!, mutation.status);
+          resolvedIds.set(mutation.manhwaId, id);
+          written.add(id);
+        } else if (isPendingId(manhwaId)) {
+          // The title this edit belongs to is not in the library; drop it
+        } else if (mutation.type === 'sort') {
+          // Board moves don't change the progress version, so they never
+          // conflict. One that fails (the title was removed elsewhere) is
+          // dropped rather than holding up the queue.
+          await updateSortIndex(manhwaId, mutation.updates?.sort_index ?? 0);
+        } else if (lost.has(manhwaId)) {
+          conflicts.push({ mutation, serverUpdatedAt: lost.get(manhwaId)! });
+        } else {
+          if (!written.has(manhwaId) && mutation.baseUpdatedAt) {
+            const { data: current, error } = await supabase
+              .from('reading_progress')
+              .select('updated_at')
+              .eq('manhwa_id', manhwaId)
+              .maybeSingle();
+
+            if (error) throw error;
+
+            const serverUpdatedAt = (current as any)?.updated_at;
+            if (serverUpdatedAt && new Date(serverUpdatedAt) > new Date(mutation.baseUpdatedAt)) {
+              lost.set(manhwaId, serverUpdatedAt);
+              conflicts.push({ mutation, serverUpdatedAt });
+              await removeQueuedMutation(mutation.id!);
+              continue;
+            }
+          }
+
+          if (mutation.type === 'progress') {
+            const saved = await updateProgress(manhwaId, mutation.updates || {});
+            if (!saved) throw new Error('Progress update failed');
+          } else {
+            await removeFromLibrary(manhwaId);
+          }
+          written.add(manhwaId);
+        }
+
+        await removeQueuedMutation(mutation.id!);
+        applied++;
+      }
+    } catch (error) {
+      console.error('Error replaying offline changes:', error);
+    } finally {
+      replayInFlight = null;
+    }
+
+    return { applied, conflicts };
+  })();
+
+  return replayInFlight;
+};
+
+export interface ExportOptions {
+  redactSpoilers?: boolean; // Replace spoilers in notes with a placeholder
+}
+
+const exportNotes = (notes: string | undefined, options: ExportOptions): string =>
+  options.redactSpoilers ? redactSpoilers(notes || '') : notes || '';
+
 /**
  * Export library data as JSON
  */
-export const exportLibraryAsJSON = async (): Promise<Blob> => {
-  const library = await getLibrary();
+export const exportLibraryAsJSON = async (options: ExportOptions = {}): Promise<Blob> => {
+  const [library, tags] = await Promise.all([getLibrary({ fresh: true }), getTags()]);
+  // Tags are exported by name; IDs mean nothing outside this account
   const exportData = {
     exportDate: new Date().toISOString(),
-    version: '1.0',
-    library
+    version: '3.0',
+    ratingScale: getRatingScale(), // Ratings below are out of 100 whatever the scale
+    tags: tags.map(({ name, color }) => ({ name, color })),
+    library: library.map(({ tagIds, ...item }) => ({
+      ...item,
+      progress: item.progress && { ...item.progress, notes: exportNotes(item.progress.notes, options) },
+      tags: getTagNames({ ...item, tagIds }, tags)
+    }))
   };
   
   const json = JSON.stringify(exportData, null, 2);
@@ -410,19 +914,21 @@ export const exportLibraryAsJSON = async (): Promise<Blob> => {
 /**
  * Export library data as CSV
  */
-export const exportLibraryAsCSV = async (): Promise<Blob> => {
-  const library = await getLibrary();
+export const exportLibraryAsCSV = async (options: ExportOptions = {}): Promise<Blob> => {
+  const [library, tags] = await Promise.all([getLibrary({ fresh: true }), getTags()]);
   
   // CSV headers
-  const headers = ['Title', 'Status', 'Last Chapter', 'Rating', 'Notes', 'Source ID', 'Created At', 'Updated At'];
+  const headers = ['Title', 'Status', 'Last Chapter', 'Rating', 'Notes', 'Tags', 'Source', 'Source ID', 'Created At', 'Updated At'];
   
   // CSV rows
   const rows = library.map(item => [
     `"${item.title.replace(/"/g, '""')}"`, // Escape quotes
     item.progress?.status || 'Plan to Read',
     item.progress?.last_chapter || 0,
-    item.progress?.rating || 0,
-    `"${(item.progress?.notes || '').replace(/"/g, '""')}"`,
+    formatRating(item.progress?.rating || 0, getRatingScale()),
+    `"${exportNotes(item.progress?.notes, options).replace(/"/g, '""')}"`,
+    `"${getTagNames(item, tags).join('; ').replace(/"/g, '""')}"`,
+    item.source || DEFAULT_SOURCE,
     item.source_id,
     new Date(item.created_at).toLocaleDateString(),
     item.progress?.updated_at ? new Date(item.progress.updated_at).toLocaleDateString() : ''
@@ -432,72 +938,551 @@ export const exportLibraryAsCSV = async (): Promise<Blob> => {
   return new Blob([csv], { type: 'text/csv' });
 };
 
-// Account Page Functions
+/**
+ * Export library data as a MyAnimeList-compatible manga list XML
+ */
+export const exportLibraryAsMALXML = async (): Promise<Blob> => {
+  const library = await getLibrary({ fresh: true });
+  const profile = await getUserProfile();
+  const rereads = await getRereads();
+
+  // CDATA cannot contain "]]>", so split it across two sections
+  const cdata = (value: string) => `<![CDATA[${value.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+  const formatDate = (value?: string) => value ? new Date(value).toISOString().split('T')[0] : '0000-00-00';
+  const countStatus = (status: ReadingStatus) =>
+    library.filter(item => (item.progress?.status || ReadingStatus.PLAN_TO_READ) === status).length;
+
+  const entries = library.map(item => {
+    const status = item.progress?.status || ReadingStatus.PLAN_TO_READ;
+    const titleRereads = rereads.filter(reread => reread.manhwa_id === item.id);
+    return `  <manga>
+    <manga_mangadb_id>${item.mal_id || 0}</manga_mangadb_id>
+    <manga_title>${cdata(item.title)}</manga_title>
+    <manga_volumes>0</manga_volumes>
+    <manga_chapters>${item.lastChapter || 0}</manga_chapters>
+    <my_id>0</my_id>
+    <my_read_volumes>0</my_read_volumes>
+    <my_read_chapters>${item.progress?.last_chapter || 0}</my_read_chapters>
+    <my_start_date>0000-00-00</my_start_date>
+    <my_finish_date>${status === ReadingStatus.COMPLETED ? formatDate(item.progress?.updated_at) : '0000-00-00'}</my_finish_date>
+    <my_scanalation_group>${cdata('')}</my_scanalation_group>
+    <my_score>${toRatingScale(item.progress?.rating || 0, 'point10')}</my_score>
+    <my_storage></my_storage>
+    <my_retail_volumes>0</my_retail_volumes>
+    <my_status>${READING_STATUS_TO_MAL_STATUS[status]}</my_status>
+    <my_comments>${cdata(item.progress?.notes || '')}</my_comments>
+    <my_times_read>${countFinishedRereads(titleRereads)}</my_times_read>
+    <my_tags>${cdata('')}</my_tags>
+    <my_priority>Low</my_priority>
+    <my_reread_value></my_reread_value>
+    <my_rereading>${getActiveReread(titleRereads) ? 'YES' : 'NO'}</my_rereading>
+    <my_discuss>YES</my_discuss>
+    <my_sns>default</my_sns>
+    <update_on_import>1</update_on_import>
+  </manga>`;
+  });
+
+  const xml = `<?xml version="1.0" encoding="UTF-8" ?>
+<myanimelist>
+  <myinfo>
+    <user_id>0</user_id>
+    <user_name>${cdata(profile?.username || '')}</user_name>
+    <user_export_type>2</user_export_type>
+    <user_total_manga>${library.length}</user_total_manga>
+    <user_total_reading>${countStatus(ReadingStatus.READING)}</user_total_reading>
+    <user_total_completed>${countStatus(ReadingStatus.COMPLETED)}</user_total_completed>
+    <user_total_onhold>${countStatus(ReadingStatus.ON_HOLD)}</user_total_onhold>
+    <user_total_dropped>${countStatus(ReadingStatus.DROPPED)}</user_total_dropped>
+    <user_total_plantoread>${countStatus(ReadingStatus.PLAN_TO_READ)}</user_total_plantoread>
+  </myinfo>
+${entries.join('\n')}
+</myanimelist>
+`;
+
+  return new Blob([xml], { type: 'application/xml' });
+};
 
-export const getUserProfile = async (): Promise<UserProfile | null> => {
+/**
+ * Parse and validate a file produced by exportLibraryAsJSON
+ */
+export const parseLibraryExport = (text: string): { success: boolean; data?: LibraryExport; error?: string } => {
+  let json: unknown;
   try {
-    const { data: { user } } = await supabase.auth.getUser();
-    if (!user) return null;
+    json = JSON.parse(text);
+  } catch {
+    return { success: false, error: 'File is not valid JSON' };
+  }
 
-    return {
-      id: user.id,
-      email: user.email || '',
-      username: user.user_metadata?.username || user.email?.split('@')[0] || 'User',
-      created_at: user.created_at || new Date().toISOString()
-    };
-  } catch (error) {
-    console.error('Error getting user profile:', error);
-    return null;
+  const version = (json as any)?.version;
+  const result = LibraryExportSchema.safeParse(json);
+  if (!result.success) {
+    if (version !== undefined && !['1.0', '2.0', '3.0'].includes(version)) {
+      return { success: false, error: `Unsupported export version: ${String(version)}` };
+    }
+    const issue = result.error.issues[0];
+    const path = issue?.path.length ? ` at ${issue.path.join('.')}` : '';
+    return { success: false, error: `Not a doofTrack export: ${issue?.message || 'invalid format'}${path}` };
   }
+
+  return { success: true, data: result.data };
 };
 
-export const getUserStatistics = async (): Promise<UserStats> => {
-  try {
-    const library = await getLibrary();
-    
-    const totalManhwa = library.length;
-    const currentlyReading = library.filter(item => item.progress?.status === ReadingStatus.READING).length;
-    const completed = library.filter(item => item.progress?.status === ReadingStatus.COMPLETED).length;
-    
-    // Calculate total chapters read
-    const totalChapters = library.reduce((sum, item) => {
-      return sum + (item.progress?.last_chapter || 0);
-    }, 0);
-    
-    // Calculate average rating (exclude 0 ratings)
-    const ratedItems = library.filter(item => (item.progress?.rating || 0) > 0);
-    const averageRating = ratedItems.length > 0
-      ? ratedItems.reduce((sum, item) => sum + (item.progress?.rating || 0), 0) / ratedItems.length
-      : 0;
-    
-    // Calculate completion rate
-    const completionRate = totalManhwa > 0 ? (completed / totalManhwa) * 100 : 0;
-    
-    // Calculate days active
-    const profile = await getUserProfile();
-    const daysActive = profile 
-      ? Math.floor((Date.now() - new Date(profile.created_at).getTime()) / (1000 * 60 * 60 * 24))
-      : 0;
-    
-    return {
-      totalManhwa,
-      currentlyReading,
-      completed,
-      totalChapters,
-      averageRating: Math.round(averageRating * 10) / 10, // Round to 1 decimal
-      completionRate: Math.round(completionRate),
-      daysActive
-    };
-  } catch (error) {
-    console.error('Error calculating user statistics:', error);
-    return {
+const sameProgress = (a: UserProgress, b: UserProgress): boolean =>
+  a.status === b.status &&
+  a.last_chapter === b.last_chapter &&
+  a.rating === b.rating &&
+  (a.notes || '') === (b.notes || '');
+
+/**
+ * Compare items from any import source against the current library, keyed by
+ * source and source_id (see getSourceKey)
+ */
+export const planImportItems = async (items: LibraryItem[]): Promise<LibraryImportEntry[]> => {
+  const library = await getLibrary({ fresh: true });
+  const bySourceKey = new Map(library.map(item => [getSourceKey(item), item]));
+
+  return items.map((incoming): LibraryImportEntry => {
+    const existing = bySourceKey.get(getSourceKey(incoming));
+
+    if (!existing) {
+      return { action: 'create', incoming };
+    }
+    if (!incoming.progress || (existing.progress && sameProgress(existing.progress, incoming.progress))) {
+      return { action: 'unchanged', incoming, existing };
+    }
+    if (existing.progress && new Date(existing.progress.updated_at) > new Date(incoming.progress.updated_at)) {
+      return { action: 'conflict', incoming, existing };
+    }
+    return { action: 'update', incoming, existing };
+  });
+};
+
+/**
+ * Compare a doofTrack export against the current library
+ */
+export const planLibraryImport = async (data: LibraryExport): Promise<LibraryImportEntry[]> => {
+  const entries = await planImportItems(data.library.map(({ tags: _tags, ...raw }: LibraryExport['library'][number]) => ({
+    ...raw,
+    cover_url: unproxifyCoverUrl(raw.cover_url),
+    progress: raw.progress ? {
+      id: raw.progress.id || '',
+      manhwa_id: raw.progress.manhwa_id || raw.id,
+      status: raw.progress.status,
+      last_chapter: raw.progress.last_chapter,
+      rating: raw.progress.rating,
+      notes: raw.progress.notes,
+      updated_at: raw.progress.updated_at
+    } : undefined
+  })));
+
+  // 1.0 files have no tags
+  if (data.version === '1.0') return entries;
+
+  const colors = new Map(data.tags.map(tag => [tag.name.toLowerCase(), tag.color]));
+  return entries.map((entry, index) => ({
+    ...entry,
+    tags: data.library[index].tags
+      .map(normalizeTagName)
+      .filter(name => name !== '')
+      .map(name => {
+        const color = colors.get(name.toLowerCase());
+        return { name, color: color && TAG_COLORS.includes(color) ? color : TAG_COLORS[0] };
+      })
+  }));
+};
+
+/**
+ * Apply an import plan. Conflicts are skipped unless their source key is listed
+ * in overwriteConflicts. Entries are applied one at a time. Tags from the file
+ * are added to every title that ends up in the library, never removed.
+ */
+export const applyLibraryImport = async (
+  entries: LibraryImportEntry[],
+  overwriteConflicts: Set<string> = new Set()
+): Promise<LibraryImportResult> => {
+  const result: LibraryImportResult = { created: 0, updated: 0, skipped: 0, failed: 0 };
+
+  // Tag name (lower case) -> ID, loaded the first time an entry has tags
+  let tagIds: Map<string, string> | null = null;
+  const addImportedTags = async (manhwaId: string, tags: LibraryImportEntry['tags'] = []) => {
+    if (tags.length === 0) return;
+    tagIds ??= new Map((await getTags()).map(tag => [tag.name.toLowerCase(), tag.id]));
+    for (const tag of tags) {
+      const key = tag.name.toLowerCase();
+      let tagId = tagIds.get(key);
+      if (!tagId) {
+        tagId = (await createTag(tag.name, tag.color))?.id;
+        if (!tagId) continue;
+        tagIds.set(key, tagId);
+      }
+      await addTagToTitles(tagId, [manhwaId]);
+    }
+  };
+
+  for (const entry of entries) {
+    const { incoming, existing } = entry;
+    const progress = incoming.progress;
+    const shouldWrite = entry.action === 'create' || entry.action === 'update' ||
+      (entry.action === 'conflict' && overwriteConflicts.has(getSourceKey(incoming)));
+
+    if (!shouldWrite) {
+      if (entry.action === 'unchanged' && existing) {
+        await addImportedTags(existing.id, entry.tags);
+      }
+      result.skipped++;
+      continue;
+    }
+
+    try {
+      let manhwaId = existing?.id;
+      if (!manhwaId) {
+        manhwaId = await addToLibrary(incoming, progress?.status || ReadingStatus.PLAN_TO_READ);
+      }
+
+      if (progress) {
+        const saved = await updateProgress(manhwaId, {
+          status: progress.status,
+          last_chapter: progress.last_chapter,
+          rating: progress.rating,
+          notes: progress.notes.trim()
+        });
+        if (!saved) {
+          result.failed++;
+          continue;
+        }
+      }
+
+      await addImportedTags(manhwaId, entry.tags);
+
+      if (entry.action === 'create') {
+        result.created++;
+      } else {
+        result.updated++;
+      }
+    } catch (error) {
+      console.error(`Error importing "${incoming.title}":`, error);
+      result.failed++;
+    }
+  }
+
+  return result;
+};
+
+// Guest Migration
+
+export interface GuestMigrationResult {
+  titles: number;
+  goals: number;
+  achievements: number;
+  failed: number;
+}
+
+// Source IDs per request when looking up guest titles already in the account
+const MIGRATION_LOOKUP_CHUNK_SIZE = 100;
+
+/**
+ * Copy the guest library, reading history, tags, chapter notes, re-reads,
+ * goals and achievements into the signed-in account, then delete the local copy.
+ * Titles already in the account keep whichever progress was updated last.
+ * Guest records are deleted as they are copied, so if anything failed the
+ * rest is kept on this device and a retry only copies what is left.
+ */
+export const migrateGuestData = async (): Promise<{ success: boolean; result?: GuestMigrationResult; error?: string }> => {
+  const userId = await getUserId();
+  if (!userId) return { success: false, error: 'User not authenticated' };
+
+  try {
+    const data = await guestStore.getGuestData();
+    const result: GuestMigrationResult = { titles: 0, goals: 0, achievements: 0, failed: 0 };
+
+    // Only the guest's titles are looked up, a chunk of source IDs at a time,
+    // so a large account isn't cut off by the row limit on a single select
+    const rows: any[] = [];
+    const sourceIds = [...new Set(data.library.map(title => title.source_id))];
+    for (let i = 0; i < sourceIds.length; i += MIGRATION_LOOKUP_CHUNK_SIZE) {
+      const { data: chunk, error } = await supabase
+        .from('manhwa')
+        .select('id, source, source_id, reading_progress (updated_at)')
+        .eq('user_id', userId)
+        .in('source_id', sourceIds.slice(i, i + MIGRATION_LOOKUP_CHUNK_SIZE));
+
+      if (error) throw error;
+      rows.push(...(chunk || []));
+    }
+
+    const existingByKey = new Map(rows.map((row: any) => [
+      getSourceKey({ id: row.id, source: isSourceName(row.source) ? row.source : DEFAULT_SOURCE, source_id: row.source_id }),
+      row
+    ]));
+
+    // Guest tags are matched to the account's tags by name
+    const migratedTagIds = new Map<string, string>();
+    if (data.tags.length > 0) {
+      const accountTags = new Map((await getTags()).map(tag => [tag.name.toLowerCase(), tag.id]));
+      for (const tag of data.tags) {
+        const tagId = accountTags.get(tag.name.toLowerCase()) || (await createTag(tag.name, tag.color))?.id;
+        if (tagId) {
+          migratedTagIds.set(tag.id, tagId);
+        } else {
+          result.failed++;
+        }
+      }
+    }
+
+    // Each title is copied with its tags, reading history, chapter notes and
+    // re-reads. Guest records are deleted as soon as their copy is saved, so
+    // a retry after a failure only copies what is left.
+    for (const title of data.library) {
+      try {
+        const existing = existingByKey.get(getSourceKey(title));
+        let manhwaId: string = existing?.id;
+
+        if (!manhwaId) {
+          const { data: inserted, error: insertError } = await supabase
+            .from('manhwa')
+            .insert({
+              user_id: userId,
+              source: title.source || DEFAULT_SOURCE,
+              source_id: title.source_id,
+              title: title.title,
+              cover_url: title.cover_url,
+              description: title.description,
+              mal_id: title.mal_id ?? null,
+              last_chapter: title.lastChapter || null,
+              last_chapter_seen_at: title.lastChapterSeenAt || null,
+              chapters_checked_at: title.chaptersCheckedAt || null,
+              created_at: title.created_at
+            })
+            .select('id')
+            .single();
+
+          if (insertError) throw insertError;
+          manhwaId = (inserted as any).id;
+        }
+
+        const progress = title.progress;
+        const existingProgress = Array.isArray(existing?.reading_progress) ? existing.reading_progress[0] : existing?.reading_progress;
+        const serverUpdatedAt = existingProgress?.updated_at;
+        if (progress && (!serverUpdatedAt || new Date(serverUpdatedAt) < new Date(progress.updated_at))) {
+          const { error: progressError } = await supabase
+            .from('reading_progress')
+            .upsert({
+              manhwa_id: manhwaId,
+              status: progress.status,
+              last_chapter: progress.last_chapter,
+              rating: progress.rating,
+              notes: progress.notes.trim(),
+              sort_index: progress.sort_index ?? null,
+              updated_at: progress.updated_at
+            }, { onConflict: 'manhwa_id' });
+
+          if (progressError) throw progressError;
+        }
+
+        const links = (title.tagIds || [])
+          .filter(tagId => migratedTagIds.has(tagId))
+          .map(tagId => ({ manhwa_id: manhwaId, tag_id: migratedTagIds.get(tagId)!, user_id: userId }));
+        if (links.length > 0) {
+          const { error: tagsError } = await supabase
+            .from('manhwa_tags')
+            .upsert(links, { onConflict: 'manhwa_id,tag_id', ignoreDuplicates: true });
+          if (tagsError) throw tagsError;
+        }
+
+        const events = data.events.filter(event => event.manhwa_id === title.id);
+        if (events.length > 0) {
+          const { error: eventsError } = await supabase.from('reading_events').insert(events.map(event => ({
+            user_id: userId,
+            manhwa_id: manhwaId,
+            event_type: event.event_type,
+            from_chapter: event.from_chapter,
+            to_chapter: event.to_chapter,
+            status: event.status,
+            rating: event.rating,
+            reread: event.reread,
+            created_at: event.created_at
+          })));
+          if (eventsError) throw eventsError;
+          await guestStore.deleteGuestRecords('guest_events', events.map(event => event.id));
+        }
+
+        const chapterNotes = data.chapterNotes.filter(note => note.manhwa_id === title.id);
+        if (chapterNotes.length > 0) {
+          const { error: notesError } = await supabase.from('chapter_notes').insert(chapterNotes.map(note => ({
+            user_id: userId,
+            manhwa_id: manhwaId,
+            chapter: note.chapter,
+            body: note.body,
+            reaction: note.reaction,
+            rating: note.rating,
+            created_at: note.created_at,
+            updated_at: note.updated_at
+          })));
+          if (notesError) throw notesError;
+          await guestStore.deleteGuestRecords('guest_chapter_notes', chapterNotes.map(note => note.id));
+        }
+
+        const rereads = data.rereads.filter(reread => reread.manhwa_id === title.id);
+        if (rereads.length > 0) {
+          const { error: rereadsError } = await supabase.from('rereads').insert(rereads.map(reread => ({
+            user_id: userId,
+            manhwa_id: manhwaId,
+            start_date: reread.start_date,
+            end_date: reread.end_date,
+            last_chapter: reread.last_chapter,
+            rating: reread.rating,
+            created_at: reread.created_at,
+            updated_at: reread.updated_at
+          })));
+          if (rereadsError) throw rereadsError;
+          await guestStore.deleteGuestRecords('guest_rereads', rereads.map(reread => reread.id));
+        }
+
+        await guestStore.deleteGuestRecords('guest_library', [title.id]);
+        result.titles++;
+      } catch (error) {
+        console.error(`Error migrating "${title.title}":`, error);
+        result.failed++;
+      }
+    }
+
+    for (const goal of data.goals) {
+      const { error: goalError } = await supabase
+        .from('reading_goals')
+        .insert({
+          user_id: userId,
+          goal_type: goal.goal_type,
+          target_type: goal.target_type,
+          target_value: goal.target_value,
+          current_value: goal.current_value,
+          start_date: goal.start_date,
+          end_date: goal.end_date,
+          completed: goal.completed,
+          created_at: goal.created_at
+        });
+
+      if (goalError) {
+        console.error('Error migrating goal:', goalError);
+        result.failed++;
+      } else {
+        await guestStore.deleteGuestRecords('guest_goals', [goal.id]);
+        result.goals++;
+      }
+    }
+
+    const unlocked = new Set((await getAchievements()).map(a => a.achievement_type));
+    for (const achievement of data.achievements.filter(a => !unlocked.has(a.achievement_type))) {
+      const { error: achievementError } = await supabase
+        .from('achievements')
+        .insert({
+          user_id: userId,
+          achievement_type: achievement.achievement_type,
+          title: achievement.title,
+          description: achievement.description,
+          icon: achievement.icon,
+          unlocked_at: achievement.unlocked_at
+        });
+
+      if (achievementError) {
+        console.error('Error migrating achievement:', achievementError);
+        result.failed++;
+      } else {
+        result.achievements++;
+      }
+    }
+
+    await getLibrary({ fresh: true });
+
+    if (result.failed > 0) {
+      return { success: false, result, error: 'Some of your guest data could not be copied. It was kept on this device so you can try again.' };
+    }
+
+    await guestStore.clearGuestData();
+    return { success: true, result };
+  } catch (error: any) {
+    console.error('Error migrating guest data:', error);
+    return { success: false, error: error.message || 'Failed to copy your guest data' };
+  }
+};
+
+// Account Page Functions
+
+export const getUserProfile = async (): Promise<UserProfile | null> => {
+  try {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return isGuestMode() ? guestStore.getGuestProfile() : null;
+
+    return {
+      id: user.id,
+      email: user.email || '',
+      username: user.user_metadata?.username || user.email?.split('@')[0] || 'User',
+      created_at: user.created_at || new Date().toISOString()
+    };
+  } catch (error) {
+    console.error('Error getting user profile:', error);
+    return null;
+  }
+};
+
+export const getUserStatistics = async (): Promise<UserStats> => {
+  try {
+    const library = await getLibrary();
+    
+    const totalManhwa = library.length;
+    const currentlyReading = library.filter(item => item.progress?.status === ReadingStatus.READING).length;
+    const completed = library.filter(item => item.progress?.status === ReadingStatus.COMPLETED).length;
+    
+    // Calculate total chapters read
+    const totalChapters = library.reduce((sum, item) => {
+      return sum + (item.progress?.last_chapter || 0);
+    }, 0);
+
+    // Re-reads are counted apart from the first read of each title
+    const rereads = await getRereads();
+    const rereadChapters = rereads.reduce((sum, reread) => sum + reread.last_chapter, 0);
+    
+    // Calculate average rating (exclude 0 ratings)
+    const ratedItems = library.filter(item => (item.progress?.rating || 0) > 0);
+    const averageRating = ratedItems.length > 0
+      ? ratedItems.reduce((sum, item) => sum + (item.progress?.rating || 0), 0) / ratedItems.length
+      : 0;
+    
+    // Calculate completion rate
+    const completionRate = totalManhwa > 0 ? (completed / totalManhwa) * 100 : 0;
+    
+    // Calculate days active
+    const profile = await getUserProfile();
+    const daysActive = profile 
+      ? Math.floor((Date.now() - new Date(profile.created_at).getTime()) / (1000 * 60 * 60 * 24))
+      : 0;
+    
+    const readingStreak = await getReadingStreak();
+    
+    return {
+      totalManhwa,
+      currentlyReading,
+      completed,
+      totalChapters,
+      rereads: countFinishedRereads(rereads),
+      rereadChapters,
+      averageRating: Math.round(averageRating * 10) / 10, // Round to 1 decimal
+      completionRate: Math.round(completionRate),
+      daysActive,
+      readingStreak
+    };
+  } catch (error) {
+    console.error('Error calculating user statistics:', error);
+    return {
       totalManhwa: 0,
       currentlyReading: 0,
       completed: 0,
       totalChapters: 0,
+      rereads: 0,
+      rereadChapters: 0,
       averageRating: 0,
       completionRate: 0,
-      daysActive: 0
+      daysActive: 0,
+      readingStreak: 0
     };
   }
 };
@@ -556,7 +1541,7 @@ export const updateUserPassword = async (currentPassword: string, newPassword: s
 export const getReadingGoals = async (): Promise<ReadingGoal[]> => {
   try {
     const userId = await getUserId();
-    if (!userId) return [];
+    if (!userId) return isGuestMode() ? guestStore.getReadingGoals() : [];
 
     const { data, error } = await supabase
       .from('reading_goals')
@@ -577,6 +1562,8 @@ export const getReadingGoals = async (): Promise<ReadingGoal[]> => {
 };
 
 export const createReadingGoal = async (goal: Omit<ReadingGoal, 'id' | 'user_id' | 'current_value' | 'completed' | 'created_at'>): Promise<ReadingGoal | null> => {
+  if (await isGuest()) return guestStore.createReadingGoal(goal);
+
   try {
     const userId = await getUserId();
     if (!userId) throw new Error('User not authenticated');
@@ -607,6 +1594,8 @@ export const createReadingGoal = async (goal: Omit<ReadingGoal, 'id' | 'user_id'
 };
 
 export const updateGoalProgress = async (goalId: string, currentValue: number, completed: boolean = false): Promise<boolean> => {
+  if (await isGuest()) return guestStore.updateGoalProgress(goalId, currentValue, completed);
+
   try {
     const { error } = await supabase
       .from('reading_goals')
@@ -626,6 +1615,8 @@ export const updateGoalProgress = async (goalId: string, currentValue: number, c
 };
 
 export const deleteReadingGoal = async (goalId: string): Promise<boolean> => {
+  if (await isGuest()) return guestStore.deleteReadingGoal(goalId);
+
   try {
     const { error } = await supabase
       .from('reading_goals')
@@ -644,39 +1635,129 @@ export const deleteReadingGoal = async (goalId: string): Promise<boolean> => {
   }
 };
 
-// Calculate current progress for a goal based on library data
+// Reading Events Functions
+
+// Events per request when paging through the event log (see LIBRARY_PAGE_SIZE)
+const EVENTS_PAGE_SIZE = 500;
+
+export const getReadingEvents = async (options: { manhwaId?: string; since?: string; until?: string } = {}): Promise<ReadingEvent[]> => {
+  try {
+    const userId = await getUserId();
+    if (!userId) return isGuestMode() ? guestStore.getReadingEvents(options) : [];
+
+    // Paged newest first by (created_at, id) like getLibraryPage, until a
+    // short page comes back
+    const rows: any[] = [];
+    let cursor: LibraryCursor | null = null;
+
+    do {
+      let query = supabase
+        .from('reading_events')
+        .select('*')
+        .eq('user_id', userId);
+
+      if (options.manhwaId) query = query.eq('manhwa_id', options.manhwaId);
+      if (options.since) query = query.gte('created_at', options.since);
+      if (options.until) query = query.lte('created_at', options.until);
+      if (cursor) {
+        query = query.or(`created_at.lt."${cursor.createdAt}",and(created_at.eq."${cursor.createdAt}",id.lt.${cursor.id})`);
+      }
+
+      const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .order('id', { ascending: false })
+        .limit(EVENTS_PAGE_SIZE);
+
+      if (error) {
+        console.error('Error fetching reading events:', error);
+        return [];
+      }
+
+      const page = data || [];
+      rows.push(...page);
+      const last: any = page[page.length - 1];
+      cursor = page.length === EVENTS_PAGE_SIZE ? { createdAt: last.created_at, id: last.id } : null;
+    } while (cursor);
+
+    return rows.map((e: any) => ({
+      id: e.id,
+      user_id: e.user_id,
+      manhwa_id: e.manhwa_id,
+      event_type: e.event_type as ReadingEventType,
+      from_chapter: e.from_chapter !== null ? Number(e.from_chapter) : null,
+      to_chapter: e.to_chapter !== null ? Number(e.to_chapter) : null,
+      status: e.status as ReadingStatus | null,
+      rating: e.rating,
+      reread: !!e.reread,
+      created_at: e.created_at
+    }));
+  } catch (error) {
+    console.error('Error in getReadingEvents:', error);
+    return [];
+  }
+};
+
+// Chapters covered by an event; moving backwards never counts as reading.
+// Backfill events stand for a whole read history dated at one moment, so they
+// only count towards completions, never chapters, goals or streaks.
+const chaptersReadInEvent = (event: ReadingEvent): number => {
+  if (event.event_type !== 'chapter') return 0;
+  return Math.max(0, (event.to_chapter ?? 0) - (event.from_chapter ?? 0));
+};
+
+const STREAK_WINDOW_DAYS = 60;
+
+// Consecutive days (ending today) with at least one chapter read. Only recent
+// events are loaded; the window is widened while the streak still fills it.
+export const getReadingStreak = async (): Promise<number> => {
+  for (let days = STREAK_WINDOW_DAYS; ; days *= 2) {
+    const since = new Date();
+    since.setHours(0, 0, 0, 0);
+    since.setDate(since.getDate() - (days - 1));
+
+    const events = await getReadingEvents({ since: since.toISOString() });
+    const activityDates = events
+      .filter(event => chaptersReadInEvent(event) > 0)
+      .map(event => new Date(event.created_at));
+    const streak = calculateReadingStreak(activityDates);
+    if (streak < days) return streak;
+  }
+};
+
+// Calculate current progress for a goal based on library data and the reading event log
 export const calculateGoalProgress = async (goal: ReadingGoal): Promise<number> => {
   try {
-    const library = await getLibrary();
     const startDate = new Date(goal.start_date);
     const endDate = new Date(goal.end_date);
 
     if (goal.target_type === 'manhwa_count') {
       // Count manhwa added within the goal period
+      const library = await getLibrary();
       return library.filter(item => {
         const createdAt = new Date(item.created_at);
         return createdAt >= startDate && createdAt <= endDate;
       }).length;
-    } else if (goal.target_type === 'completed_count') {
-      // Count manhwa completed within the goal period
-      return library.filter(item => {
-        if (item.progress?.status === ReadingStatus.COMPLETED && item.progress.updated_at) {
-          const updatedAt = new Date(item.progress.updated_at);
-          return updatedAt >= startDate && updatedAt <= endDate;
-        }
-        return false;
-      }).length;
+    }
+
+    const events = await getReadingEvents({
+      since: startDate.toISOString(),
+      until: endDate.toISOString()
+    });
+
+    if (goal.target_type === 'completed_count') {
+      // Count titles moved to Completed within the goal period (once each).
+      // Finishing a re-read doesn't complete the title again.
+      const completedIds = new Set(
+        events
+          .filter(e => (e.event_type === 'status' || e.event_type === 'backfill') && e.status === ReadingStatus.COMPLETED)
+          .map(e => e.manhwa_id)
+      );
+      return completedIds.size;
     } else {
-      // Count chapters read within the goal period
-      return library.reduce((sum, item) => {
-        if (item.progress) {
-          const updatedAt = new Date(item.progress.updated_at);
-          if (updatedAt >= startDate && updatedAt <= endDate) {
-            return sum + item.progress.last_chapter;
-          }
-        }
-        return sum;
-      }, 0);
+      // Count chapters actually read within the goal period. Re-read chapters
+      // count too; they are logged from the re-read's own chapter, so the
+      // original read is never counted twice.
+      return events.reduce((sum, event) => sum + chaptersReadInEvent(event), 0);
     }
   } catch (error) {
     console.error('Error calculating goal progress:', error);
@@ -689,7 +1770,7 @@ export const calculateGoalProgress = async (goal: ReadingGoal): Promise<number>
 export const getAchievements = async (): Promise<Achievement[]> => {
   try {
     const userId = await getUserId();
-    if (!userId) return [];
+    if (!userId) return isGuestMode() ? guestStore.getAchievements() : [];
 
     const { data, error } = await supabase
       .from('achievements')
@@ -710,6 +1791,8 @@ export const getAchievements = async (): Promise<Achievement[]> => {
 };
 
 export const unlockAchievement = async (achievement: Omit<Achievement, 'id' | 'user_id' | 'unlocked_at'>): Promise<Achievement | null> => {
+  if (await isGuest()) return guestStore.unlockAchievement(achievement);
+
   try {
     const userId = await getUserId();
     if (!userId) throw new Error('User not authenticated');
@@ -780,11 +1863,16 @@ export const checkAchievements = async (): Promise<Achievement[]> => {
       { type: 'chapters_500', condition: stats.totalChapters >= 500, title: 'Marathon Reader', description: 'Read 500 chapters', icon: 'Flame' },
       { type: 'chapters_1000', condition: stats.totalChapters >= 1000, title: 'Legendary Reader', description: 'Read 1000 chapters', icon: 'Sparkles' },
       { type: 'chapters_2500', condition: stats.totalChapters >= 2500, title: 'Epic Reader', description: 'Read 2500 chapters', icon: 'Zap' },
+
+      // Re-read achievements
+      { type: 'first_reread', condition: stats.rereads >= 1, title: 'Second Helping', description: 'Finished re-reading a manhwa', icon: 'Repeat' },
+      { type: 'rereads_5', condition: stats.rereads >= 5, title: 'Old Favorites', description: 'Finished 5 re-reads', icon: 'History' },
+      { type: 'reread_chapters_500', condition: stats.rereadChapters >= 500, title: 'Deja Vu', description: 'Re-read 500 chapters', icon: 'RotateCcw' },
       
       // Rating achievements
-      { type: 'perfect_10', condition: library.some(item => item.progress?.rating === 10), title: 'Perfectionist', description: 'Gave a perfect 10 rating', icon: 'Award' },
+      { type: 'perfect_10', condition: library.some(item => item.progress?.rating === MAX_RATING), title: 'Perfectionist', description: 'Gave a perfect 10 rating', icon: 'Award' },
       { type: 'rated_10', condition: library.filter(item => (item.progress?.rating || 0) > 0).length >= 10, title: 'Critic', description: 'Rated 10 different manhwa', icon: 'MessageSquare' },
-      { type: 'high_standards', condition: library.filter(item => (item.progress?.rating || 0) >= 9).length >= 5, title: 'High Standards', description: 'Gave 5 manhwa a 9+ rating', icon: 'TrendingUp' },
+      { type: 'high_standards', condition: library.filter(item => (item.progress?.rating || 0) >= 90).length >= 5, title: 'High Standards', description: 'Gave 5 manhwa a 9+ rating', icon: 'TrendingUp' },
       
       // Special achievements
       { type: 'speed_reader', condition: library.filter(item => (item.progress?.last_chapter || 0) >= 50).length >= 3, title: 'Speed Reader', description: 'Read 50+ chapters in 3 manhwa', icon: 'Rocket' },
@@ -811,3 +1899,447 @@ export const checkAchievements = async (): Promise<Achievement[]> => {
   
   return newAchievements;
 };
+
+// Tags Functions
+
+export const getTags = async (): Promise<Tag[]> => {
+  try {
+    const userId = await getUserId();
+    if (!userId) return isGuestMode() ? guestStore.getTags() : [];
+
+    const { data, error } = await supabase
+      .from('tags')
+      .select('id, name, color, created_at')
+      .eq('user_id', userId)
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching tags:', error);
+      return [];
+    }
+
+    return data || [];
+  } catch (error) {
+    console.error('Error in getTags:', error);
+    return [];
+  }
+};
+
+export const createTag = async (name: string, color: string): Promise<Tag | null> => {
+  if (await isGuest()) return guestStore.createTag(name, color);
+
+  try {
+    const userId = await getUserId();
+    if (!userId) throw new Error('User not authenticated');
+
+    const { data, error } = await supabase
+      .from('tags')
+      .insert({ user_id: userId, name: sanitizeInput(name), color })
+      .select('id, name, color, created_at')
+      .single();
+
+    if (error) {
+      console.error('Error creating tag:', error);
+      return null;
+    }
+
+    return data;
+  } catch (error) {
+    console.error('Error in createTag:', error);
+    return null;
+  }
+};
+
+export const updateTag = async (tagId: string, updates: Partial<Pick<Tag, 'name' | 'color'>>): Promise<boolean> => {
+  if (await isGuest()) return guestStore.updateTag(tagId, updates);
+
+  try {
+    const { error } = await supabase
+      .from('tags')
+      .update(updates.name !== undefined ? { ...updates, name: sanitizeInput(updates.name) } : updates)
+      .eq('id', tagId);
+
+    if (error) {
+      console.error('Error updating tag:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error in updateTag:', error);
+    return false;
+  }
+};
+
+// Add or remove a tag on cached titles
+const cacheTagChange = async (userId: string, manhwaIds: string[], tagId: string, added: boolean) => {
+  const ids = new Set(manhwaIds);
+  await updateLibraryCache(userId, items => items.map(item => {
+    if (!ids.has(item.id)) return item;
+    const tagIds = (item.tagIds || []).filter(id => id !== tagId);
+    return { ...item, tagIds: added ? [...tagIds, tagId] : tagIds };
+  }));
+};
+
+// Deleting a tag removes it from every title (manhwa_tags cascades)
+export const deleteTag = async (tagId: string): Promise<boolean> => {
+  if (await isGuest()) return guestStore.deleteTag(tagId);
+
+  try {
+    const { error } = await supabase
+      .from('tags')
+      .delete()
+      .eq('id', tagId);
+
+    if (error) {
+      console.error('Error deleting tag:', error);
+      return false;
+    }
+
+    const userId = await getUserId();
+    if (userId) {
+      await updateLibraryCache(userId, items => items.map(item =>
+        item.tagIds?.includes(tagId) ? { ...item, tagIds: item.tagIds.filter(id => id !== tagId) } : item
+      ));
+    }
+    return true;
+  } catch (error) {
+    console.error('Error in deleteTag:', error);
+    return false;
+  }
+};
+
+/**
+ * Put a tag on one or more titles. Titles added offline and not yet saved
+ * can't be tagged.
+ */
+export const addTagToTitles = async (tagId: string, manhwaIds: string[]): Promise<boolean> => {
+  if (await isGuest()) return guestStore.addTagToTitles(tagId, manhwaIds);
+
+  try {
+    const userId = await getUserId();
+    if (!userId) throw new Error('User not authenticated');
+
+    const ids = manhwaIds.filter(id => !isPendingId(id));
+    if (ids.length === 0) return false;
+
+    const { error } = await supabase
+      .from('manhwa_tags')
+      .upsert(
+        ids.map(id => ({ manhwa_id: id, tag_id: tagId, user_id: userId })),
+        { onConflict: 'manhwa_id,tag_id', ignoreDuplicates: true }
+      );
+
+    if (error) {
+      console.error('Error tagging titles:', error);
+      return false;
+    }
+
+    await cacheTagChange(userId, ids, tagId, true);
+    return ids.length === manhwaIds.length;
+  } catch (error) {
+    console.error('Error in addTagToTitles:', error);
+    return false;
+  }
+};
+
+export const removeTagFromTitles = async (tagId: string, manhwaIds: string[]): Promise<boolean> => {
+  if (await isGuest()) return guestStore.removeTagFromTitles(tagId, manhwaIds);
+
+  try {
+    const userId = await getUserId();
+    if (!userId) throw new Error('User not authenticated');
+
+    const { error } = await supabase
+      .from('manhwa_tags')
+      .delete()
+      .eq('tag_id', tagId)
+      .in('manhwa_id', manhwaIds);
+
+    if (error) {
+      console.error('Error untagging titles:', error);
+      return false;
+    }
+
+    await cacheTagChange(userId, manhwaIds, tagId, false);
+    return true;
+  } catch (error) {
+    console.error('Error in removeTagFromTitles:', error);
+    return false;
+  }
+};
+
+// Chapter Notes Functions
+
+const CHAPTER_NOTE_COLUMNS = 'id, manhwa_id, chapter, body, reaction, rating, created_at, updated_at';
+
+const toChapterNote = (row: any): ChapterNote => ({
+  id: row.id,
+  manhwa_id: row.manhwa_id,
+  chapter: Number(row.chapter),
+  body: row.body || '',
+  reaction: row.reaction ?? null,
+  rating: row.rating ?? null,
+  created_at: row.created_at,
+  updated_at: row.updated_at
+});
+
+/**
+ * Notes on the chapters of one title, in timeline order
+ */
+export const getChapterNotes = async (manhwaId: string): Promise<ChapterNote[]> => {
+  try {
+    const userId = await getUserId();
+    if (!userId) return isGuestMode() ? guestStore.getChapterNotes(manhwaId) : [];
+    if (isPendingId(manhwaId)) return [];
+
+    const { data, error } = await supabase
+      .from('chapter_notes')
+      .select(CHAPTER_NOTE_COLUMNS)
+      .eq('manhwa_id', manhwaId)
+      .order('chapter', { ascending: false })
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching chapter notes:', error);
+      return [];
+    }
+
+    return (data || []).map(toChapterNote);
+  } catch (error) {
+    console.error('Error in getChapterNotes:', error);
+    return [];
+  }
+};
+
+// Notes are Markdown and are sanitized when rendered, like the title's notes
+export const createChapterNote = async (manhwaId: string, note: ChapterNoteInput): Promise<ChapterNote | null> => {
+  if (await isGuest()) return guestStore.createChapterNote(manhwaId, note);
+
+  try {
+    const userId = await getUserId();
+    if (!userId) throw new Error('User not authenticated');
+    if (isPendingId(manhwaId)) return null; // The title isn't saved yet
+
+    const { data, error } = await supabase
+      .from('chapter_notes')
+      .insert({
+        user_id: userId,
+        manhwa_id: manhwaId,
+        chapter: note.chapter,
+        body: note.body.trim(),
+        reaction: note.reaction,
+        rating: note.rating
+      })
+      .select(CHAPTER_NOTE_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error creating chapter note:', error);
+      return null;
+    }
+
+    return toChapterNote(data);
+  } catch (error) {
+    console.error('Error in createChapterNote:', error);
+    return null;
+  }
+};
+
+export const updateChapterNote = async (noteId: string, updates: Partial<ChapterNoteInput>): Promise<ChapterNote | null> => {
+  if (await isGuest()) return guestStore.updateChapterNote(noteId, updates);
+
+  try {
+    const { data, error } = await supabase
+      .from('chapter_notes')
+      .update({
+        ...updates,
+        ...(updates.body !== undefined && { body: updates.body.trim() }),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', noteId)
+      .select(CHAPTER_NOTE_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error updating chapter note:', error);
+      return null;
+    }
+
+    return toChapterNote(data);
+  } catch (error) {
+    console.error('Error in updateChapterNote:', error);
+    return null;
+  }
+};
+
+export const deleteChapterNote = async (noteId: string): Promise<boolean> => {
+  if (await isGuest()) return guestStore.deleteChapterNote(noteId);
+
+  try {
+    const { error } = await supabase
+      .from('chapter_notes')
+      .delete()
+      .eq('id', noteId);
+
+    if (error) {
+      console.error('Error deleting chapter note:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error in deleteChapterNote:', error);
+    return false;
+  }
+};
+
+// Re-read Functions
+
+const REREAD_COLUMNS = 'id, manhwa_id, start_date, end_date, last_chapter, rating, created_at, updated_at';
+
+const toReread = (row: any): Reread => ({
+  id: row.id,
+  manhwa_id: row.manhwa_id,
+  start_date: row.start_date,
+  end_date: row.end_date ?? null,
+  last_chapter: Number(row.last_chapter),
+  rating: row.rating ?? null,
+  created_at: row.created_at,
+  updated_at: row.updated_at
+});
+
+/**
+ * Re-reads of one title, or of the whole library when manhwaId is left out,
+ * oldest first
+ */
+export const getRereads = async (manhwaId?: string): Promise<Reread[]> => {
+  try {
+    const userId = await getUserId();
+    if (!userId) return isGuestMode() ? guestStore.getRereads(manhwaId) : [];
+    if (manhwaId && isPendingId(manhwaId)) return [];
+
+    let query = supabase
+      .from('rereads')
+      .select(REREAD_COLUMNS)
+      .eq('user_id', userId);
+
+    if (manhwaId) query = query.eq('manhwa_id', manhwaId);
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching rereads:', error);
+      return [];
+    }
+
+    return sortRereads((data || []).map(toReread));
+  } catch (error) {
+    console.error('Error in getRereads:', error);
+    return [];
+  }
+};
+
+/**
+ * Start re-reading a title from chapter 0. The title's own progress is left
+ * as it is. Returns null if the title is already being re-read.
+ */
+export const startReread = async (manhwaId: string): Promise<Reread | null> => {
+  if (await isGuest()) return guestStore.startReread(manhwaId);
+
+  try {
+    const userId = await getUserId();
+    if (!userId) throw new Error('User not authenticated');
+    if (isPendingId(manhwaId)) return null; // The title isn't saved yet
+
+    if (getActiveReread(await getRereads(manhwaId))) return null;
+
+    const { data, error } = await supabase
+      .from('rereads')
+      .insert({
+        user_id: userId,
+        manhwa_id: manhwaId,
+        start_date: todayDate(),
+        last_chapter: 0
+      })
+      .select(REREAD_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error starting reread:', error);
+      return null;
+    }
+
+    return toReread(data);
+  } catch (error) {
+    console.error('Error in startReread:', error);
+    return null;
+  }
+};
+
+/**
+ * Update a re-read; set end_date to finish it. Chapter changes are logged
+ * as re-read chapter events.
+ */
+export const updateReread = async (rereadId: string, updates: RereadInput): Promise<Reread | null> => {
+  if (await isGuest()) return guestStore.updateReread(rereadId, updates);
+
+  try {
+    const userId = await getUserId();
+    if (!userId) throw new Error('User not authenticated');
+
+    // Read the current chapter first so the change can be written to the event log
+    const { data: previous } = await supabase
+      .from('rereads')
+      .select('last_chapter')
+      .eq('id', rereadId)
+      .maybeSingle();
+
+    const { data, error } = await supabase
+      .from('rereads')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', rereadId)
+      .select(REREAD_COLUMNS)
+      .single();
+
+    if (error) {
+      console.error('Error updating reread:', error);
+      return null;
+    }
+
+    const saved = toReread(data);
+    if (previous && updates.last_chapter !== undefined) {
+      const event = rereadChapterEvent(Number((previous as any).last_chapter), saved.last_chapter);
+      if (event) await insertReadingEvents(userId, saved.manhwa_id, [event]);
+    }
+
+    return saved;
+  } catch (error) {
+    console.error('Error in updateReread:', error);
+    return null;
+  }
+};
+
+/**
+ * Delete a re-read. Chapters already logged for it still count towards goals.
+ */
+export const deleteReread = async (rereadId: string): Promise<boolean> => {
+  if (await isGuest()) return guestStore.deleteReread(rereadId);
+
+  try {
+    const { error } = await supabase
+      .from('rereads')
+      .delete()
+      .eq('id', rereadId);
+
+    if (error) {
+      console.error('Error deleting reread:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Error in deleteReread:', error);
+    return false;
+  }
+};
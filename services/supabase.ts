@@ -19,34 +19,43 @@ export interface Database {
         Row: {
           id: string;
           user_id: string | null;
+          source: string;
           source_id: string;
           title: string;
           cover_url: string | null;
           description: string | null;
           mal_id: number | null;
           last_chapter: number | null;
+          last_chapter_seen_at: string | null;
+          chapters_checked_at: string | null;
           created_at: string;
         };
         Insert: {
           id?: string;
           user_id?: string | null;
+          source?: string;
           source_id: string;
           title: string;
           cover_url?: string | null;
           description?: string | null;
           mal_id?: number | null;
           last_chapter?: number | null;
+          last_chapter_seen_at?: string | null;
+          chapters_checked_at?: string | null;
           created_at?: string;
         };
         Update: {
           id?: string;
           user_id?: string | null;
+          source?: string;
           source_id?: string;
           title?: string;
           cover_url?: string | null;
           description?: string | null;
           mal_id?: number | null;
           last_chapter?: number | null;
+          last_chapter_seen_at?: string | null;
+          chapters_checked_at?: string | null;
           created_at?: string;
         };
       };
@@ -58,6 +67,7 @@ export interface Database {
           last_chapter: number;
           rating: number;
           notes: string | null;
+          sort_index: number | null;
           updated_at: string;
         };
         Insert: {
@@ -67,6 +77,7 @@ export interface Database {
           last_chapter?: number;
           rating?: number;
           notes?: string | null;
+          sort_index?: number | null;
           updated_at?: string;
         };
         Update: {
@@ -76,6 +87,158 @@ export interface Database {
           last_chapter?: number;
           rating?: number;
           notes?: string | null;
+          sort_index?: number | null;
+          updated_at?: string;
+        };
+      };
+      reading_events: {
+        Row: {
+          id: string;
+          user_id: string;
+          manhwa_id: string;
+          event_type: string;
+          from_chapter: number | null;
+          to_chapter: number | null;
+          status: string | null;
+          rating: number | null;
+          reread: boolean;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          manhwa_id: string;
+          event_type: string;
+          from_chapter?: number | null;
+          to_chapter?: number | null;
+          status?: string | null;
+          rating?: number | null;
+          reread?: boolean;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          manhwa_id?: string;
+          event_type?: string;
+          from_chapter?: number | null;
+          to_chapter?: number | null;
+          status?: string | null;
+          rating?: number | null;
+          reread?: boolean;
+          created_at?: string;
+        };
+      };
+      tags: {
+        Row: {
+          id: string;
+          user_id: string;
+          name: string;
+          color: string;
+          created_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          name: string;
+          color: string;
+          created_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          name?: string;
+          color?: string;
+          created_at?: string;
+        };
+      };
+      manhwa_tags: {
+        Row: {
+          manhwa_id: string;
+          tag_id: string;
+          user_id: string;
+          created_at: string;
+        };
+        Insert: {
+          manhwa_id: string;
+          tag_id: string;
+          user_id: string;
+          created_at?: string;
+        };
+        Update: {
+          manhwa_id?: string;
+          tag_id?: string;
+          user_id?: string;
+          created_at?: string;
+        };
+      };
+      chapter_notes: {
+        Row: {
+          id: string;
+          user_id: string;
+          manhwa_id: string;
+          chapter: number;
+          body: string;
+          reaction: string | null;
+          rating: number | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          manhwa_id: string;
+          chapter: number;
+          body?: string;
+          reaction?: string | null;
+          rating?: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          manhwa_id?: string;
+          chapter?: number;
+          body?: string;
+          reaction?: string | null;
+          rating?: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+      };
+      rereads: {
+        Row: {
+          id: string;
+          user_id: string;
+          manhwa_id: string;
+          start_date: string;
+          end_date: string | null;
+          last_chapter: number;
+          rating: number | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          user_id: string;
+          manhwa_id: string;
+          start_date?: string;
+          end_date?: string | null;
+          last_chapter?: number;
+          rating?: number | null;
+          created_at?: string;
+          updated_at?: string;
+        };
+        Update: {
+          id?: string;
+          user_id?: string;
+          manhwa_id?: string;
+          start_date?: string;
+          end_date?: string | null;
+          last_chapter?: number;
+          rating?: number | null;
+          created_at?: string;
           updated_at?: string;
         };
       };
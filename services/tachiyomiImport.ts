@@ -0,0 +1,251 @@
+// Tachiyomi / Mihon backup import
+// Reads .tachibk / .proto.gz backups (gzipped protobuf) and turns the library
+// entries into items for the regular import preview (planImportItems /
+// applyLibraryImport). Entries read through the MangaDex extension keep their
+// MangaDex ID; titles from other sources are matched by name on MangaDex.
+//
+// Field numbers follow Mihon's backup models (Backup, BackupManga,
+// BackupChapter, BackupCategory, BackupTracking, BackupSource). Fields that
+// hold their default value are left out of the file, hence the fallbacks.
+
+import { LibraryItem, Manhwa, ReadingStatus } from '../types';
+import { searchMangaDex } from './mangadex';
+import { MAL_MATCH_CONFIDENCE_THRESHOLD } from './malImport';
+import { bestTitleMatch, normalizeTitle } from '../utils/fuzzyMatch';
+import {
+  decodeMessage,
+  getBigInt,
+  getBigInts,
+  getBool,
+  getFloat,
+  getMessages,
+  getNumber,
+  getString,
+  ProtoMessage,
+} from '../utils/protobuf';
+
+export interface TachiyomiEntry {
+  title: string;
+  sourceName: string;
+  mangadexId: string | null; // Set for entries from the MangaDex extension
+  malId?: number; // From a MyAnimeList tracker, if the entry has one
+  coverUrl: string;
+  description: string;
+  categories: string[];
+  chaptersRead: number; // Highest chapter number marked as read
+  status: ReadingStatus;
+  updatedAt: string;
+}
+
+export interface TachiyomiImportResult {
+  items: LibraryItem[];
+  // Entries from other sources with no confident MangaDex match
+  unmatched: TachiyomiEntry[];
+}
+
+const UUID_PATTERN = /[0-9a-f]{8}-(?:[0-9a-f]{4}-){3}[0-9a-f]{12}/i;
+
+// SManga status values
+const MANGA_STATUS_COMPLETED = 2;
+const MANGA_STATUS_PUBLISHING_FINISHED = 4;
+
+const MAL_TRACKER_ID = 1;
+
+// Category names that read as a status ("Plan to read", "On-Hold", ...)
+const CATEGORY_STATUS: Record<string, ReadingStatus> = Object.fromEntries(
+  Object.values(ReadingStatus).map(status => [normalizeTitle(status), status])
+);
+
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+const gunzip = async (bytes: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+// Tachiyomi stores seconds in some fields and milliseconds in others
+const toTimestamp = (value: number | undefined): number => {
+  if (!value || value < 0) return 0;
+  return value < 1e11 ? value * 1000 : value;
+};
+
+// The MangaDex extension stores manga as "/manga/<uuid>"
+const MANGADEX_URL_PATTERN = /^\/manga\/[0-9a-f]{8}-(?:[0-9a-f]{4}-){3}[0-9a-f]{12}$/i;
+
+// Older backups have no source list; fall back to the URL format then
+const isMangaDexEntry = (sourceName: string, url: string) =>
+  sourceName ? sourceName.toLowerCase().startsWith('mangadex') : MANGADEX_URL_PATTERN.test(url);
+
+// Work out a reading status: a category named after a status wins, otherwise
+// it follows from the read chapters
+const inferStatus = (categories: string[], anyRead: boolean, allRead: boolean, mangaStatus: number): ReadingStatus => {
+  for (const category of categories) {
+    const status = CATEGORY_STATUS[normalizeTitle(category)];
+    if (status) return status;
+  }
+  if (!anyRead) return ReadingStatus.PLAN_TO_READ;
+  const finished = mangaStatus === MANGA_STATUS_COMPLETED || mangaStatus === MANGA_STATUS_PUBLISHING_FINISHED;
+  return allRead && finished ? ReadingStatus.COMPLETED : ReadingStatus.READING;
+};
+
+const toEntry = (
+  manga: ProtoMessage,
+  sourceNames: Map<string, string>,
+  categoryNames: Map<string, string>
+): TachiyomiEntry | null => {
+  const title = getString(manga, 3)?.trim();
+  if (!title) return null;
+
+  const sourceName = sourceNames.get(String(getBigInt(manga, 1) ?? 0n)) || '';
+  const url = getString(manga, 2) || '';
+  const mangadexId = isMangaDexEntry(sourceName, url) ? url.match(UUID_PATTERN)?.[0].toLowerCase() || null : null;
+
+  const chapters = getMessages(manga, 16);
+  let chaptersRead = 0;
+  let readCount = 0;
+  let lastModified = 0;
+  chapters.forEach(chapter => {
+    lastModified = Math.max(lastModified, toTimestamp(getNumber(chapter, 11)));
+    if (!getBool(chapter, 4)) return;
+    readCount += 1;
+    chaptersRead = Math.max(chaptersRead, getFloat(chapter, 9) ?? 0);
+  });
+  getMessages(manga, 104).forEach(history => {
+    lastModified = Math.max(lastModified, toTimestamp(getNumber(history, 2)));
+  });
+
+  const categories = getBigInts(manga, 17)
+    .map(order => categoryNames.get(String(order)))
+    .filter((name): name is string => !!name);
+
+  const malTracker = getMessages(manga, 18).find(track => getNumber(track, 1) === MAL_TRACKER_ID);
+  const malId = malTracker ? getNumber(malTracker, 100) || getNumber(malTracker, 3) : undefined;
+
+  return {
+    title,
+    sourceName,
+    mangadexId,
+    malId: malId || undefined,
+    coverUrl: (getString(manga, 9) || '').replace('https://mangadex.org/covers', 'https://uploads.mangadex.org/covers'),
+    description: getString(manga, 6) || '',
+    categories,
+    chaptersRead: Math.round(chaptersRead * 10) / 10,
+    status: inferStatus(categories, readCount > 0, chapters.length > 0 && readCount === chapters.length, getNumber(manga, 8) ?? 0),
+    // Without a modification time fall back to the epoch so titles already
+    // tracked here show up as conflicts, not silent updates
+    updatedAt: new Date(lastModified).toISOString(),
+  };
+};
+
+/**
+ * Read a Tachiyomi / Mihon backup file. Only titles in the library are
+ * returned. Throws if the file is not a backup.
+ */
+export const parseTachiyomiBackup = async (data: ArrayBuffer): Promise<TachiyomiEntry[]> => {
+  let bytes = new Uint8Array(data);
+  if (bytes[0] === GZIP_MAGIC[0] && bytes[1] === GZIP_MAGIC[1]) {
+    try {
+      bytes = await gunzip(bytes);
+    } catch {
+      throw new Error('Could not decompress the backup file');
+    }
+  }
+
+  let backup: ProtoMessage;
+  let mangaMessages: ProtoMessage[];
+  try {
+    backup = decodeMessage(bytes);
+    mangaMessages = getMessages(backup, 1);
+  } catch {
+    throw new Error('Not a Tachiyomi or Mihon backup');
+  }
+  if (!backup.has(1) && !backup.has(2)) {
+    throw new Error('Not a Tachiyomi or Mihon backup');
+  }
+
+  // Sources the extensions were installed for, and those that were missing
+  // when the backup was made
+  const sourceNames = new Map<string, string>();
+  [...getMessages(backup, 100), ...getMessages(backup, 101)].forEach(source => {
+    sourceNames.set(String(getBigInt(source, 2) ?? 0n), getString(source, 1) || '');
+  });
+
+  // Manga reference categories by their order value
+  const categoryNames = new Map<string, string>();
+  getMessages(backup, 2).forEach(category => {
+    categoryNames.set(String(getBigInt(category, 2) ?? 0n), getString(category, 1) || '');
+  });
+
+  return mangaMessages
+    // favorite defaults to true, so it is only written for non-library titles
+    .filter(manga => getBool(manga, 100) !== false)
+    .map(manga => toEntry(manga, sourceNames, categoryNames))
+    .filter((entry): entry is TachiyomiEntry => entry !== null);
+};
+
+const toLibraryItem = (entry: TachiyomiEntry, manhwa: Manhwa): LibraryItem => ({
+  ...manhwa,
+  mal_id: manhwa.mal_id ?? entry.malId,
+  progress: {
+    id: '',
+    manhwa_id: manhwa.id,
+    status: entry.status,
+    last_chapter: entry.chaptersRead,
+    rating: 0,
+    notes: '',
+    updated_at: entry.updatedAt,
+  },
+});
+
+/**
+ * Turn backup entries into library items. MangaDex entries are used as they
+ * are; the rest are searched on MangaDex one at a time and kept when the
+ * title matches confidently. Stops early when the signal aborts.
+ */
+export const buildTachiyomiImportItems = async (
+  entries: TachiyomiEntry[],
+  onProgress?: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<TachiyomiImportResult> => {
+  const byId = new Map<string, LibraryItem>();
+  const unmatched: TachiyomiEntry[] = [];
+
+  // The same title can be in the library from more than one source; keep
+  // the copy with the most progress
+  const add = (item: LibraryItem) => {
+    const existing = byId.get(item.id);
+    if (!existing || (item.progress?.last_chapter || 0) > (existing.progress?.last_chapter || 0)) {
+      byId.set(item.id, item);
+    }
+  };
+
+  let done = 0;
+  for (const entry of entries) {
+    if (signal?.aborted) break;
+
+    if (entry.mangadexId) {
+      add(toLibraryItem(entry, {
+        id: entry.mangadexId,
+        title: entry.title,
+        cover_url: entry.coverUrl,
+        description: entry.description,
+        source: 'mangadex',
+        source_id: entry.mangadexId,
+        created_at: new Date().toISOString(),
+      }));
+    } else {
+      const candidates = await searchMangaDex(entry.title, { limit: 5, signal });
+      const best = bestTitleMatch(entry.title, candidates, candidate => [candidate.title]);
+      if (best && best.score >= MAL_MATCH_CONFIDENCE_THRESHOLD) {
+        add(toLibraryItem(entry, best.item));
+      } else if (!signal?.aborted) {
+        unmatched.push(entry);
+      }
+    }
+
+    done += 1;
+    onProgress?.(done, entries.length);
+  }
+
+  return { items: Array.from(byId.values()), unmatched };
+};
@@ -0,0 +1,42 @@
+-- Per-change reading history.
+-- Every chapter advance, status change and rating change made through
+-- updateProgress() is written here as its own row, so goals and stats can
+-- count what actually happened inside a time window.
+
+create table if not exists public.reading_events (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  manhwa_id uuid not null references public.manhwa (id) on delete cascade,
+  event_type text not null check (event_type in ('chapter', 'status', 'rating', 'backfill')),
+  from_chapter numeric,
+  to_chapter numeric,
+  status text,
+  rating integer,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists reading_events_user_created_idx
+  on public.reading_events (user_id, created_at desc);
+
+create index if not exists reading_events_manhwa_created_idx
+  on public.reading_events (manhwa_id, created_at desc);
+
+alter table public.reading_events enable row level security;
+
+drop policy if exists "Users manage their own reading events" on public.reading_events;
+create policy "Users manage their own reading events"
+  on public.reading_events
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Backfill: one synthetic event per existing progress row, dated at the row's
+-- last update, so history does not start empty.
+insert into public.reading_events (user_id, manhwa_id, event_type, from_chapter, to_chapter, status, rating, created_at)
+select m.user_id, m.id, 'backfill', 0, rp.last_chapter, rp.status, rp.rating, rp.updated_at
+from public.reading_progress rp
+join public.manhwa m on m.id = rp.manhwa_id
+where m.user_id is not null
+  and not exists (
+    select 1 from public.reading_events e where e.manhwa_id = m.id
+  );
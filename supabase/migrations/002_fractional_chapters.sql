@@ -0,0 +1,5 @@
+-- Allow fractional chapter progress (e.g. 10.5) so "mark read up to" works
+-- for the extra chapters MangaDex lists between whole numbers.
+
+alter table public.reading_progress
+  alter column last_chapter type numeric using last_chapter::numeric;
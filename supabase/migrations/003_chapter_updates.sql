@@ -0,0 +1,12 @@
+-- Track new chapters for titles being read.
+-- last_chapter_seen_at is when last_chapter last went up;
+-- chapters_checked_at is when the refresh job last asked MangaDex.
+
+alter table public.manhwa
+  add column if not exists last_chapter_seen_at timestamptz,
+  add column if not exists chapters_checked_at timestamptz;
+
+update public.manhwa
+set last_chapter_seen_at = created_at
+where last_chapter is not null
+  and last_chapter_seen_at is null;
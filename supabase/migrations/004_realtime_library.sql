@@ -0,0 +1,6 @@
+-- Stream library changes to other signed-in devices (services/realtime.ts).
+-- Realtime applies the existing row level security policies, so each user
+-- only receives their own rows.
+
+alter publication supabase_realtime add table public.manhwa;
+alter publication supabase_realtime add table public.reading_progress;
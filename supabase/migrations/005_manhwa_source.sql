@@ -0,0 +1,8 @@
+-- Titles can come from more than one metadata provider (see services/sources.ts).
+-- source_id is only unique within a source; existing rows are MangaDex.
+
+alter table public.manhwa
+  add column if not exists source text not null default 'mangadex';
+
+create unique index if not exists manhwa_user_source_unique
+  on public.manhwa (user_id, source, source_id);
@@ -0,0 +1,39 @@
+-- User-defined tags (shelves) for organising the library beyond the fixed
+-- reading statuses. A title can have any number of tags.
+
+create table if not exists public.tags (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  name text not null check (char_length(name) between 1 and 40),
+  color text not null,
+  created_at timestamptz not null default now(),
+  unique (user_id, name)
+);
+
+create table if not exists public.manhwa_tags (
+  manhwa_id uuid not null references public.manhwa (id) on delete cascade,
+  tag_id uuid not null references public.tags (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (manhwa_id, tag_id)
+);
+
+create index if not exists manhwa_tags_tag_idx
+  on public.manhwa_tags (tag_id);
+
+alter table public.tags enable row level security;
+alter table public.manhwa_tags enable row level security;
+
+drop policy if exists "Users manage their own tags" on public.tags;
+create policy "Users manage their own tags"
+  on public.tags
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users manage their own title tags" on public.manhwa_tags;
+create policy "Users manage their own title tags"
+  on public.manhwa_tags
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
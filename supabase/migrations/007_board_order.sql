@@ -0,0 +1,6 @@
+-- Manual ordering of titles within a status column of the library board.
+-- Null means the title was never moved; the board then falls back to the
+-- date it was added (see utils/board.ts).
+
+alter table public.reading_progress
+  add column if not exists sort_index double precision;
@@ -0,0 +1,27 @@
+-- Notes on individual chapters, alongside the single notes field on
+-- reading_progress. Each has an optional emoji reaction and 1-5 rating and
+-- a title can have any number of them, including several per chapter.
+
+create table if not exists public.chapter_notes (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  manhwa_id uuid not null references public.manhwa (id) on delete cascade,
+  chapter numeric not null check (chapter >= 0),
+  body text not null default '',
+  reaction text check (char_length(reaction) <= 16),
+  rating smallint check (rating between 1 and 5),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists chapter_notes_manhwa_chapter_idx
+  on public.chapter_notes (manhwa_id, chapter desc, created_at desc);
+
+alter table public.chapter_notes enable row level security;
+
+drop policy if exists "Users manage their own chapter notes" on public.chapter_notes;
+create policy "Users manage their own chapter notes"
+  on public.chapter_notes
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,26 @@
+-- Ratings move from 0-10 to 0-100 so any of the rating scales (10 and 100
+-- point, 5 stars with halves, 3 point smiley, decimal 10) can be stored
+-- without rounding. 0 still means unrated. The user's chosen scale lives in
+-- their auth user metadata (rating_scale) and only affects display.
+--
+-- The column comment marks the conversion as done, so running this file
+-- again does not multiply ratings a second time.
+
+do $$
+begin
+  if col_description('public.reading_progress'::regclass,
+       (select attnum from pg_attribute
+        where attrelid = 'public.reading_progress'::regclass and attname = 'rating'))
+     is distinct from 'Rating out of 100, 0 = unrated' then
+
+    alter table public.reading_progress drop constraint if exists reading_progress_rating_check;
+
+    update public.reading_progress set rating = rating * 10 where rating > 0;
+    update public.reading_events set rating = rating * 10 where rating > 0;
+
+    alter table public.reading_progress
+      add constraint reading_progress_rating_check check (rating between 0 and 100);
+
+    comment on column public.reading_progress.rating is 'Rating out of 100, 0 = unrated';
+  end if;
+end $$;
@@ -0,0 +1,32 @@
+-- Re-reads of a title. The title's reading_progress keeps the original read
+-- (status Completed, last chapter) while each re-read tracks its own dates,
+-- chapter and optional rating. A re-read with no end_date is in progress;
+-- a title has at most one of those at a time (enforced in services/store.ts).
+
+create table if not exists public.rereads (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  manhwa_id uuid not null references public.manhwa (id) on delete cascade,
+  start_date date not null default current_date,
+  end_date date check (end_date is null or end_date >= start_date),
+  last_chapter numeric not null default 0 check (last_chapter >= 0),
+  rating smallint check (rating between 1 and 100), -- Out of 100 like reading_progress.rating
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists rereads_manhwa_start_idx
+  on public.rereads (manhwa_id, start_date, created_at);
+
+alter table public.rereads enable row level security;
+
+drop policy if exists "Users manage their own rereads" on public.rereads;
+create policy "Users manage their own rereads"
+  on public.rereads
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+-- Chapter events logged while re-reading, counted apart from the first read
+alter table public.reading_events
+  add column if not exists reread boolean not null default false;
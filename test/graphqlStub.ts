@@ -0,0 +1,58 @@
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export interface GraphQLRequest {
+  query: string;
+  variables: Record<string, any>;
+}
+
+export interface StubResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body: unknown;
+}
+
+export type StubHandler = (request: GraphQLRequest) => StubResponse;
+
+/**
+ * A local GraphQL endpoint for service tests. Each POST is parsed and passed
+ * to the current handler; every request is recorded in requests.
+ */
+export interface GraphQLStub {
+  url: string;
+  requests: GraphQLRequest[];
+  setHandler: (handler: StubHandler) => void;
+  close: () => Promise<void>;
+}
+
+const readBody = (req: IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+
+export async function startGraphQLStub(): Promise<GraphQLStub> {
+  const requests: GraphQLRequest[] = [];
+  let handler: StubHandler = () => ({ status: 500, body: { errors: [{ message: 'No handler set', status: 500 }] } });
+
+  const server: Server = createServer(async (req, res) => {
+    const request = JSON.parse(await readBody(req)) as GraphQLRequest;
+    requests.push(request);
+    const { status = 200, headers = {}, body } = handler(request);
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/`,
+    requests,
+    setHandler: next => { handler = next; },
+    close: () => new Promise(resolve => server.close(() => resolve())),
+  };
+}
@@ -6,46 +6,169 @@ export enum ReadingStatus {
   PLAN_TO_READ = 'Plan to Read',
 }
 
+// Metadata providers a title can come from (see services/sources.ts)
+export type SourceName = 'mangadex' | 'mal' | 'anilist';
+
 export interface Manhwa {
   id: string; // UUID or Source ID
   title: string;
   cover_url: string;
   description: string;
+  source?: SourceName; // Provider source_id belongs to; 'mangadex' when unset
   source_id?: string;
+  mal_id?: number; // Linked MyAnimeList entry, if known
   created_at: string;
   lastChapter?: number; // Total chapters from manga metadata
+  lastChapterSeenAt?: string; // When lastChapter last went up
 }
 
 export type ManhwaItem = Manhwa;
 
+// A metadata source. source_id values are only unique within one provider.
+export interface SourceProvider {
+  name: SourceName;
+  label: string;
+  /** Whether the provider has a per-chapter feed for ChapterList */
+  hasChapterList: boolean;
+  search: (query: string, options?: { limit?: number; signal?: AbortSignal }) => Promise<Manhwa[]>;
+  getById: (sourceId: string) => Promise<Manhwa | null>;
+  /** Latest known chapter number, or null if the provider doesn't know */
+  getChapterCount: (sourceId: string) => Promise<number | null>;
+  /** Turn a stored cover URL into one the browser can load */
+  getCover: (coverUrl: string) => string;
+  getRelated: (sourceId: string, limit?: number) => Promise<Manhwa[]>;
+}
+
 export interface UserProgress {
   id: string;
   manhwa_id: string;
   status: ReadingStatus;
   last_chapter: number;
-  rating: number; // 0-10
+  rating: number; // 0-100, 0 = unrated; shown in the user's scale (utils/ratings.ts)
   notes: string;
+  sort_index?: number | null; // Manual position in its board column (utils/board.ts)
   updated_at: string;
 }
 
+export type ReadingEventType = 'chapter' | 'status' | 'rating' | 'backfill';
+
+// A single change to a title's progress. Chapter events carry the range that
+// was read; status/rating events carry the new value. Backfill events are the
+// synthetic snapshot written for progress that existed before the log did.
+// Chapter events with reread set were read during a re-read (see Reread).
+export interface ReadingEvent {
+  id: string;
+  user_id: string;
+  manhwa_id: string;
+  event_type: ReadingEventType;
+  from_chapter: number | null;
+  to_chapter: number | null;
+  status: ReadingStatus | null;
+  rating: number | null;
+  reread: boolean;
+  created_at: string;
+}
+
+// One re-read of a title (see utils/rereads.ts). The title's progress keeps
+// the original read; a re-read has its own dates, chapter and rating.
+export interface Reread {
+  id: string;
+  manhwa_id: string;
+  start_date: string; // YYYY-MM-DD
+  end_date: string | null; // YYYY-MM-DD, null while in progress
+  last_chapter: number; // Chapter reached in this re-read
+  rating: number | null; // 1-100 like UserProgress.rating, null = unrated
+  created_at: string;
+  updated_at: string;
+}
+
+export type RereadInput = Partial<Pick<Reread, 'start_date' | 'end_date' | 'last_chapter' | 'rating'>>;
+
 export interface LibraryItem extends Manhwa {
   progress?: UserProgress;
+  tagIds?: string[]; // IDs of the user's tags on this title
+}
+
+// A user-defined shelf. color is one of TAG_COLORS (utils/tags.ts).
+export interface Tag {
+  id: string;
+  name: string;
+  color: string;
+  created_at: string;
 }
 
-export interface MangaDexResult {
+// A note on one chapter of a library title (see utils/chapterNotes.ts)
+export interface ChapterNote {
   id: string;
-  attributes: {
-    title: { en?: string; ja?: string; [key: string]: string | undefined };
-    description: { en?: string; [key: string]: string | undefined };
-    createdAt: string;
-  };
-  relationships: {
-    type: string;
-    id: string;
-    attributes?: {
-      fileName?: string;
-    };
-  }[];
+  manhwa_id: string;
+  chapter: number;
+  body: string; // Markdown, like the title's notes
+  reaction: string | null; // One of CHAPTER_REACTIONS
+  rating: number | null; // 1-5
+  created_at: string;
+  updated_at: string;
+}
+
+export type ChapterNoteInput = Pick<ChapterNote, 'chapter' | 'body' | 'reaction' | 'rating'>;
+
+export type LibraryImportAction = 'create' | 'update' | 'conflict' | 'unchanged';
+
+// One title from an import file, compared against the current library.
+// Conflicts are titles whose local progress changed after the imported copy.
+// tags are matched to the user's tags by name and created when missing.
+export interface LibraryImportEntry {
+  action: LibraryImportAction;
+  incoming: LibraryItem;
+  existing?: LibraryItem;
+  tags?: Pick<Tag, 'name' | 'color'>[];
+}
+
+export interface LibraryImportResult {
+  created: number;
+  updated: number;
+  skipped: number;
+  failed: number;
+}
+
+export type OfflineMutationType = 'add' | 'progress' | 'sort' | 'remove';
+
+// A library write made while offline, stored in IndexedDB until it can be
+// replayed. baseUpdatedAt is the progress version the edit was made against.
+export interface OfflineMutation {
+  id?: number; // Auto-increment key, gives replay order
+  type: OfflineMutationType;
+  manhwaId: string; // Library ID, or a pending ID for titles added offline
+  title: string;
+  manhwa?: Manhwa; // add
+  status?: ReadingStatus; // add
+  updates?: Partial<UserProgress>; // progress, sort (sort_index only)
+  baseUpdatedAt: string | null;
+  queuedAt: string;
+}
+
+// An offline edit that was dropped because the title changed elsewhere first
+export interface OfflineConflict {
+  mutation: OfflineMutation;
+  serverUpdatedAt: string;
+}
+
+// A single chapter upload from the MangaDex feed. Chapter and volume are kept
+// as strings because MangaDex uses values like "10.5" and null for oneshots.
+export interface Chapter {
+  id: string;
+  chapter: string | null;
+  volume: string | null;
+  title: string | null;
+  scanlationGroup: string | null;
+  publishedAt: string;
+  pages: number;
+  externalUrl: string | null;
+}
+
+// Chapter numbers per volume, from the MangaDex aggregate endpoint
+export interface ChapterVolume {
+  volume: string; // "none" for chapters without a volume
+  chapters: string[];
 }
 
 export interface UserProfile {
@@ -59,10 +182,13 @@ export interface UserStats {
   totalManhwa: number;
   currentlyReading: number;
   completed: number;
-  totalChapters: number;
+  totalChapters: number; // First reads only; re-read chapters are in rereadChapters
+  rereads: number; // Finished re-reads
+  rereadChapters: number;
   averageRating: number;
   completionRate: number;
   daysActive: number;
+  readingStreak: number;
 }
 
 export type GoalType = 'monthly' | 'yearly' | 'custom';
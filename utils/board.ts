@@ -0,0 +1,46 @@
+/**
+ * Library board ordering
+ *
+ * Each status column is ordered by a key: the title's sort_index once it has
+ * been moved by hand, otherwise one derived from the date it was added
+ * (newest first). Both live on the same scale, so a dropped card only needs
+ * a key between its new neighbours and no other title has to be rewritten.
+ */
+
+import { LibraryItem, ReadingStatus } from '../types';
+
+// Gap left when a card is dropped at either end of a column
+const EDGE_STEP = 1000;
+
+export const getBoardKey = (item: LibraryItem): number =>
+  item.progress?.sort_index ?? -new Date(item.created_at).getTime();
+
+export const getBoardStatus = (item: LibraryItem): ReadingStatus =>
+  item.progress?.status || ReadingStatus.PLAN_TO_READ;
+
+/**
+ * Titles grouped by status, each column in board order
+ */
+export const groupBoardColumns = (items: LibraryItem[]): Record<ReadingStatus, LibraryItem[]> => {
+  const columns = Object.fromEntries(
+    Object.values(ReadingStatus).map(status => [status, [] as LibraryItem[]])
+  ) as Record<ReadingStatus, LibraryItem[]>;
+
+  items.forEach(item => columns[getBoardStatus(item)].push(item));
+  Object.values(columns).forEach(column =>
+    column.sort((a, b) => getBoardKey(a) - getBoardKey(b) || a.id.localeCompare(b.id))
+  );
+
+  return columns;
+};
+
+/**
+ * Key for a card placed between two others; either neighbour may be missing
+ * at the ends of a column
+ */
+export const sortIndexBetween = (before?: LibraryItem, after?: LibraryItem): number => {
+  if (before && after) return (getBoardKey(before) + getBoardKey(after)) / 2;
+  if (before) return getBoardKey(before) + EDGE_STEP;
+  if (after) return getBoardKey(after) - EDGE_STEP;
+  return 0;
+};
@@ -0,0 +1,26 @@
+/**
+ * Chapter note helpers
+ *
+ * Chapter notes are kept per title and shown newest chapter first. Several
+ * notes on the same chapter are ordered by when they were written.
+ */
+
+import { ChapterNote } from '../types';
+
+export const CHAPTER_REACTIONS = ['😂', '😭', '😱', '😍', '🔥', '😡', '🤔', '💀'];
+
+export const MAX_CHAPTER_NOTE_RATING = 5;
+
+/**
+ * Timeline order: latest chapter first, then newest note first
+ */
+export const sortChapterNotes = (notes: ChapterNote[]): ChapterNote[] =>
+  [...notes].sort((a, b) =>
+    b.chapter - a.chapter || new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+  );
+
+/**
+ * Whether a note has anything in it worth saving
+ */
+export const isChapterNoteEmpty = (note: Pick<ChapterNote, 'body' | 'reaction' | 'rating'>): boolean =>
+  !note.body.trim() && !note.reaction && !note.rating;
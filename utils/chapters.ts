@@ -0,0 +1,58 @@
+/**
+ * Chapter number helpers
+ *
+ * MangaDex chapter and volume numbers are strings ("10", "10.5", "none", or
+ * null for oneshots). These helpers compare them numerically so 10.5 sorts
+ * between 10 and 11 instead of after 100.
+ */
+
+import { LibraryItem } from '../types';
+
+/**
+ * Parse a chapter number string
+ * @returns The numeric value, or null for oneshots and non-numeric labels
+ */
+export function parseChapterNumber(chapter: string | null | undefined): number | null {
+  if (chapter === null || chapter === undefined || chapter.trim() === '') return null;
+  const value = Number(chapter);
+  return isNaN(value) ? null : value;
+}
+
+/**
+ * Sort comparator for chapter number strings. Non-numeric values go last.
+ */
+export function compareChapterNumbers(a: string | null, b: string | null): number {
+  const left = parseChapterNumber(a);
+  const right = parseChapterNumber(b);
+
+  if (left === null && right === null) return (a || '').localeCompare(b || '');
+  if (left === null) return 1;
+  if (right === null) return -1;
+  return left - right;
+}
+
+/**
+ * Whether a chapter counts as read given the saved progress.
+ * Oneshots and unnumbered chapters are never considered read.
+ */
+export function isChapterRead(chapter: string | null, lastChapter: number): boolean {
+  const value = parseChapterNumber(chapter);
+  return value !== null && value <= lastChapter;
+}
+
+/**
+ * Number of whole chapters released past the user's progress.
+ * Titles without a known latest chapter report 0.
+ */
+export function getUnreadCount(item: LibraryItem): number {
+  if (!item.lastChapter || !item.progress) return 0;
+  return Math.max(0, Math.floor(item.lastChapter) - Math.floor(item.progress.last_chapter || 0));
+}
+
+/**
+ * Element ID of a chapter's row in the Details chapter list, the target of
+ * chapter note "jump to chapter" links
+ */
+export function chapterAnchorId(chapter: number): string {
+  return `chapter-${String(chapter).replace('.', '-')}`;
+}
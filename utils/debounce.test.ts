@@ -0,0 +1,40 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { debounce } from './debounce';
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('debounce', () => {
+  it('calls once with the latest arguments after the delay', () => {
+    const fn = vi.fn();
+    const debounced = debounce(fn, 100);
+
+    debounced(1);
+    debounced(2);
+    vi.advanceTimersByTime(99);
+    expect(fn).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1);
+    expect(fn).toHaveBeenCalledTimes(1);
+    expect(fn).toHaveBeenCalledWith(2);
+  });
+
+  it('drops the pending call on cancel', () => {
+    const fn = vi.fn();
+    const debounced = debounce(fn, 100);
+
+    debounced('stale');
+    debounced.cancel();
+    vi.advanceTimersByTime(200);
+    expect(fn).not.toHaveBeenCalled();
+
+    debounced('fresh');
+    vi.advanceTimersByTime(100);
+    expect(fn).toHaveBeenCalledWith('fresh');
+  });
+});
@@ -1,16 +1,32 @@
+export interface Debounced<T extends (...args: any[]) => any> {
+  (...args: Parameters<T>): void;
+  /** Drop the pending call, if any */
+  cancel: () => void;
+}
+
 export function debounce<T extends (...args: any[]) => any>(
   func: T,
   delay: number
-): (...args: Parameters<T>) => void {
+): Debounced<T> {
   let timeoutId: NodeJS.Timeout | null = null;
 
-  return function (...args: Parameters<T>) {
+  const debounced = function (...args: Parameters<T>) {
     if (timeoutId) {
       clearTimeout(timeoutId);
     }
 
     timeoutId = setTimeout(() => {
+      timeoutId = null;
       func(...args);
     }, delay);
+  } as Debounced<T>;
+
+  debounced.cancel = () => {
+    if (timeoutId) {
+      clearTimeout(timeoutId);
+      timeoutId = null;
+    }
   };
+
+  return debounced;
 }
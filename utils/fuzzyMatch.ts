@@ -0,0 +1,72 @@
+/**
+ * Fuzzy title matching
+ *
+ * Used when importing lists from other trackers, where titles have to be
+ * matched against MangaDex search results by name alone.
+ */
+
+/**
+ * Normalize a title for comparison: lowercase, strip accents, punctuation
+ * and extra whitespace.
+ */
+export function normalizeTitle(title: string): string {
+  return title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+const bigrams = (value: string): Map<string, number> => {
+  const counts = new Map<string, number>();
+  const compact = value.replace(/\s+/g, ' ');
+  for (let i = 0; i < compact.length - 1; i++) {
+    const gram = compact.slice(i, i + 2);
+    counts.set(gram, (counts.get(gram) || 0) + 1);
+  }
+  return counts;
+};
+
+/**
+ * Similarity between two titles from 0 (nothing in common) to 1 (same title),
+ * using the Sørensen–Dice coefficient over character bigrams.
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const left = normalizeTitle(a);
+  const right = normalizeTitle(b);
+
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  if (left.length < 2 || right.length < 2) return 0;
+
+  const leftGrams = bigrams(left);
+  const rightGrams = bigrams(right);
+  let overlap = 0;
+  leftGrams.forEach((count, gram) => {
+    overlap += Math.min(count, rightGrams.get(gram) || 0);
+  });
+
+  return (2 * overlap) / (left.length - 1 + right.length - 1);
+}
+
+/**
+ * Pick the candidate whose title best matches the query.
+ * Returns null when there are no candidates.
+ */
+export function bestTitleMatch<T>(
+  query: string,
+  candidates: T[],
+  getTitles: (candidate: T) => string[]
+): { item: T; score: number } | null {
+  let best: { item: T; score: number } | null = null;
+
+  for (const candidate of candidates) {
+    const score = Math.max(0, ...getTitles(candidate).map(title => titleSimilarity(query, title)));
+    if (!best || score > best.score) {
+      best = { item: candidate, score };
+    }
+  }
+
+  return best;
+}
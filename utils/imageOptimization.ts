@@ -5,6 +5,20 @@
  * Works with the /api/cover proxy for MangaDex cover images.
  */
 
+/**
+ * Widths the /api/cover proxy resizes to. Other widths are snapped to the
+ * next size up (or the largest), so each cover has a small set of cacheable
+ * variants.
+ */
+export const COVER_WIDTHS = [128, 192, 256, 384, 512, 768, 1024] as const;
+
+/**
+ * Snap a requested width to the nearest allowed cover width at or above it
+ */
+export function snapCoverWidth(width: number): number {
+  return COVER_WIDTHS.find((allowed) => allowed >= width) ?? COVER_WIDTHS[COVER_WIDTHS.length - 1];
+}
+
 export interface ImageOptions {
   /** Desired width in pixels */
   width?: number;
@@ -14,8 +28,13 @@ export interface ImageOptions {
   preferWebP?: boolean;
 }
 
+// Only MangaDex covers go through the /api/cover proxy
+function isMangaDexCover(coverUrl: string): boolean {
+  return !/^https?:\/\//.test(coverUrl) || coverUrl.includes('uploads.mangadex.org');
+}
+
 /**
- * Build an optimized cover image URL with size and quality hints
+ * Build an optimized cover image URL resized and compressed by the proxy
  * 
  * @param coverUrl - Original MangaDex cover URL or path
  * @param options - Optimization options (width, quality)
@@ -26,7 +45,7 @@ export interface ImageOptions {
  * // Basic usage
  * const url = buildOptimizedCoverUrl('/covers/abc/def.jpg');
  * 
- * // With size hint
+ * // Resized to 256px wide
  * const thumbnail = buildOptimizedCoverUrl('/covers/abc/def.jpg', { width: 256 });
  * 
  * // With size and quality
@@ -41,6 +60,8 @@ export function buildOptimizedCoverUrl(
   options: ImageOptions = {}
 ): string {
   if (!coverUrl) return '';
+  // Covers from other sources (e.g. MyAnimeList's CDN) are used as-is
+  if (!isMangaDexCover(coverUrl)) return coverUrl;
 
   // Extract path from full MangaDex URLs if needed
   let path = coverUrl;
@@ -59,10 +80,10 @@ export function buildOptimizedCoverUrl(
     }
   }
 
-  // Build query params for optimization hints
+  // Build query params for the proxy
   const params = new URLSearchParams();
   if (options.width) {
-    params.set('w', options.width.toString());
+    params.set('w', snapCoverWidth(options.width).toString());
   }
   if (options.quality) {
     params.set('q', Math.max(1, Math.min(100, options.quality)).toString());
@@ -78,8 +99,8 @@ export function buildOptimizedCoverUrl(
  * Generate srcset attribute for responsive images
  * 
  * @param coverUrl - Original MangaDex cover URL or path
- * @param sizes - Array of widths for srcset (e.g., [256, 512, 1024])
- * @param quality - Optional quality hint for all sizes
+ * @param sizes - Array of widths for srcset (e.g., [256, 512, 1024]), snapped to COVER_WIDTHS
+ * @param quality - Optional quality for all sizes
  * @returns srcset attribute value
  * 
  * @example
@@ -96,7 +117,10 @@ export function buildSrcSet(
   sizes: number[] = [256, 512, 1024],
   quality?: number
 ): string {
-  return sizes
+  if (!coverUrl || !isMangaDexCover(coverUrl)) return '';
+  // Snapping can map several requested sizes onto the same variant
+  const widths = Array.from(new Set(sizes.map(snapCoverWidth)));
+  return widths
     .map((width) => {
       const url = buildOptimizedCoverUrl(coverUrl, { width, quality });
       return `${url} ${width}w`;
@@ -0,0 +1,159 @@
+/**
+ * Minimal promise wrapper around IndexedDB
+ *
+ * All client-side persistence goes through one database. Object stores are
+ * declared in STORES; bump DB_VERSION whenever a store is added so the
+ * upgrade handler creates it. Changes to the shape of stored records go in
+ * UPGRADES under the version that introduces them.
+ */
+
+const DB_NAME = 'dooftrack';
+const DB_VERSION = 7;
+
+const STORES: Record<string, IDBObjectStoreParameters> = {
+  // Writes made while offline, replayed in key order (see services/offlineQueue.ts)
+  offline_mutations: { keyPath: 'id', autoIncrement: true },
+  // Last fetched library per user (see services/libraryCache.ts)
+  library_cache: { keyPath: 'userId' },
+  // Guest mode data, used instead of Supabase until the guest signs up
+  // (see services/localStore.ts)
+  guest_library: { keyPath: 'id' },
+  guest_events: { keyPath: 'id' },
+  guest_goals: { keyPath: 'id' },
+  guest_achievements: { keyPath: 'id' },
+  guest_tags: { keyPath: 'id' },
+  guest_chapter_notes: { keyPath: 'id' },
+  guest_rereads: { keyPath: 'id' },
+};
+
+export type StoreName = keyof typeof STORES;
+
+// Rewrite every record in a store; return null to leave a record as it is
+const updateEach = (store: IDBObjectStore, update: (value: any) => unknown) => {
+  const request = store.openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    const updated = update(cursor.value);
+    if (updated !== null) cursor.update(updated);
+    cursor.continue();
+  };
+};
+
+// Changes to existing records, run in the upgrade transaction when a
+// database older than the given version is opened
+const UPGRADES: Record<number, (transaction: IDBTransaction) => void> = {
+  // Ratings went from 0-10 to 0-100 (see utils/ratings.ts)
+  6: (transaction) => {
+    transaction.objectStore('library_cache').clear();
+    updateEach(transaction.objectStore('guest_library'), title =>
+      title.progress?.rating ? { ...title, progress: { ...title.progress, rating: title.progress.rating * 10 } } : null
+    );
+    updateEach(transaction.objectStore('guest_events'), event =>
+      event.rating ? { ...event, rating: event.rating * 10 } : null
+    );
+    // Queued offline edits would otherwise replay an old rating onto the new scale
+    updateEach(transaction.objectStore('offline_mutations'), mutation =>
+      mutation.updates?.rating ? { ...mutation, updates: { ...mutation.updates, rating: mutation.updates.rating * 10 } } : null
+    );
+  },
+  // Reading events gained the reread flag (see utils/rereads.ts)
+  7: (transaction) => {
+    updateEach(transaction.objectStore('guest_events'), event =>
+      event.reread === undefined ? { ...event, reread: false } : null
+    );
+  },
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open (and upgrade if needed) the app database. The connection is shared.
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      Object.entries(STORES).forEach(([name, options]) => {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, options);
+        }
+      });
+      // A new database (version 0) has no records to change
+      Object.entries(UPGRADES).forEach(([version, upgrade]) => {
+        if (event.oldVersion > 0 && event.oldVersion < Number(version)) {
+          upgrade(request.transaction!);
+        }
+      });
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+}
+
+// Run a single request against a store and resolve with its result
+async function withStore<T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = run(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Get every record in a store, ordered by key
+ */
+export function idbGetAll<T>(storeName: StoreName): Promise<T[]> {
+  return withStore<T[]>(storeName, 'readonly', store => store.getAll());
+}
+
+/**
+ * Get one record by key
+ */
+export function idbGet<T>(storeName: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  return withStore<T | undefined>(storeName, 'readonly', store => store.get(key));
+}
+
+/**
+ * Insert or replace a record
+ * @returns The record's key (generated for auto-increment stores)
+ */
+export function idbPut<T>(storeName: StoreName, value: T, key?: IDBValidKey): Promise<IDBValidKey> {
+  return withStore(storeName, 'readwrite', store => store.put(value, key));
+}
+
+/**
+ * Delete one record by key
+ */
+export function idbDelete(storeName: StoreName, key: IDBValidKey): Promise<undefined> {
+  return withStore(storeName, 'readwrite', store => store.delete(key));
+}
+
+/**
+ * Delete every record in a store
+ */
+export function idbClear(storeName: StoreName): Promise<undefined> {
+  return withStore(storeName, 'readwrite', store => store.clear());
+}
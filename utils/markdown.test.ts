@@ -0,0 +1,66 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest';
+import DOMPurify from 'dompurify';
+import { redactSpoilers, renderMarkdown } from './markdown';
+
+describe('renderMarkdown', () => {
+  it('drops javascript: links and opens the rest in a new tab', () => {
+    const html = renderMarkdown('[bad](javascript:alert(1)) [good](https://mangadex.org)');
+
+    expect(html).not.toContain('javascript:');
+    expect(html).toContain('<a href="https://mangadex.org" target="_blank" rel="noopener noreferrer nofollow">good</a>');
+  });
+
+  it('strips raw images, event handlers and scripts from notes', () => {
+    const html = renderMarkdown('Nice <img src=x onerror="alert(1)"> chapter\n\n<script>alert(1)</script>');
+
+    expect(html).not.toMatch(/<img|onerror|<script|alert/);
+    expect(html).toContain('Nice');
+  });
+
+  it('strips raw HTML inside inline and block spoilers', () => {
+    const inline = renderMarkdown('||he <img src=x onerror="alert(1)"> dies||');
+    const block = renderMarkdown(':::spoiler Ending\n<script>alert(1)</script>\n<img src=x onerror="alert(1)">\n:::');
+
+    expect(inline).toContain('<span data-spoiler');
+    expect(inline).not.toMatch(/<img|onerror/);
+    expect(block).toContain('<details data-spoiler-block=""><summary>Ending</summary>');
+    expect(block).not.toMatch(/<img|onerror|<script|alert/);
+  });
+
+  it('keeps the attributes Markdown and spoilers need', () => {
+    expect(renderMarkdown('||x||')).toContain('role="button" tabindex="0" aria-expanded="false"');
+    expect(renderMarkdown('3. a\n4. b')).toContain('<ol start="3">');
+    expect(renderMarkdown('| a |\n|-:|\n| 1 |')).toContain('<td align="right">1</td>');
+  });
+
+  it('keeps task list checkboxes but strips other inputs', () => {
+    const html = renderMarkdown('- [x] Read chapter 1\n\n<input type="text" value="x"> <input type="password">');
+
+    expect(html).toContain('type="checkbox"');
+    expect(html).not.toMatch(/type="(text|password)"/);
+  });
+
+  it('leaves other DOMPurify calls alone', () => {
+    renderMarkdown('[link](https://mangadex.org)');
+
+    expect(DOMPurify.sanitize('<a href="https://mangadex.org">x</a><input type="text">'))
+      .toBe('<a href="https://mangadex.org">x</a><input type="text">');
+  });
+});
+
+describe('redactSpoilers', () => {
+  it('replaces inline spoilers', () => {
+    expect(redactSpoilers('Great arc, ||the mentor dies|| and ||the hero wins||.'))
+      .toBe('Great arc, [spoiler] and [spoiler].');
+  });
+
+  it('replaces block spoilers, keeping their titles', () => {
+    expect(redactSpoilers('Before\n:::spoiler Ending\nEveryone dies\n:::\nAfter')).toBe('Before\n[spoiler: Ending]\n\nAfter');
+    expect(redactSpoilers(':::spoiler\nSecret\n:::')).toBe('[spoiler]');
+  });
+
+  it('leaves text without spoilers as it is', () => {
+    expect(redactSpoilers('a || b and c||d')).toBe('a || b and c||d');
+  });
+});
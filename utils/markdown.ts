@@ -0,0 +1,96 @@
+/**
+ * Markdown rendering for notes
+ *
+ * Notes are stored as the Markdown the user wrote and rendered with marked
+ * (CommonMark plus GitHub tables, strikethrough and task lists). The HTML is
+ * always passed through sanitizeMarkdownHtml, so it is safe to inject
+ * whatever was saved.
+ *
+ * Spoilers are an extension on top:
+ *   ||inline spoiler||
+ *   :::spoiler Optional title
+ *   block spoiler, any Markdown
+ *   :::
+ */
+
+import { Marked, type MarkedExtension, type Tokens } from 'marked';
+import { sanitizeMarkdownHtml } from './sanitize';
+
+// Within one line, not starting or ending with whitespace
+const INLINE_SPOILER = /^\|\|(?=\S)([^\n]*?\S)\|\|/;
+// Whole lines between ":::spoiler" and a closing ":::" line
+const BLOCK_SPOILER = /^:::spoiler(?:[ \t]+([^\n]*))?\n((?:[^\n]*\n)*?):::[ \t]*(?:\n+|$)/;
+
+const SPOILER_PLACEHOLDER = '[spoiler]';
+
+const startIndex = (src: string, marker: string): number | undefined => {
+  const index = src.indexOf(marker);
+  return index === -1 ? undefined : index;
+};
+
+const spoilers: MarkedExtension = {
+  extensions: [
+    {
+      name: 'spoilerBlock',
+      level: 'block',
+      start: (src) => startIndex(src, ':::spoiler'),
+      tokenizer(src) {
+        const match = BLOCK_SPOILER.exec(src);
+        if (!match) return undefined;
+        return {
+          type: 'spoilerBlock',
+          raw: match[0],
+          titleTokens: this.lexer.inlineTokens(match[1]?.trim() || 'Spoiler'),
+          tokens: this.lexer.blockTokens(match[2], []),
+        };
+      },
+      renderer(token) {
+        const title = this.parser.parseInline((token as Tokens.Generic).titleTokens);
+        return `<details data-spoiler-block><summary>${title}</summary>${this.parser.parse(token.tokens || [])}</details>\n`;
+      },
+    },
+    {
+      name: 'spoiler',
+      level: 'inline',
+      start: (src) => startIndex(src, '||'),
+      tokenizer(src) {
+        const match = INLINE_SPOILER.exec(src);
+        if (!match) return undefined;
+        return {
+          type: 'spoiler',
+          raw: match[0],
+          tokens: this.lexer.inlineTokens(match[1]),
+        };
+      },
+      renderer(token) {
+        return `<span data-spoiler role="button" tabindex="0" aria-expanded="false" title="Reveal spoiler">${this.parser.parseInline(token.tokens || [])}</span>`;
+      },
+    },
+  ],
+};
+
+const markdown = new Marked({
+  gfm: true,
+  breaks: true, // A single newline is a line break, as in the notes editor
+}, spoilers);
+
+/**
+ * Render Markdown to sanitized HTML
+ */
+export function renderMarkdown(text: string): string {
+  if (!text || !text.trim()) return '';
+  return sanitizeMarkdownHtml(markdown.parse(text, { async: false }));
+}
+
+/**
+ * Replace spoiler contents with a placeholder, keeping block titles
+ */
+export function redactSpoilers(text: string): string {
+  if (!text) return '';
+  return text
+    .replace(new RegExp(BLOCK_SPOILER.source, 'gm'), (_block, title?: string) =>
+      `${title?.trim() ? `[spoiler: ${title.trim()}]` : SPOILER_PLACEHOLDER}\n\n`)
+    // Same pattern as INLINE_SPOILER, without the start-of-input anchor
+    .replace(new RegExp(INLINE_SPOILER.source.slice(1), 'g'), SPOILER_PLACEHOLDER)
+    .trim();
+}
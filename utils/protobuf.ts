@@ -0,0 +1,155 @@
+/**
+ * Minimal protobuf wire format reader
+ *
+ * Decodes a message into its raw fields without a schema; callers pick the
+ * fields they need by number. Used to read Tachiyomi / Mihon backups.
+ * https://protobuf.dev/programming-guides/encoding/
+ */
+
+const WIRE_VARINT = 0;
+const WIRE_FIXED64 = 1;
+const WIRE_LENGTH_DELIMITED = 2;
+const WIRE_FIXED32 = 5;
+
+interface ProtoField {
+  wireType: number;
+  // varint and fixed64: bigint, length-delimited: bytes, fixed32: raw bytes
+  value: bigint | Uint8Array;
+}
+
+export type ProtoMessage = Map<number, ProtoField[]>;
+
+const readVarint = (bytes: Uint8Array, offset: number): [bigint, number] => {
+  let result = 0n;
+  let shift = 0n;
+  let position = offset;
+
+  while (position < bytes.length) {
+    const byte = bytes[position++];
+    result |= BigInt(byte & 0x7f) << shift;
+    if ((byte & 0x80) === 0) return [result, position];
+    shift += 7n;
+    if (shift > 63n) break;
+  }
+  throw new Error('Malformed varint');
+};
+
+/**
+ * Split a message into its fields. Throws if the bytes are not valid
+ * protobuf.
+ */
+export function decodeMessage(bytes: Uint8Array): ProtoMessage {
+  const message: ProtoMessage = new Map();
+  let offset = 0;
+
+  while (offset < bytes.length) {
+    const [key, afterKey] = readVarint(bytes, offset);
+    const field = Number(key >> 3n);
+    const wireType = Number(key & 7n);
+    let value: bigint | Uint8Array;
+
+    switch (wireType) {
+      case WIRE_VARINT: {
+        [value, offset] = readVarint(bytes, afterKey);
+        break;
+      }
+      case WIRE_FIXED64: {
+        if (afterKey + 8 > bytes.length) throw new Error('Truncated fixed64 field');
+        value = new DataView(bytes.buffer, bytes.byteOffset + afterKey, 8).getBigUint64(0, true);
+        offset = afterKey + 8;
+        break;
+      }
+      case WIRE_LENGTH_DELIMITED: {
+        const [length, start] = readVarint(bytes, afterKey);
+        const end = start + Number(length);
+        if (end > bytes.length) throw new Error('Truncated length-delimited field');
+        value = bytes.subarray(start, end);
+        offset = end;
+        break;
+      }
+      case WIRE_FIXED32: {
+        if (afterKey + 4 > bytes.length) throw new Error('Truncated fixed32 field');
+        value = bytes.subarray(afterKey, afterKey + 4);
+        offset = afterKey + 4;
+        break;
+      }
+      default:
+        throw new Error(`Unsupported wire type ${wireType}`);
+    }
+
+    const fields = message.get(field) || [];
+    fields.push({ wireType, value });
+    message.set(field, fields);
+  }
+
+  return message;
+}
+
+// Scalars: the last occurrence of a field wins
+const last = (message: ProtoMessage, field: number, wireType: number): ProtoField | undefined =>
+  message.get(field)?.filter(f => f.wireType === wireType).pop();
+
+const textDecoder = new TextDecoder();
+
+export function getString(message: ProtoMessage, field: number): string | undefined {
+  const value = last(message, field, WIRE_LENGTH_DELIMITED)?.value;
+  return value instanceof Uint8Array ? textDecoder.decode(value) : undefined;
+}
+
+export function getStrings(message: ProtoMessage, field: number): string[] {
+  return (message.get(field) || [])
+    .filter(f => f.wireType === WIRE_LENGTH_DELIMITED)
+    .map(f => textDecoder.decode(f.value as Uint8Array));
+}
+
+/**
+ * int32/int64 field (two's complement varint). Kept as a bigint because
+ * Tachiyomi source IDs don't fit in a double.
+ */
+export function getBigInt(message: ProtoMessage, field: number): bigint | undefined {
+  const value = last(message, field, WIRE_VARINT)?.value;
+  return typeof value === 'bigint' ? BigInt.asIntN(64, value) : undefined;
+}
+
+export function getNumber(message: ProtoMessage, field: number): number | undefined {
+  const value = getBigInt(message, field);
+  return value === undefined ? undefined : Number(value);
+}
+
+export function getBool(message: ProtoMessage, field: number): boolean | undefined {
+  const value = getBigInt(message, field);
+  return value === undefined ? undefined : value !== 0n;
+}
+
+export function getFloat(message: ProtoMessage, field: number): number | undefined {
+  const value = last(message, field, WIRE_FIXED32)?.value;
+  if (!(value instanceof Uint8Array)) return undefined;
+  return new DataView(value.buffer, value.byteOffset, 4).getFloat32(0, true);
+}
+
+/**
+ * Repeated int32/int64 field, packed or not
+ */
+export function getBigInts(message: ProtoMessage, field: number): bigint[] {
+  const values: bigint[] = [];
+  (message.get(field) || []).forEach(f => {
+    if (f.wireType === WIRE_VARINT) {
+      values.push(BigInt.asIntN(64, f.value as bigint));
+    } else if (f.wireType === WIRE_LENGTH_DELIMITED) {
+      const bytes = f.value as Uint8Array;
+      let offset = 0;
+      while (offset < bytes.length) {
+        const [value, next] = readVarint(bytes, offset);
+        values.push(BigInt.asIntN(64, value));
+        offset = next;
+      }
+    }
+  });
+  return values;
+}
+
+export function getMessages(message: ProtoMessage, field: number): ProtoMessage[] {
+  return (message.get(field) || [])
+    .filter(f => f.wireType === WIRE_LENGTH_DELIMITED)
+    .map(f => decodeMessage(f.value as Uint8Array));
+}
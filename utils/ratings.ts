@@ -0,0 +1,109 @@
+/**
+ * Rating scales
+ *
+ * Ratings are stored as an integer from 0 to 100, with 0 meaning unrated,
+ * whatever scale the user rates in. Each scale converts to and from that for
+ * display and input only, so switching scales never changes a saved rating.
+ * A rating is only rewritten when the user edits it.
+ */
+
+export type RatingScale = 'point10' | 'point100' | 'stars5' | 'smiley3' | 'decimal10';
+
+export const MAX_RATING = 100;
+
+export const DEFAULT_RATING_SCALE: RatingScale = 'point10';
+
+interface RatingScaleInfo {
+  label: string;
+  max: number; // Highest value on the scale
+  step: number; // Smallest change on the scale
+}
+
+export const RATING_SCALES: Record<RatingScale, RatingScaleInfo> = {
+  point10: { label: '10 point (8/10)', max: 10, step: 1 },
+  point100: { label: '100 point (85/100)', max: 100, step: 1 },
+  stars5: { label: '5 stars with halves (4.5★)', max: 5, step: 0.5 },
+  smiley3: { label: '3 point smiley (🙂)', max: 3, step: 1 },
+  decimal10: { label: 'Decimal 10 point (8.5)', max: 10, step: 0.1 },
+};
+
+// Smileys from worst to best, the stored rating each one saves as, and the
+// highest stored rating each one is shown for
+const SMILEYS = [
+  { emoji: '🙁', rating: 35, upTo: 35 },
+  { emoji: '😐', rating: 60, upTo: 60 },
+  { emoji: '🙂', rating: 85, upTo: MAX_RATING },
+];
+
+export const isRatingScale = (value: unknown): value is RatingScale =>
+  typeof value === 'string' && value in RATING_SCALES;
+
+/**
+ * Round and clamp a value to a storable rating
+ */
+export const clampRating = (rating: number): number =>
+  Math.min(MAX_RATING, Math.max(0, Math.round(rating || 0)));
+
+/**
+ * Stored rating from a 0-10 value, as used by MAL and doofTrack before scales
+ */
+export const fromTenPointRating = (rating: number): number => clampRating(rating * 10);
+
+/**
+ * Stored rating as a value on the given scale. Unrated stays 0; anything
+ * rated shows at least the lowest step.
+ */
+export function toRatingScale(rating: number, scale: RatingScale): number {
+  if (!rating || rating <= 0) return 0;
+  if (scale === 'smiley3') return SMILEYS.findIndex(smiley => rating <= smiley.upTo) + 1;
+
+  const { max, step } = RATING_SCALES[scale];
+  const value = Math.round((rating / MAX_RATING) * max / step) * step;
+  return Math.max(step, Number(value.toFixed(1)));
+}
+
+/**
+ * Value on the given scale as a stored rating
+ */
+export function fromRatingScale(value: number, scale: RatingScale): number {
+  if (!value || value <= 0) return 0;
+  if (scale === 'smiley3') return SMILEYS[Math.min(SMILEYS.length, Math.round(value)) - 1].rating;
+  return clampRating((value / RATING_SCALES[scale].max) * MAX_RATING);
+}
+
+// A value already on the scale, with the scale's notation
+const formatScaleValue = (value: number, scale: RatingScale): string => {
+  switch (scale) {
+    case 'point10':
+      return `${value}/10`;
+    case 'point100':
+      return `${value}/100`;
+    case 'stars5':
+      return `${value}★`;
+    case 'smiley3':
+      return SMILEYS[value - 1].emoji;
+    case 'decimal10':
+      return `${value.toFixed(1)}/10`;
+  }
+};
+
+/**
+ * Stored rating in the given scale's notation, e.g. "8/10" or "4.5★".
+ * Returns '' when unrated so callers can choose their own placeholder.
+ */
+export function formatRating(rating: number, scale: RatingScale): string {
+  const value = toRatingScale(rating, scale);
+  return value ? formatScaleValue(value, scale) : '';
+}
+
+/**
+ * Average of stored ratings in the given scale's notation, to one decimal
+ * place where the scale allows it
+ */
+export function formatAverageRating(average: number, scale: RatingScale): string {
+  if (!average || average <= 0) return '';
+  if (scale === 'smiley3' || scale === 'point100') return formatRating(average, scale);
+
+  const value = Math.round((average / MAX_RATING) * RATING_SCALES[scale].max * 10) / 10;
+  return scale === 'stars5' ? `${value}★` : `${value}/10`;
+}
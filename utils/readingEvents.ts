@@ -0,0 +1,50 @@
+/**
+ * Reading event helpers
+ *
+ * Progress saves are logged as one event per field that changed, whether
+ * they go to Supabase (reading_events) or to the guest store in IndexedDB.
+ * Chapters read during a re-read are logged as chapter events marked reread.
+ */
+
+import { ReadingEventType, UserProgress } from '../types';
+
+export type ProgressSnapshot = Pick<UserProgress, 'status' | 'last_chapter' | 'rating'>;
+
+export interface ProgressEvent {
+  event_type: ReadingEventType;
+  from_chapter?: number;
+  to_chapter?: number;
+  status?: string;
+  rating?: number;
+  reread?: boolean;
+}
+
+/**
+ * Events for the changes between two progress snapshots. previous is null
+ * for a title that was just added.
+ */
+export function diffProgress(previous: ProgressSnapshot | null, next: ProgressSnapshot): ProgressEvent[] {
+  const events: ProgressEvent[] = [];
+
+  const fromChapter = previous?.last_chapter ?? 0;
+  if (next.last_chapter !== fromChapter) {
+    events.push({ event_type: 'chapter', from_chapter: fromChapter, to_chapter: next.last_chapter });
+  }
+  if (next.status !== previous?.status) {
+    events.push({ event_type: 'status', status: next.status });
+  }
+  if (previous && next.rating !== previous.rating) {
+    events.push({ event_type: 'rating', rating: next.rating });
+  }
+
+  return events;
+}
+
+/**
+ * Chapter event for progress made during a re-read, or null if the chapter
+ * didn't change. Re-reads have no status or rating events.
+ */
+export function rereadChapterEvent(fromChapter: number, toChapter: number): ProgressEvent | null {
+  if (fromChapter === toChapter) return null;
+  return { event_type: 'chapter', from_chapter: fromChapter, to_chapter: toChapter, reread: true };
+}
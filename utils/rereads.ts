@@ -0,0 +1,57 @@
+/**
+ * Re-read helpers
+ *
+ * A completed title can be re-read any number of times. The original read
+ * stays in the title's progress; each re-read is a separate record with its
+ * own dates, chapter and rating, kept in the order they were started. The
+ * original read is the 1st time, so the first re-read is the 2nd.
+ */
+
+import { Reread } from '../types';
+
+/**
+ * Oldest re-read first
+ */
+export const sortRereads = (rereads: Reread[]): Reread[] =>
+  [...rereads].sort((a, b) =>
+    a.start_date.localeCompare(b.start_date) || new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  );
+
+/**
+ * The re-read in progress, if any
+ */
+export const getActiveReread = (rereads: Reread[]): Reread | undefined =>
+  rereads.find(reread => reread.end_date === null);
+
+export const countFinishedRereads = (rereads: Reread[]): number =>
+  rereads.filter(reread => reread.end_date !== null).length;
+
+/**
+ * 1st, 2nd, 3rd, 4th ... 11th, 12th, 13th ... 21st
+ */
+export function ordinal(n: number): string {
+  const tens = n % 100;
+  if (tens >= 11 && tens <= 13) return `${n}th`;
+  switch (n % 10) {
+    case 1: return `${n}st`;
+    case 2: return `${n}nd`;
+    case 3: return `${n}rd`;
+    default: return `${n}th`;
+  }
+}
+
+/**
+ * How many times the title has been read by the end of this re-read,
+ * counting the original read
+ */
+export const getReadThrough = (rereads: Reread[], reread: Reread): number =>
+  sortRereads(rereads).findIndex(r => r.id === reread.id) + 2;
+
+/**
+ * Today as YYYY-MM-DD in local time, the format of re-read dates
+ */
+export function todayDate(): string {
+  const now = new Date();
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+}
@@ -34,3 +34,53 @@ export function sanitizeHtml(input: string): string {
   
   return clean.trim();
 }
+
+// Elements produced by the notes Markdown renderer
+const MARKDOWN_TAGS = [
+  'p', 'br', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'strong', 'em', 'del', 'code', 'pre', 'blockquote',
+  'ul', 'ol', 'li', 'a', 'input',
+  'table', 'thead', 'tbody', 'tr', 'th', 'td',
+  'span', 'details', 'summary' // Spoilers
+];
+const MARKDOWN_ATTRS = [
+  'href', 'title', 'start', 'align', 'type', 'checked', 'disabled',
+  'data-spoiler', 'data-spoiler-block', 'role', 'tabindex', 'aria-expanded'
+];
+
+// Links in rendered Markdown open in a new tab without access to this one.
+// Only added while sanitizeMarkdownHtml runs; DOMPurify hooks are global.
+const markdownAttributesHook = (node: Element) => {
+  if (node.tagName === 'A' && node.hasAttribute('href')) {
+    node.setAttribute('target', '_blank');
+    node.setAttribute('rel', 'noopener noreferrer nofollow');
+  }
+  // Task list checkboxes are display-only
+  if (node.tagName === 'INPUT' && node.getAttribute('type') !== 'checkbox') {
+    node.remove();
+  }
+};
+
+/**
+ * Sanitize HTML rendered from Markdown, keeping only the elements Markdown produces
+ * @param html - HTML output of the Markdown renderer
+ * @returns Sanitized HTML safe for dangerouslySetInnerHTML
+ */
+export function sanitizeMarkdownHtml(html: string): string {
+  if (!html) return '';
+
+  DOMPurify.addHook('afterSanitizeAttributes', markdownAttributesHook);
+  try {
+    const clean = DOMPurify.sanitize(html, {
+      ALLOWED_TAGS: MARKDOWN_TAGS,
+      ALLOWED_ATTR: MARKDOWN_ATTRS,
+      ADD_ATTR: ['target', 'rel'],
+      // Plain values, not URLs; ALLOWED_URI_REGEXP would strip them
+      ADD_URI_SAFE_ATTR: ['type', 'start', 'align', 'tabindex'],
+      ALLOWED_URI_REGEXP: /^(?:https?:|mailto:|#|\/(?!\/))/i
+    });
+    return clean.trim();
+  } finally {
+    DOMPurify.removeHook('afterSanitizeAttributes', markdownAttributesHook);
+  }
+}
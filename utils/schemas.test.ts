@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { ReadingStatus } from '../types';
+import { LibraryExportSchema } from './schemas';
+
+const item = (overrides: Record<string, unknown> = {}) => ({
+  id: 'a1',
+  title: 'Solo Leveling',
+  source_id: 'md-1',
+  created_at: '2024-01-01T00:00:00.000Z',
+  progress: {
+    status: ReadingStatus.READING,
+    last_chapter: 12,
+    rating: 8,
+    notes: '',
+    updated_at: '2024-02-01T00:00:00.000Z'
+  },
+  ...overrides,
+});
+
+describe('LibraryExportSchema', () => {
+  it('reads 1.0 files rated out of 10 with no source or tags', () => {
+    const result = LibraryExportSchema.parse({ exportDate: '2024-03-01', version: '1.0', library: [item()] });
+
+    expect(result.library[0]).toMatchObject({ source: 'mangadex', tags: [], progress: { rating: 80 } });
+  });
+
+  it('reads tags and source from 2.0 and 3.0 files', () => {
+    for (const version of ['2.0', '3.0']) {
+      const result = LibraryExportSchema.parse({
+        exportDate: '2024-03-01',
+        version,
+        tags: [{ name: 'Favourites', color: '#ef4444' }],
+        library: [item({ source: 'anilist', tags: ['Favourites'], progress: { ...item().progress, rating: 80 } })]
+      });
+
+      expect(result.version).toBe(version);
+      expect(result.library[0]).toMatchObject({ source: 'anilist', tags: ['Favourites'], progress: { rating: 80 } });
+      expect('tags' in result && result.tags).toEqual([{ name: 'Favourites', color: '#ef4444' }]);
+    }
+  });
+
+  it('rejects unknown versions', () => {
+    expect(LibraryExportSchema.safeParse({ exportDate: '2024-03-01', version: '4.0', library: [] }).success).toBe(false);
+  });
+});
@@ -1,40 +1,295 @@
 import { z } from 'zod';
+import { ReadingStatus } from '../types';
+import { fromTenPointRating } from './ratings';
 
-export const MangaDexResponseSchema = z.object({
-  data: z.array(z.object({
-    id: z.string(),
-    type: z.string(),
-    attributes: z.object({
-      title: z.record(z.string(), z.string()).optional(),
-      description: z.record(z.string(), z.string()).optional(),
-      status: z.string().optional(),
-      year: z.number().nullable().optional(),
-      tags: z.array(z.object({
-        id: z.string(),
-        attributes: z.object({
-          name: z.record(z.string(), z.string())
-        })
-      })).optional()
-    })
-  })),
+// --- MangaDex API ---
+// https://api.mangadex.org/docs/ . MangaDex serialises empty objects (no
+// description, no volumes) as [] so those fields accept both.
+
+const emptyArrayAsObject = (value: unknown) => (Array.isArray(value) && value.length === 0 ? {} : value);
+
+const LocalizedStringSchema = z.preprocess(emptyArrayAsObject, z.record(z.string(), z.string()));
+
+export const MangaDexRelationshipSchema = z.object({
+  id: z.string(),
+  type: z.string(),
+  // Set on manga-to-manga relationships (sequel, prequel, spin_off, ...)
+  related: z.string().optional(),
+  // Only present for relationships requested with includes[]
+  attributes: z.object({
+    fileName: z.string().optional(),
+    name: z.string().optional()
+  }).nullable().optional()
+});
+
+export const MangaDexTagSchema = z.object({
+  id: z.string(),
+  type: z.literal('tag'),
+  attributes: z.object({
+    name: LocalizedStringSchema,
+    description: LocalizedStringSchema.optional(),
+    group: z.string()
+  })
+});
+
+export const MangaDexMangaSchema = z.object({
+  id: z.string(),
+  type: z.literal('manga'),
+  attributes: z.object({
+    title: LocalizedStringSchema,
+    description: LocalizedStringSchema.optional(),
+    status: z.string().nullable().optional(),
+    year: z.number().nullable().optional(),
+    lastChapter: z.string().nullable().optional(),
+    createdAt: z.string(),
+    tags: z.array(MangaDexTagSchema).optional()
+  }),
+  relationships: z.array(MangaDexRelationshipSchema).default([])
+});
+
+export const MangaDexChapterSchema = z.object({
+  id: z.string(),
+  type: z.literal('chapter'),
+  attributes: z.object({
+    chapter: z.string().nullable(),
+    volume: z.string().nullable(),
+    title: z.string().nullable(),
+    pages: z.number(),
+    externalUrl: z.string().nullable().optional(),
+    publishAt: z.string().optional(),
+    createdAt: z.string()
+  }),
+  relationships: z.array(MangaDexRelationshipSchema).default([])
+});
+
+export const MangaDexCoverSchema = z.object({
+  id: z.string(),
+  type: z.literal('cover_art'),
+  attributes: z.object({
+    fileName: z.string(),
+    volume: z.string().nullable().optional(),
+    locale: z.string().nullable().optional()
+  }),
+  relationships: z.array(MangaDexRelationshipSchema).default([])
+});
+
+export const MangaDexAggregateSchema = z.object({
+  volumes: z.preprocess(emptyArrayAsObject, z.record(z.string(), z.object({
+    volume: z.string(),
+    chapters: z.preprocess(emptyArrayAsObject, z.record(z.string(), z.object({
+      chapter: z.string(),
+      id: z.string()
+    })))
+  })))
+});
+
+// Envelopes. Items are left unparsed here so a malformed entry can be
+// dropped on its own (see parseItems in utils/validation.ts).
+export const MangaDexEntitySchema = z.object({
+  data: z.unknown()
+});
+
+export const MangaDexCollectionSchema = z.object({
+  data: z.array(z.unknown()),
   limit: z.number().optional(),
   offset: z.number().optional(),
   total: z.number().optional()
 });
 
-export const MyAnimeListResponseSchema = z.object({
-    data: z.array(z.object({
-        node: z.object({
-            id: z.number(),
-            title: z.string(),
-            main_picture: z.object({
-                medium: z.string().optional(),
-                large: z.string().optional()
-            }).optional()
-        })
-    }))
+// --- MyAnimeList API ---
+// https://myanimelist.net/apiconfig/references/api/v2 . Enum fields fall back
+// to undefined for values added after this was written instead of dropping
+// the whole entry.
+
+export const MALMangaSchema = z.object({
+  id: z.number(),
+  title: z.string(),
+  main_picture: z.object({
+    medium: z.string(),
+    large: z.string().optional()
+  }).optional(),
+  alternative_titles: z.object({
+    synonyms: z.array(z.string()).optional(),
+    en: z.string().optional(),
+    ja: z.string().optional()
+  }).optional(),
+  synopsis: z.string().optional(),
+  mean: z.number().optional(),
+  rank: z.number().optional(),
+  popularity: z.number().optional(),
+  num_list_users: z.number().optional(),
+  num_scoring_users: z.number().optional(),
+  status: z.enum(['finished', 'currently_publishing', 'not_yet_published', 'on_hiatus', 'discontinued'])
+    .optional().catch(undefined),
+  genres: z.array(z.object({ id: z.number(), name: z.string() })).optional(),
+  media_type: z.enum(['manga', 'novel', 'light_novel', 'one_shot', 'doujinshi', 'manhwa', 'manhua', 'oel'])
+    .optional().catch(undefined),
+  num_volumes: z.number().optional(),
+  num_chapters: z.number().optional(),
+  authors: z.array(z.object({
+    node: z.object({
+      id: z.number(),
+      first_name: z.string().default(''),
+      last_name: z.string().default('')
+    }),
+    role: z.string().default('')
+  })).optional()
+});
+
+export const MALListNodeSchema = z.object({
+  node: MALMangaSchema,
+  ranking: z.object({ rank: z.number() }).optional()
+});
+
+export const MALCollectionSchema = z.object({
+  data: z.array(z.unknown())
+});
+
+// /manga/{id}?fields=related_manga,recommendations
+export const MALRelatedSchema = z.object({
+  related_manga: z.array(z.unknown()).default([]),
+  recommendations: z.array(z.unknown()).default([])
+});
+
+// --- AniList GraphQL API ---
+// https://docs.anilist.co . Every response is { data, errors? }; the shapes
+// below only cover the fields requested in services/anilist.ts.
+
+export const AniListMediaSchema = z.object({
+  id: z.number(),
+  idMal: z.number().nullish(),
+  type: z.enum(['ANIME', 'MANGA']).nullish().catch(undefined),
+  title: z.object({
+    romaji: z.string().nullish(),
+    english: z.string().nullish(),
+    native: z.string().nullish()
+  }),
+  description: z.string().nullish(),
+  chapters: z.number().nullish(),
+  status: z.enum(['FINISHED', 'RELEASING', 'NOT_YET_RELEASED', 'CANCELLED', 'HIATUS'])
+    .nullish().catch(undefined),
+  coverImage: z.object({
+    extraLarge: z.string().nullish(),
+    large: z.string().nullish(),
+    medium: z.string().nullish()
+  }).nullish()
+});
+
+export const AniListErrorsSchema = z.object({
+  errors: z.array(z.object({
+    message: z.string(),
+    status: z.number().optional()
+  })).optional()
+});
+
+export const AniListPageSchema = z.object({
+  data: z.object({
+    Page: z.object({ media: z.array(z.unknown()) })
+  })
+});
+
+export const AniListMediaResponseSchema = z.object({
+  data: z.object({ Media: z.unknown() })
+});
+
+export const AniListRelatedSchema = z.object({
+  data: z.object({
+    Media: z.object({
+      relations: z.object({
+        edges: z.array(z.object({
+          relationType: z.string().nullish(),
+          node: z.unknown()
+        }))
+      }).nullish(),
+      recommendations: z.object({
+        nodes: z.array(z.object({ mediaRecommendation: z.unknown() }))
+      }).nullish()
+    }).nullable()
+  })
+});
+
+export const AniListListEntrySchema = z.object({
+  status: z.enum(['CURRENT', 'PLANNING', 'COMPLETED', 'DROPPED', 'PAUSED', 'REPEATING']),
+  score: z.number().nullish(),
+  progress: z.number().nullish(),
+  notes: z.string().nullish(),
+  updatedAt: z.number().nullish(),
+  media: AniListMediaSchema
+});
+
+export const AniListListCollectionSchema = z.object({
+  data: z.object({
+    MediaListCollection: z.object({
+      hasNextChunk: z.boolean().nullish(),
+      lists: z.array(z.object({ entries: z.array(z.unknown()) }))
+    }).nullable()
+  })
+});
+
+// doofTrack library export (see exportLibraryAsJSON). Bump the version and add
+// a new schema to the union whenever the export shape changes.
+const ExportedProgressSchema = z.object({
+  id: z.string().optional(),
+  manhwa_id: z.string().optional(),
+  status: z.enum(ReadingStatus),
+  last_chapter: z.number().min(0),
+  rating: z.number().min(0).max(100), // Out of 100 since 2.0
+  notes: z.string().default(''),
+  updated_at: z.string()
 });
 
+// 1.0 files rated out of 10
+const ExportedProgressV1Schema = ExportedProgressSchema.extend({
+  rating: z.number().min(0).max(10).transform(fromTenPointRating)
+});
+
+const ExportedLibraryItemSchema = z.object({
+  id: z.string(),
+  title: z.string().min(1),
+  cover_url: z.string().default(''),
+  description: z.string().default(''),
+  // Added after 1.0 shipped; older files are all MangaDex
+  source: z.enum(['mangadex', 'mal', 'anilist']).default('mangadex'),
+  source_id: z.string().min(1),
+  mal_id: z.number().optional(),
+  created_at: z.string(),
+  lastChapter: z.number().optional(),
+  progress: ExportedProgressSchema.optional(),
+  tags: z.array(z.string()).default([]) // Tag names, see the file's tags list
+});
+
+const ExportedTagSchema = z.object({
+  name: z.string().min(1),
+  color: z.string()
+});
+
+export const LibraryExportV1Schema = z.object({
+  exportDate: z.string(),
+  version: z.literal('1.0'),
+  library: z.array(ExportedLibraryItemSchema.extend({ progress: ExportedProgressV1Schema.optional() }))
+});
+
+export const LibraryExportV2Schema = z.object({
+  exportDate: z.string(),
+  version: z.literal('2.0'),
+  tags: z.array(ExportedTagSchema).default([]),
+  library: z.array(ExportedLibraryItemSchema)
+});
+
+// Same shape as 2.0; bumped when imports started restoring tags
+export const LibraryExportV3Schema = LibraryExportV2Schema.extend({
+  version: z.literal('3.0')
+});
+
+export const LibraryExportSchema = z.discriminatedUnion('version', [LibraryExportV1Schema, LibraryExportV2Schema, LibraryExportV3Schema]);
+
 // Common types derived from schemas
-export type MangaDexResponse = z.infer<typeof MangaDexResponseSchema>;
-export type MyAnimeListResponse = z.infer<typeof MyAnimeListResponseSchema>;
+export type MangaDexManga = z.infer<typeof MangaDexMangaSchema>;
+export type MangaDexTag = z.infer<typeof MangaDexTagSchema>;
+export type MangaDexChapter = z.infer<typeof MangaDexChapterSchema>;
+export type MangaDexCover = z.infer<typeof MangaDexCoverSchema>;
+export type MangaDexAggregate = z.infer<typeof MangaDexAggregateSchema>;
+export type MALMangaData = z.infer<typeof MALMangaSchema>;
+export type AniListMedia = z.infer<typeof AniListMediaSchema>;
+export type AniListListEntry = z.infer<typeof AniListListEntrySchema>;
+export type LibraryExport = z.infer<typeof LibraryExportSchema>;
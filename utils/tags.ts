@@ -0,0 +1,50 @@
+/**
+ * Tag helpers
+ *
+ * Tags are user-defined shelves that sit alongside the reading status.
+ * Colours come from a fixed palette so they read well in both themes.
+ */
+
+import { LibraryItem, Tag } from '../types';
+
+export const TAG_COLORS = [
+  '#ef4444', // red
+  '#f97316', // orange
+  '#eab308', // yellow
+  '#22c55e', // green
+  '#14b8a6', // teal
+  '#3b82f6', // blue
+  '#8b5cf6', // violet
+  '#ec4899', // pink
+  '#6b7280', // gray
+];
+
+export const MAX_TAG_NAME_LENGTH = 40;
+
+export type TagMatchMode = 'any' | 'all';
+
+/**
+ * Trim and collapse whitespace; returns '' for names that can't be used
+ */
+export const normalizeTagName = (name: string): string =>
+  name.replace(/\s+/g, ' ').trim().slice(0, MAX_TAG_NAME_LENGTH);
+
+/**
+ * Whether a title has any / all of the given tags. An empty selection
+ * matches everything.
+ */
+export const matchesTags = (item: LibraryItem, tagIds: string[], mode: TagMatchMode): boolean => {
+  if (tagIds.length === 0) return true;
+  const itemTags = new Set(item.tagIds || []);
+  return mode === 'all'
+    ? tagIds.every(id => itemTags.has(id))
+    : tagIds.some(id => itemTags.has(id));
+};
+
+/**
+ * Names of a title's tags, in the order of the tag list
+ */
+export const getTagNames = (item: LibraryItem, tags: Tag[]): string[] => {
+  const itemTags = new Set(item.tagIds || []);
+  return tags.filter(tag => itemTags.has(tag.id)).map(tag => tag.name);
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { parseItems, reportDroppedItems, ResponseValidationError, subscribeToDroppedItems } from './validation';
+
+const ItemSchema = z.object({ id: z.string(), name: z.string() });
+const context = { source: 'mangadex' as const, endpoint: '/manga' };
+
+describe('parseItems', () => {
+  it('returns a typed error for each dropped item', () => {
+    const { items, errors } = parseItems(ItemSchema, [{ id: 'a', name: 'A' }, { id: 'b' }, null], context);
+
+    expect(items).toEqual([{ id: 'a', name: 'A' }]);
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toBeInstanceOf(ResponseValidationError);
+    expect(errors[0]).toMatchObject({ source: 'mangadex', endpoint: '/manga', itemId: 'b' });
+    expect(errors[1].itemId).toBeUndefined();
+  });
+});
+
+describe('reportDroppedItems', () => {
+  it('passes dropped items to subscribers until they unsubscribe', () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeToDroppedItems(listener);
+    const { errors } = parseItems(ItemSchema, [{ id: 'b' }], context);
+
+    reportDroppedItems([]);
+    reportDroppedItems(errors);
+    unsubscribe();
+    reportDroppedItems(errors);
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(errors);
+  });
+});
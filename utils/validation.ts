@@ -0,0 +1,96 @@
+import { z } from 'zod';
+
+export type ResponseSource = 'mangadex' | 'myanimelist' | 'anilist';
+
+/**
+ * An API response (or one item of it) that did not match its schema
+ */
+export class ResponseValidationError extends Error {
+  readonly source: ResponseSource;
+  readonly endpoint: string;
+  readonly issues: z.core.$ZodIssue[];
+  /** ID of the dropped item, when a single item of a list failed */
+  readonly itemId?: string;
+
+  constructor(source: ResponseSource, endpoint: string, issues: z.core.$ZodIssue[], itemId?: string) {
+    const issue = issues[0];
+    const path = issue?.path.length ? ` at ${issue.path.join('.')}` : '';
+    super(`Invalid ${source} response from ${endpoint}${itemId ? ` (item ${itemId})` : ''}: ${issue?.message || 'invalid format'}${path}`);
+    this.name = 'ResponseValidationError';
+    this.source = source;
+    this.endpoint = endpoint;
+    this.issues = issues;
+    this.itemId = itemId;
+  }
+}
+
+interface ValidationContext {
+  source: ResponseSource;
+  endpoint: string;
+}
+
+/**
+ * Parse a whole response. Throws ResponseValidationError if it doesn't match.
+ */
+export function parseResponse<T extends z.ZodType>(schema: T, json: unknown, context: ValidationContext): z.infer<T> {
+  const result = schema.safeParse(json);
+  if (!result.success) {
+    throw new ResponseValidationError(context.source, context.endpoint, result.error.issues);
+  }
+  return result.data;
+}
+
+export interface ParsedItems<T> {
+  items: T[];
+  /** One per item that didn't match and was left out; still count them for paging */
+  errors: ResponseValidationError[];
+}
+
+/**
+ * Parse each item of a list response, dropping the ones that don't match.
+ * Each dropped item comes back as a ResponseValidationError so callers can
+ * page by what the server sent and tell the user, or pass them to
+ * reportDroppedItems.
+ */
+export function parseItems<T extends z.ZodType>(schema: T, items: unknown[], context: ValidationContext): ParsedItems<z.infer<T>> {
+  const valid: z.infer<T>[] = [];
+  const errors: ResponseValidationError[] = [];
+  items.forEach(item => {
+    const result = schema.safeParse(item);
+    if (result.success) {
+      valid.push(result.data);
+    } else {
+      const raw = item as any;
+      const id = raw?.id ?? raw?.node?.id;
+      errors.push(new ResponseValidationError(
+        context.source,
+        context.endpoint,
+        result.error.issues,
+        id !== undefined ? String(id) : undefined
+      ));
+    }
+  });
+  return { items: valid, errors };
+}
+
+type DroppedItemsListener = (errors: ResponseValidationError[]) => void;
+
+const droppedItemsListeners = new Set<DroppedItemsListener>();
+
+/**
+ * Be told about list items dropped from API responses. Returns an
+ * unsubscribe function.
+ */
+export const subscribeToDroppedItems = (listener: DroppedItemsListener): (() => void) => {
+  droppedItemsListeners.add(listener);
+  return () => { droppedItemsListeners.delete(listener); };
+};
+
+/**
+ * Hand a response's dropped items to the subscribers, for callers with no
+ * way to pass them up
+ */
+export const reportDroppedItems = (errors: ResponseValidationError[]): void => {
+  if (errors.length === 0) return;
+  droppedItemsListeners.forEach(listener => listener(errors));
+};